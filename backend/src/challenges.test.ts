@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UnlockChallengeCache } from './challenges.js';
+
+// ============================================================================
+// Issue & Consume
+// ============================================================================
+
+describe('UnlockChallengeCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('issues a fresh challenge per attempt', () => {
+    const cache = new UnlockChallengeCache(300);
+    const first = cache.issue('msg-1', 'client-a')!;
+    const second = cache.issue('msg-1', 'client-a')!;
+    expect(first.messageId).toBe('msg-1');
+    expect(first.challenge).not.toBe(second.challenge);
+    expect(first).not.toHaveProperty('client');
+  });
+
+  it('accepts a challenge once and rejects the replay', () => {
+    const cache = new UnlockChallengeCache(300);
+    const { challenge } = cache.issue('msg-1', 'client-a')!;
+    expect(cache.consume(challenge, 'msg-1')).toEqual({ valid: true });
+    expect(cache.consume(challenge, 'msg-1')).toEqual({
+      valid: false,
+      reason: 'Challenge already used - replay rejected',
+    });
+  });
+
+  it('rejects a challenge issued for another message', () => {
+    const cache = new UnlockChallengeCache(300);
+    const { challenge } = cache.issue('msg-1', 'client-a')!;
+    expect(cache.consume(challenge, 'msg-2')).toMatchObject({ valid: false, reason: expect.stringMatching(/different message/) });
+    expect(cache.consume(challenge, 'msg-1')).toEqual({ valid: true });
+  });
+
+  it('rejects an unknown challenge', () => {
+    const cache = new UnlockChallengeCache(300);
+    expect(cache.consume('bm90LWlzc3VlZA==', 'msg-1')).toEqual({ valid: false, reason: 'Unknown or expired challenge' });
+  });
+
+  it('rejects an expired challenge', () => {
+    vi.useFakeTimers();
+    const cache = new UnlockChallengeCache(60);
+    const { challenge, expiresAt } = cache.issue('msg-1', 'client-a')!;
+    expect(expiresAt).toBe(Date.now() + 60_000);
+
+    vi.advanceTimersByTime(60_001);
+    expect(cache.consume(challenge, 'msg-1')).toEqual({ valid: false, reason: 'Unknown or expired challenge' });
+  });
+});
+
+// ============================================================================
+// Caps
+// ============================================================================
+
+describe('UnlockChallengeCache caps', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('caps live challenges per client', () => {
+    const cache = new UnlockChallengeCache(300, 2, 100);
+    const first = cache.issue('msg-1', 'client-a')!;
+    expect(cache.issue('msg-1', 'client-a')).not.toBeNull();
+    expect(cache.issue('msg-1', 'client-a')).toBeNull();
+    expect(cache.issue('msg-1', 'client-b')).not.toBeNull();
+
+    // Consuming one frees a slot
+    cache.consume(first.challenge, 'msg-1');
+    expect(cache.issue('msg-1', 'client-a')).not.toBeNull();
+  });
+
+  it('caps live challenges in total', () => {
+    const cache = new UnlockChallengeCache(300, 10, 3);
+    expect(cache.issue('msg-1', 'client-a')).not.toBeNull();
+    expect(cache.issue('msg-1', 'client-b')).not.toBeNull();
+    expect(cache.issue('msg-1', 'client-c')).not.toBeNull();
+    expect(cache.issue('msg-1', 'client-d')).toBeNull();
+  });
+
+  it('frees slots when challenges expire', () => {
+    vi.useFakeTimers();
+    const cache = new UnlockChallengeCache(60, 1, 100);
+    expect(cache.issue('msg-1', 'client-a')).not.toBeNull();
+    expect(cache.issue('msg-1', 'client-a')).toBeNull();
+
+    vi.advanceTimersByTime(60_001);
+    expect(cache.issue('msg-1', 'client-a')).not.toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unlock Challenges (replay protection)
+ *
+ * This module handles:
+ * - Issuing a random, short-lived challenge per unlock attempt
+ * - Capping live challenges per client and in total (issuing is unauthenticated)
+ * - Consuming a challenge exactly once
+ * - Remembering consumed challenges so replays get a clear refusal
+ *
+ * The device signs the challenge into its location attestation, so a
+ * captured attestation cannot be presented a second time.
+ */
+
+import { generateNonce } from './crypto.js';
+
+const MAX_LIVE_PER_CLIENT = 20;
+const MAX_LIVE_TOTAL = 10000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UnlockChallenge {
+  challenge: string; // Base64 random nonce
+  messageId: string; // What it unlocks - a message ID, or a device scope (see devices.ts)
+  expiresAt: number;
+}
+
+interface IssuedChallenge extends UnlockChallenge {
+  client: string;
+}
+
+// ============================================================================
+// Challenge Cache
+// ============================================================================
+
+export class UnlockChallengeCache {
+  private issued = new Map<string, IssuedChallenge>();
+  private liveByClient = new Map<string, number>();
+  private seen = new Map<string, number>(); // challenge -> expiresAt
+
+  constructor(
+    private readonly ttlSec: number = 300,
+    private readonly maxPerClient: number = MAX_LIVE_PER_CLIENT,
+    private readonly maxTotal: number = MAX_LIVE_TOTAL
+  ) {}
+
+  /**
+   * Issue a fresh challenge for one unlock attempt on a message
+   * null once the client (e.g. its IP) or the whole cache holds too many
+   * unused ones - they free up when consumed or expired
+   */
+  issue(messageId: string, client: string): UnlockChallenge | null {
+    this.prune();
+    const live = this.liveByClient.get(client) ?? 0;
+    if (live >= this.maxPerClient || this.issued.size >= this.maxTotal) {
+      return null;
+    }
+
+    const entry: IssuedChallenge = {
+      challenge: generateNonce(),
+      messageId,
+      expiresAt: Date.now() + this.ttlSec * 1000,
+      client,
+    };
+    this.issued.set(entry.challenge, entry);
+    this.liveByClient.set(client, live + 1);
+    const { client: _client, ...challenge } = entry;
+    return challenge;
+  }
+
+  /**
+   * Consume a challenge - succeeds at most once per challenge
+   */
+  consume(challenge: string, messageId: string): { valid: boolean; reason?: string } {
+    this.prune();
+
+    if (this.seen.has(challenge)) {
+      return { valid: false, reason: 'Challenge already used - replay rejected' };
+    }
+
+    const entry = this.issued.get(challenge);
+    if (!entry) {
+      return { valid: false, reason: 'Unknown or expired challenge' };
+    }
+    if (entry.messageId !== messageId) {
+      return { valid: false, reason: 'Challenge was issued for a different message or device' };
+    }
+
+    this.release(entry);
+    this.seen.set(challenge, entry.expiresAt);
+    return { valid: true };
+  }
+
+  private release(entry: IssuedChallenge): void {
+    this.issued.delete(entry.challenge);
+    const live = (this.liveByClient.get(entry.client) ?? 1) - 1;
+    if (live > 0) {
+      this.liveByClient.set(entry.client, live);
+    } else {
+      this.liveByClient.delete(entry.client);
+    }
+  }
+
+  /**
+   * Drop expired entries - a replayed attestation older than the TTL
+   * is already rejected by the freshness check
+   */
+  private prune(now: number = Date.now()): void {
+    for (const entry of this.issued.values()) {
+      if (entry.expiresAt < now) this.release(entry);
+    }
+    for (const [challenge, expiresAt] of this.seen) {
+      if (expiresAt < now) this.seen.delete(challenge);
+    }
+  }
+}
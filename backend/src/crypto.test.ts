@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CIPHER_SUITES,
+  ENVELOPE_VERSION,
+  LEGACY_ENVELOPE,
+  combineShares,
+  deriveLocationBoundKey,
+  generateAesKey,
+  splitSecret,
+  unwrapKey,
+  wrapKey,
+} from './crypto.js';
+import type { MessageEnvelope } from './types.js';
+
+// ============================================================================
+// Envelope Suites
+// ============================================================================
+
+describe.each(CIPHER_SUITES)('wrapKey / unwrapKey with %s', (suite) => {
+  const messageKey = generateAesKey();
+  const wrappingKey = generateAesKey();
+
+  it('round-trips the wrapped key', async () => {
+    const { wrappedKey, nonce, authTag } = await wrapKey(messageKey, wrappingKey, suite);
+    expect(await unwrapKey(wrappedKey, wrappingKey, nonce, authTag, suite)).toEqual(messageKey);
+  });
+
+  it('rejects a tampered ciphertext or tag', async () => {
+    const { wrappedKey, nonce, authTag } = await wrapKey(messageKey, wrappingKey, suite);
+    const flip = (base64: string) => {
+      const bytes = Buffer.from(base64, 'base64');
+      bytes[0] ^= 0x01;
+      return bytes.toString('base64');
+    };
+    await expect(unwrapKey(flip(wrappedKey), wrappingKey, nonce, authTag, suite)).rejects.toThrow();
+    await expect(unwrapKey(wrappedKey, wrappingKey, nonce, flip(authTag), suite)).rejects.toThrow();
+  });
+
+  it('rejects the wrong wrapping key', async () => {
+    const { wrappedKey, nonce, authTag } = await wrapKey(messageKey, wrappingKey, suite);
+    await expect(unwrapKey(wrappedKey, generateAesKey(), nonce, authTag, suite)).rejects.toThrow();
+  });
+});
+
+describe('envelope negotiation', () => {
+  const messageKey = generateAesKey();
+  const wrappingKey = generateAesKey();
+
+  it('does not open a wrap under a different suite', async () => {
+    const [aesGcm, secretbox] = CIPHER_SUITES;
+    const { wrappedKey, nonce, authTag } = await wrapKey(messageKey, wrappingKey, aesGcm);
+    await expect(unwrapKey(wrappedKey, wrappingKey, nonce, authTag, secretbox)).rejects.toThrow();
+  });
+
+  it('rejects an unknown suite', async () => {
+    const unknown = 'X25519-HKDF-SHA256-ROT13' as MessageEnvelope['suite'];
+    await expect(wrapKey(messageKey, wrappingKey, unknown)).rejects.toThrow(/Unsupported cipher suite/);
+  });
+
+  it('derives a different location key per envelope version', () => {
+    const current: MessageEnvelope = { version: ENVELOPE_VERSION, suite: LEGACY_ENVELOPE.suite };
+    const sharedSecret = Buffer.alloc(32, 7).toString('base64');
+    const derive = (envelope: MessageEnvelope) =>
+      deriveLocationBoundKey(sharedSecret, 18.52, 73.85, 100, 0, 1, 'AAAA', undefined, envelope);
+    expect(derive(current)).not.toEqual(derive(LEGACY_ENVELOPE));
+    expect(derive(current)).toEqual(derive(current));
+  });
+});
+
+// ============================================================================
+// Shamir Secret Sharing
+// ============================================================================
+
+describe('splitSecret / combineShares', () => {
+  const secret = generateAesKey();
+
+  it('recovers the secret from any k shares', () => {
+    const shares = splitSecret(secret, 5, 3);
+    expect(shares).toHaveLength(5);
+    expect(combineShares([shares[0], shares[1], shares[2]])).toEqual(secret);
+    expect(combineShares([shares[4], shares[1], shares[3]])).toEqual(secret);
+    expect(combineShares(shares)).toEqual(secret);
+  });
+
+  it('does not recover the secret from k-1 shares', () => {
+    const shares = splitSecret(secret, 5, 3);
+    expect(combineShares([shares[0], shares[1]])).not.toEqual(secret);
+  });
+
+  it('does not recover the secret from a tampered share', () => {
+    const shares = splitSecret(secret, 3, 2);
+    const tampered = Buffer.from(shares[1], 'base64');
+    tampered[1] ^= 0x01;
+    expect(combineShares([shares[0], tampered.toString('base64')])).not.toEqual(secret);
+  });
+
+  it('rejects repeated or zero x coordinates', () => {
+    const shares = splitSecret(secret, 3, 2);
+    expect(() => combineShares([shares[0], shares[0]])).toThrow(/distinct/);
+    const zero = Buffer.from(shares[0], 'base64');
+    zero[0] = 0;
+    expect(() => combineShares([zero.toString('base64'), shares[1]])).toThrow(/non-zero/);
+  });
+
+  it('rejects invalid thresholds', () => {
+    expect(() => splitSecret(secret, 3, 1)).toThrow(/Invalid threshold/);
+    expect(() => splitSecret(secret, 2, 3)).toThrow(/Invalid threshold/);
+    expect(() => splitSecret(secret, 256, 2)).toThrow(/Invalid threshold/);
+  });
+});
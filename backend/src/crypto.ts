@@ -5,13 +5,47 @@
  * - X25519: Elliptic-curve Diffie-Hellman key exchange
  * - Ed25519: Digital signatures for attestation
  * - AES-GCM: Authenticated encryption for message payloads
+ * - XSalsa20-Poly1305: The alternative AEAD suite (nacl.secretbox)
  * - HKDF: Key derivation to bind keys to location/time
  * - HMAC-SHA256: Message integrity and simple token signing
+ * - Message envelopes: the version and cipher suite a message was written with
  */
 
-import * as nacl from 'tweetnacl';
-import * as util from 'tweetnacl-util';
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
 import { createHmac, randomBytes, createHash } from 'crypto';
+import type { CipherSuite, MessageEnvelope, StoredMessage, Waypoint } from './types.js';
+
+// ============================================================================
+// Message Envelope - versions and cipher suites
+// ============================================================================
+
+export const CIPHER_SUITES: readonly CipherSuite[] = [
+  'X25519-HKDF-SHA256-AES256GCM',
+  'X25519-HKDF-SHA256-XSALSA20POLY1305',
+];
+
+/**
+ * Version written by current clients: a per-version HKDF salt
+ */
+export const ENVELOPE_VERSION = 2;
+
+/**
+ * Everything stored before envelopes existed
+ */
+export const LEGACY_ENVELOPE: MessageEnvelope = { version: 1, suite: 'X25519-HKDF-SHA256-AES256GCM' };
+
+export function getEnvelope(message: { envelope?: MessageEnvelope }): MessageEnvelope {
+  return message.envelope ?? LEGACY_ENVELOPE;
+}
+
+/**
+ * HKDF salt for a version - version 1 keeps its original fixed strings
+ */
+function hkdfSalt(envelope: MessageEnvelope, purpose: 'location' | 'split'): string {
+  const salt = `LocationBoundMessaging-v${envelope.version}`;
+  return purpose === 'split' ? `${salt}-split` : salt;
+}
 
 // ============================================================================
 // X25519 - Diffie-Hellman Key Exchange
@@ -45,6 +79,30 @@ export function computeSharedSecret(
   return util.encodeBase64(sharedSecret);
 }
 
+/**
+ * Seal base64 data to an X25519 public key from a one-time key pair
+ * Only the holder of the matching private key can open it (nacl.box.open
+ * with ephemeralPublicKey)
+ */
+export function sealToPublicKey(
+  data: string,
+  recipientPublicKey: string
+): { ciphertext: string; nonce: string; ephemeralPublicKey: string } {
+  const ephemeral = nacl.box.keyPair();
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const ciphertext = nacl.box(
+    util.decodeBase64(data),
+    nonce,
+    util.decodeBase64(recipientPublicKey),
+    ephemeral.secretKey
+  );
+  return {
+    ciphertext: util.encodeBase64(ciphertext),
+    nonce: util.encodeBase64(nonce),
+    ephemeralPublicKey: util.encodeBase64(ephemeral.publicKey),
+  };
+}
+
 // ============================================================================
 // Ed25519 - Digital Signatures
 // ============================================================================
@@ -150,6 +208,10 @@ export function hkdf(
 /**
  * Derive location-bound key from shared secret and location parameters
  * This creates a key that is cryptographically tied to specific coordinates and time
+ * 
+ * `constraints` carries any extra binding rules (e.g. { geofence }); it is only
+ * added to the info string when present, so plain-circle keys are unchanged.
+ * The HKDF salt comes from the message's envelope version.
  */
 export function deriveLocationBoundKey(
   sharedSecret: string,
@@ -158,7 +220,9 @@ export function deriveLocationBoundKey(
   radiusMeters: number,
   windowStart: number,
   windowEnd: number,
-  nonce: string
+  nonce: string,
+  constraints?: Record<string, unknown>,
+  envelope: MessageEnvelope = LEGACY_ENVELOPE
 ): Buffer {
   // Encode location parameters into context info
   const locationInfo = JSON.stringify({
@@ -168,19 +232,73 @@ export function deriveLocationBoundKey(
     start: windowStart,
     end: windowEnd,
     nonce,
+    ...(constraints && { constraints: canonicalJson(constraints) }),
   });
   
   // Use shared secret as input keying material
-  // Use fixed salt (could be message-specific for extra randomness)
+  // Use the envelope version's salt
   // Use location parameters as context info
   return hkdf(
     sharedSecret,
-    'LocationBoundMessaging-v1',
+    hkdfSalt(envelope, 'location'),
     locationInfo,
     32 // 256-bit key for AES-GCM
   );
 }
 
+/**
+ * Extra binding rules committed into the location-bound key
+ * Undefined for a plain circle binding, so existing keys still derive
+ */
+export function bindingConstraints(
+  binding: StoredMessage['locationBinding']
+): Record<string, unknown> | undefined {
+  const { geofence, vertical, schedule } = binding;
+  return geofence || vertical || schedule ? { geofence, vertical, schedule } : undefined;
+}
+
+/**
+ * Key for one waypoint stage
+ * The input is the previous stage's chain key (the shared secret for the first
+ * stage), so stages can only be opened in order
+ */
+export function deriveWaypointKey(
+  chainInput: string,
+  waypoint: Waypoint,
+  binding: StoredMessage['locationBinding'],
+  envelope: MessageEnvelope = LEGACY_ENVELOPE
+): Buffer {
+  return deriveLocationBoundKey(
+    chainInput,
+    waypoint.latitude,
+    waypoint.longitude,
+    waypoint.radiusMeters,
+    binding.windowStart,
+    binding.windowEnd,
+    waypoint.nonce,
+    waypoint.geofence && { geofence: waypoint.geofence },
+    envelope
+  );
+}
+
+/**
+ * Final wrapping key from both halves: the recipient's location-bound key and
+ * the server-held share, which /unlock releases only after verification
+ * Neither half alone opens the wrap
+ */
+export function combineKeyShares(
+  locationBoundKey: Buffer,
+  serverKeyShare: string,
+  envelope: MessageEnvelope = LEGACY_ENVELOPE
+): Buffer {
+  return hkdf(
+    Buffer.concat([locationBoundKey, Buffer.from(serverKeyShare, 'base64')]),
+    hkdfSalt(envelope, 'split'),
+    'wrapping-key',
+    32
+  );
+}
+
 // ============================================================================
 // AES-GCM - Authenticated Encryption
 // ============================================================================
@@ -246,32 +364,197 @@ export async function aesGcmDecrypt(
   return plaintext;
 }
 
+// ============================================================================
+// XSalsa20-Poly1305 - Authenticated Encryption (nacl.secretbox)
+// ============================================================================
+
 /**
- * Wrap (encrypt) a key with another key using AES-GCM
+ * Same { ciphertext, nonce, authTag } shape as AES-GCM: secretbox output is
+ * the 16-byte Poly1305 tag followed by the ciphertext, with a 24-byte nonce
+ */
+export function secretboxEncrypt(
+  plaintext: string,
+  key: Buffer
+): { ciphertext: string; nonce: string; authTag: string } {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const boxed = nacl.secretbox(util.decodeUTF8(plaintext), nonce, new Uint8Array(key));
+  
+  return {
+    ciphertext: util.encodeBase64(boxed.subarray(nacl.secretbox.overheadLength)),
+    nonce: util.encodeBase64(nonce),
+    authTag: util.encodeBase64(boxed.subarray(0, nacl.secretbox.overheadLength)),
+  };
+}
+
+/**
+ * Throws if authentication fails, like aesGcmDecrypt
+ */
+export function secretboxDecrypt(
+  ciphertext: string,
+  key: Buffer,
+  nonce: string,
+  authTag: string
+): string {
+  const boxed = Buffer.concat([Buffer.from(authTag, 'base64'), Buffer.from(ciphertext, 'base64')]);
+  const plaintext = nacl.secretbox.open(
+    new Uint8Array(boxed),
+    util.decodeBase64(nonce),
+    new Uint8Array(key)
+  );
+  if (!plaintext) {
+    throw new Error('Unsupported state or unable to authenticate data');
+  }
+  return util.encodeUTF8(plaintext);
+}
+
+// ============================================================================
+// Suite Dispatch
+// ============================================================================
+
+/**
+ * Encrypt with the AEAD a cipher suite names
+ */
+export async function encryptWithSuite(
+  suite: CipherSuite,
+  plaintext: string,
+  key: Buffer
+): Promise<{ ciphertext: string; nonce: string; authTag: string }> {
+  switch (suite) {
+    case 'X25519-HKDF-SHA256-AES256GCM':
+      return aesGcmEncrypt(plaintext, key);
+    case 'X25519-HKDF-SHA256-XSALSA20POLY1305':
+      return secretboxEncrypt(plaintext, key);
+    default:
+      throw new Error(`Unsupported cipher suite: ${suite}`);
+  }
+}
+
+export async function decryptWithSuite(
+  suite: CipherSuite,
+  ciphertext: string,
+  key: Buffer,
+  nonce: string,
+  authTag: string
+): Promise<string> {
+  switch (suite) {
+    case 'X25519-HKDF-SHA256-AES256GCM':
+      return aesGcmDecrypt(ciphertext, key, nonce, authTag);
+    case 'X25519-HKDF-SHA256-XSALSA20POLY1305':
+      return secretboxDecrypt(ciphertext, key, nonce, authTag);
+    default:
+      throw new Error(`Unsupported cipher suite: ${suite}`);
+  }
+}
+
+/**
+ * Wrap (encrypt) a key with another key using the suite's AEAD
  * This is used to wrap the message key K_msg with the location-bound key K_loc_input
  */
 export async function wrapKey(
   keyToWrap: Buffer,
-  wrappingKey: Buffer
+  wrappingKey: Buffer,
+  suite: CipherSuite = LEGACY_ENVELOPE.suite
 ): Promise<{ wrappedKey: string; nonce: string; authTag: string }> {
   const keyBase64 = keyToWrap.toString('base64');
-  return aesGcmEncrypt(keyBase64, wrappingKey);
+  const { ciphertext, nonce, authTag } = await encryptWithSuite(suite, keyBase64, wrappingKey);
+  return { wrappedKey: ciphertext, nonce, authTag };
 }
 
 /**
- * Unwrap (decrypt) a wrapped key using AES-GCM
+ * Unwrap (decrypt) a wrapped key using the suite's AEAD
  * This is used to unwrap K_msg when the recipient proves they are at the location
  */
 export async function unwrapKey(
   wrappedKey: string,
   wrappingKey: Buffer,
   nonce: string,
-  authTag: string
+  authTag: string,
+  suite: CipherSuite = LEGACY_ENVELOPE.suite
 ): Promise<Buffer> {
-  const keyBase64 = await aesGcmDecrypt(wrappedKey, wrappingKey, nonce, authTag);
+  const keyBase64 = await decryptWithSuite(suite, wrappedKey, wrappingKey, nonce, authTag);
   return Buffer.from(keyBase64, 'base64');
 }
 
+// ============================================================================
+// Shamir Secret Sharing - k-of-n over GF(256)
+// ============================================================================
+
+// Log/antilog tables for GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1
+const GF_EXP = new Uint8Array(510);
+const GF_LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  GF_EXP[i] = x;
+  GF_EXP[i + 255] = x;
+  GF_LOG[x] = i;
+  x ^= x << 1; // multiply by the generator 3
+  if (x & 0x100) x ^= 0x11b;
+}
+
+function gfMul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  return a === 0 ? 0 : GF_EXP[GF_LOG[a] + 255 - GF_LOG[b]];
+}
+
+/**
+ * Split a secret into n shares, any k of which recover it
+ * Each share is base64 of [x, y_1 .. y_len] with x in 1..n
+ */
+export function splitSecret(secret: Buffer, n: number, k: number): string[] {
+  if (k < 2 || k > n || n > 255) {
+    throw new Error(`Invalid threshold: ${k}-of-${n}`);
+  }
+
+  const shares = Array.from({ length: n }, (_, i) => {
+    const share = Buffer.alloc(secret.length + 1);
+    share[0] = i + 1;
+    return share;
+  });
+
+  for (let byte = 0; byte < secret.length; byte++) {
+    // Random polynomial of degree k-1 whose constant term is the secret byte
+    const coefficients = [secret[byte], ...randomBytes(k - 1)];
+    for (const share of shares) {
+      const x = share[0];
+      let y = 0;
+      for (let c = coefficients.length - 1; c >= 0; c--) {
+        y = gfMul(y, x) ^ coefficients[c];
+      }
+      share[byte + 1] = y;
+    }
+  }
+
+  return shares.map(share => share.toString('base64'));
+}
+
+/**
+ * Recover a secret from k (or more) shares by Lagrange interpolation at x = 0
+ */
+export function combineShares(shares: string[]): Buffer {
+  const decoded = shares.map(share => Buffer.from(share, 'base64'));
+  const xs = decoded.map(share => share[0]);
+  if (new Set(xs).size !== xs.length || xs.includes(0)) {
+    throw new Error('Shares must have distinct, non-zero x coordinates');
+  }
+
+  const secret = Buffer.alloc(decoded[0].length - 1);
+  for (let byte = 0; byte < secret.length; byte++) {
+    let value = 0;
+    for (let i = 0; i < decoded.length; i++) {
+      // Lagrange basis polynomial for share i, evaluated at 0
+      let basis = 1;
+      for (let j = 0; j < decoded.length; j++) {
+        if (i !== j) basis = gfMul(basis, gfDiv(xs[j], xs[j] ^ xs[i]));
+      }
+      value ^= gfMul(decoded[i][byte + 1], basis);
+    }
+    secret[byte] = value;
+  }
+  return secret;
+}
+
 // ============================================================================
 // HMAC-SHA256 - Message Authentication
 // ============================================================================
@@ -332,6 +615,32 @@ export function generateNonce(): string {
   return generateRandomBytes(16);
 }
 
+/**
+ * Deterministic JSON serialization for signing and key derivation
+ * Object keys are sorted recursively and undefined fields dropped, so the
+ * same logical value always produces the same bytes on every platform.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Generate a collision-resistant message ID (128 random bits)
+ */
+export function generateMessageId(): string {
+  return `msg-${randomBytes(16).toString('hex')}`;
+}
+
 /**
  * SHA-256 hash for fingerprinting
  */
@@ -0,0 +1,218 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { UnlockChallengeCache } from './challenges.js';
+import { generateEd25519KeyPair, signMessage } from './crypto.js';
+import {
+  DeviceRegistry,
+  buildDeviceActionPayload,
+  deviceChallengeScope,
+  isAdminRequest,
+  type DeviceAction,
+  type DeviceRecord,
+} from './devices.js';
+import type { IdentityRecord } from './directory.js';
+import type { LocationAttestation } from './location.js';
+import { MemoryStore } from './store.js';
+
+const bravo = generateEd25519KeyPair(); // Directory signing key of @bravo
+
+const identities: Record<string, IdentityRecord> = {
+  bravo: {
+    handle: 'bravo',
+    displayName: 'Officer Bravo',
+    publicKey: 'eDI1NTE5',
+    signingKey: bravo.publicKey,
+    fingerprint: '0000',
+    registeredAt: 0,
+  },
+};
+
+let challenges: UnlockChallengeCache;
+let registry: DeviceRegistry;
+
+beforeEach(() => {
+  challenges = new UnlockChallengeCache(300);
+  registry = new DeviceRegistry(new MemoryStore<DeviceRecord>(), challenges, {
+    get: async (handle: string) => identities[handle.toLowerCase()],
+  });
+});
+
+async function register(deviceId: string, owner?: string) {
+  const keys = generateEd25519KeyPair();
+  const timestamp = Date.now();
+  const payload = buildDeviceActionPayload('register-device', deviceId, timestamp, { publicKey: keys.publicKey, owner });
+  const result = await registry.register(deviceId, keys.publicKey, undefined, owner, {
+    timestamp,
+    signature: signMessage(payload, keys.privateKey),
+  });
+  return { ...keys, result };
+}
+
+// Sign an approve/revoke over a freshly issued challenge
+function signAction(action: DeviceAction, deviceId: string, privateKey: string, challenge?: string) {
+  const issued = challenge ?? challenges.issue(deviceChallengeScope(deviceId), 'test')!.challenge;
+  const timestamp = Date.now();
+  const payload = buildDeviceActionPayload(action, deviceId, timestamp, { challenge: issued });
+  return { challenge: issued, timestamp, signature: signMessage(payload, privateKey) };
+}
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+describe('DeviceRegistry.register', () => {
+  it('enrolls a device as pending with a lowercase owner', async () => {
+    const { result } = await register('phone-1', 'Bravo');
+    expect(result.status).toBe(201);
+    expect(result.device).toMatchObject({ deviceId: 'phone-1', owner: 'bravo', status: 'pending' });
+  });
+
+  it('rejects a proof not signed by the device key', async () => {
+    const keys = generateEd25519KeyPair();
+    const result = await registry.register('phone-1', keys.publicKey, undefined, undefined, {
+      timestamp: Date.now(),
+      signature: signMessage('something else', keys.privateKey),
+    });
+    expect(result).toMatchObject({ status: 403, reason: 'Invalid device signature' });
+  });
+
+  it('rejects a stale proof', async () => {
+    const keys = generateEd25519KeyPair();
+    const timestamp = Date.now() - 10 * 60 * 1000;
+    const payload = buildDeviceActionPayload('register-device', 'phone-1', timestamp, { publicKey: keys.publicKey });
+    const result = await registry.register('phone-1', keys.publicKey, undefined, undefined, {
+      timestamp,
+      signature: signMessage(payload, keys.privateKey),
+    });
+    expect(result.status).toBe(403);
+    expect(result.reason).toMatch(/skew/);
+  });
+
+  it('refuses a device ID that is already registered', async () => {
+    await register('phone-1');
+    expect((await register('phone-1')).result).toMatchObject({ status: 409 });
+  });
+});
+
+// ============================================================================
+// Approval Rules
+// ============================================================================
+
+describe('DeviceRegistry.authorize', () => {
+  it('lets the admin approve any device', async () => {
+    await register('phone-1');
+    expect(await registry.authorize('approve-device', 'phone-1', true)).toEqual({ approvedBy: 'admin' });
+  });
+
+  it('lets the owner approve with its directory signing key, once per challenge', async () => {
+    await register('phone-1', 'bravo');
+    const proof = { approverHandle: 'bravo', ...signAction('approve-device', 'phone-1', bravo.privateKey) };
+    expect(await registry.authorize('approve-device', 'phone-1', false, proof)).toEqual({ approvedBy: '@bravo' });
+    expect(await registry.authorize('approve-device', 'phone-1', false, proof)).toMatchObject({
+      reason: 'Challenge already used - replay rejected',
+    });
+  });
+
+  it('refuses another recipient, or the owner handle signed with another key', async () => {
+    await register('phone-1', 'bravo');
+    const stranger = generateEd25519KeyPair();
+
+    const otherHandle = { approverHandle: 'alpha', ...signAction('approve-device', 'phone-1', stranger.privateKey) };
+    expect((await registry.authorize('approve-device', 'phone-1', false, otherHandle)).reason)
+      .toMatch(/registered to/);
+
+    const wrongKey = { approverHandle: 'bravo', ...signAction('approve-device', 'phone-1', stranger.privateKey) };
+    expect(await registry.authorize('approve-device', 'phone-1', false, wrongKey)).toEqual({
+      reason: 'Invalid device signature',
+    });
+  });
+
+  it('refuses a device without an owner, or an owner missing from the directory', async () => {
+    await register('phone-1');
+    await register('phone-2', 'charlie');
+    for (const [deviceId, handle] of [['phone-1', 'bravo'], ['phone-2', 'charlie']]) {
+      const proof = { approverHandle: handle, ...signAction('approve-device', deviceId, bravo.privateKey) };
+      expect((await registry.authorize('approve-device', deviceId, false, proof)).approvedBy).toBeUndefined();
+    }
+  });
+
+  it('refuses a challenge issued for another device', async () => {
+    await register('phone-1', 'bravo');
+    await register('phone-2', 'bravo');
+    const foreign = challenges.issue(deviceChallengeScope('phone-2'), 'test')!.challenge;
+    const proof = { approverHandle: 'bravo', ...signAction('approve-device', 'phone-1', bravo.privateKey, foreign) };
+    expect((await registry.authorize('approve-device', 'phone-1', false, proof)).reason).toMatch(/different/);
+  });
+
+  it('never lets a device approve itself', async () => {
+    const device = await register('phone-1', 'bravo');
+    const proof = { approverDeviceId: 'phone-1', ...signAction('approve-device', 'phone-1', device.privateKey) };
+    expect(await registry.authorize('approve-device', 'phone-1', false, proof)).toEqual({
+      reason: 'A device may only revoke itself',
+    });
+  });
+
+  it('lets a device revoke itself but not another device', async () => {
+    const device = await register('phone-1', 'bravo');
+    await register('phone-2', 'bravo');
+
+    const other = { approverDeviceId: 'phone-1', ...signAction('revoke-device', 'phone-2', device.privateKey) };
+    expect((await registry.authorize('revoke-device', 'phone-2', false, other)).approvedBy).toBeUndefined();
+
+    const self = { approverDeviceId: 'phone-1', ...signAction('revoke-device', 'phone-1', device.privateKey) };
+    expect(await registry.authorize('revoke-device', 'phone-1', false, self)).toEqual({ approvedBy: 'phone-1' });
+  });
+
+  it('requires an admin token or a proof', async () => {
+    await register('phone-1', 'bravo');
+    expect((await registry.authorize('approve-device', 'phone-1', false)).reason).toMatch(/Admin token/);
+  });
+});
+
+// ============================================================================
+// Approve / Revoke / Attest
+// ============================================================================
+
+describe('DeviceRegistry approval state', () => {
+  const attestation = (deviceId: string, devicePublicKey: string) =>
+    ({ deviceId, devicePublicKey } as LocationAttestation);
+
+  it('only accepts attestations from approved devices with the enrolled key', async () => {
+    const { publicKey } = await register('phone-1', 'bravo');
+    expect(await registry.checkAttestationDevice(attestation('phone-1', publicKey))).toEqual({
+      valid: false,
+      reason: 'Device phone-1 is awaiting approval',
+    });
+
+    await registry.approve('phone-1', '@bravo');
+    expect(await registry.checkAttestationDevice(attestation('phone-1', publicKey))).toEqual({ valid: true });
+    expect((await registry.checkAttestationDevice(attestation('phone-1', bravo.publicKey))).reason).toMatch(/key does not match/);
+    expect((await registry.checkAttestationDevice(attestation('phone-1', publicKey), ['phone-2'])).reason).toMatch(/not a permitted/);
+    expect((await registry.checkAttestationDevice(attestation('phone-9', publicKey))).reason).toMatch(/Unknown device/);
+  });
+
+  it('rejects a revoked device and never re-approves it', async () => {
+    const { publicKey } = await register('phone-1', 'bravo');
+    await registry.approve('phone-1', 'admin');
+    expect(await registry.revoke('phone-1')).toMatchObject({ status: 'revoked' });
+
+    expect(await registry.checkAttestationDevice(attestation('phone-1', publicKey))).toEqual({
+      valid: false,
+      reason: 'Device phone-1 has been revoked',
+    });
+    expect(await registry.approve('phone-1', 'admin')).toBeUndefined();
+  });
+});
+
+describe('isAdminRequest', () => {
+  it('matches only the configured bearer token', () => {
+    expect(isAdminRequest('Bearer secret', 'secret')).toBe(true);
+    expect(isAdminRequest('Bearer guess', 'secret')).toBe(false);
+    expect(isAdminRequest('secret', 'secret')).toBe(false);
+    expect(isAdminRequest(undefined, 'secret')).toBe(false);
+  });
+
+  it('is always false without an admin token', () => {
+    expect(isAdminRequest('Bearer ', '')).toBe(false);
+    expect(isAdminRequest('Bearer ', undefined)).toBe(false);
+  });
+});
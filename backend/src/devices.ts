@@ -0,0 +1,292 @@
+/**
+ * Device Registry
+ *
+ * This module handles:
+ * - Enrolling a device's Ed25519 attestation key under its deviceId
+ * - Approval and revocation by an admin token, or by the recipient the device
+ *   belongs to (its owner handle's key-directory signing key) - any device may
+ *   also revoke itself
+ * - Checking that an attestation comes from an approved, matching device
+ *
+ * Without the registry any freshly generated key pair could sign a valid
+ * attestation; with it, only keys someone has vouched for are trusted.
+ * Signed approvals and revocations cover a one-time challenge
+ * (POST /api/devices/:id/challenge), so a captured proof cannot be replayed.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { UnlockChallengeCache } from './challenges.js';
+import { verifySignature } from './crypto.js';
+import { normalizeHandle, type KeyDirectory } from './directory.js';
+import type { LocationAttestation } from './location.js';
+import type { MessageStore } from './store.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DeviceStatus = 'pending' | 'approved' | 'revoked';
+
+export interface DeviceRecord {
+  deviceId: string;
+  publicKey: string; // Ed25519 public key used to sign attestations
+  label?: string;
+  owner?: string; // Directory handle of the recipient the device belongs to
+  status: DeviceStatus;
+  registeredAt: number;
+  approvedAt?: number;
+  approvedBy?: string; // "admin", "@<owner handle>" or the device itself (revoke)
+  revokedAt?: number;
+}
+
+export type DeviceAction = 'register-device' | 'approve-device' | 'revoke-device';
+
+/**
+ * Signed proof for a device action
+ * For register-device the signer is the new device itself; for approve/revoke
+ * it is the owner's directory identity (approverHandle) or, to revoke itself,
+ * the device (approverDeviceId), signing a challenge
+ */
+export interface DeviceActionProof {
+  timestamp: number;
+  signature: string;
+  approverHandle?: string;
+  approverDeviceId?: string;
+  challenge?: string;
+}
+
+// ============================================================================
+// Signing Payload
+// ============================================================================
+
+/**
+ * Canonical string signed for a device action
+ * Absent details are left out, so a plain registration signs
+ * {action, deviceId, publicKey, timestamp}
+ */
+export function buildDeviceActionPayload(
+  action: DeviceAction,
+  deviceId: string,
+  timestamp: number,
+  details: { publicKey?: string; owner?: string; challenge?: string } = {}
+): string {
+  const { publicKey, owner, challenge } = details;
+  return JSON.stringify({ action, deviceId, publicKey, owner, challenge, timestamp });
+}
+
+/**
+ * Scope of a device's approve/revoke challenges in the challenge cache
+ */
+export function deviceChallengeScope(deviceId: string): string {
+  return `device:${deviceId}`;
+}
+
+function verifyProof(
+  payload: string,
+  proof: DeviceActionProof,
+  publicKey: string,
+  maxSkewSec: number
+): { valid: boolean; reason?: string } {
+  if (Math.abs(Date.now() - proof.timestamp) > maxSkewSec * 1000) {
+    return { valid: false, reason: `Request timestamp outside allowed skew (max: ${maxSkewSec}s)` };
+  }
+  try {
+    if (verifySignature(payload, proof.signature, publicKey)) {
+      return { valid: true };
+    }
+  } catch {
+    // Malformed key or signature bytes
+  }
+  return { valid: false, reason: 'Invalid device signature' };
+}
+
+// ============================================================================
+// Admin Authorization
+// ============================================================================
+
+/**
+ * Check an "Authorization: Bearer <token>" header against ADMIN_TOKEN
+ * Always false when no admin token is configured
+ */
+export function isAdminRequest(authorization: string | undefined, adminToken: string | undefined): boolean {
+  if (!adminToken || !authorization?.startsWith('Bearer ')) {
+    return false;
+  }
+  // Compare digests so the comparison is constant-time regardless of length
+  const given = createHash('sha256').update(authorization.slice('Bearer '.length)).digest();
+  const expected = createHash('sha256').update(adminToken).digest();
+  return timingSafeEqual(given, expected);
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class DeviceRegistry {
+  constructor(
+    private readonly devices: MessageStore<DeviceRecord>,
+    private readonly challenges: UnlockChallengeCache,
+    private readonly directory: Pick<KeyDirectory, 'get'>,
+    private readonly maxSkewSec: number = 300
+  ) {}
+
+  get(deviceId: string): Promise<DeviceRecord | undefined> {
+    return this.devices.get(deviceId);
+  }
+
+  list(): Promise<DeviceRecord[]> {
+    return this.devices.values();
+  }
+
+  /**
+   * Enroll a device as pending - the device proves it holds the private key
+   * Claiming an owner grants nothing: only that handle's signing key (or an
+   * admin) can approve the device
+   */
+  async register(
+    deviceId: string,
+    publicKey: string,
+    label: string | undefined,
+    owner: string | undefined,
+    proof: DeviceActionProof
+  ): Promise<{ device?: DeviceRecord; status: number; reason?: string }> {
+    const payload = buildDeviceActionPayload('register-device', deviceId, proof.timestamp, { publicKey, owner });
+    const check = verifyProof(payload, proof, publicKey, this.maxSkewSec);
+    if (!check.valid) {
+      return { status: 403, reason: check.reason };
+    }
+
+    const device: DeviceRecord = {
+      deviceId,
+      publicKey,
+      label,
+      owner: owner && normalizeHandle(owner),
+      status: 'pending',
+      registeredAt: Date.now(),
+    };
+    if (!await this.devices.insert(deviceId, device)) {
+      return { status: 409, reason: 'Device ID already registered' };
+    }
+    return { device, status: 201 };
+  }
+
+  /**
+   * Check who is authorizing an approve/revoke: the admin, the recipient the
+   * device is registered to (signing with its directory key), or the device
+   * revoking itself
+   * Consumes the proof's challenge; returns the approver identity, or a reason
+   * for refusal
+   */
+  async authorize(
+    action: 'approve-device' | 'revoke-device',
+    deviceId: string,
+    isAdmin: boolean,
+    proof?: DeviceActionProof
+  ): Promise<{ approvedBy?: string; reason?: string }> {
+    if (isAdmin) {
+      return { approvedBy: 'admin' };
+    }
+
+    const signer = await this.findSigner(action, deviceId, proof);
+    if (!signer.publicKey) {
+      return { reason: signer.reason };
+    }
+
+    if (!proof?.challenge) {
+      return { reason: 'Challenge required (POST /api/devices/:id/challenge)' };
+    }
+    const payload = buildDeviceActionPayload(action, deviceId, proof.timestamp, { challenge: proof.challenge });
+    const check = verifyProof(payload, proof, signer.publicKey, this.maxSkewSec);
+    if (!check.valid) {
+      return { reason: check.reason };
+    }
+    const replayCheck = this.challenges.consume(proof.challenge, deviceChallengeScope(deviceId));
+    if (!replayCheck.valid) {
+      return { reason: replayCheck.reason };
+    }
+    return { approvedBy: signer.approvedBy };
+  }
+
+  /**
+   * Key that must have signed a non-admin approve/revoke
+   */
+  private async findSigner(
+    action: 'approve-device' | 'revoke-device',
+    deviceId: string,
+    proof?: DeviceActionProof
+  ): Promise<{ publicKey?: string; approvedBy?: string; reason?: string }> {
+    if (proof?.approverHandle) {
+      const handle = normalizeHandle(proof.approverHandle);
+      const target = await this.devices.get(deviceId);
+      if (!target?.owner || target.owner !== handle) {
+        return { reason: 'Only the recipient the device is registered to may approve or revoke it' };
+      }
+      const identity = await this.directory.get(handle);
+      if (!identity) {
+        return { reason: `Unknown directory handle: ${handle}` };
+      }
+      return { publicKey: identity.signingKey, approvedBy: `@${handle}` };
+    }
+
+    if (proof?.approverDeviceId) {
+      if (action !== 'revoke-device' || proof.approverDeviceId !== deviceId) {
+        return { reason: 'A device may only revoke itself' };
+      }
+      const device = await this.devices.get(deviceId);
+      if (!device || device.status === 'revoked') {
+        return { reason: 'Device not found or already revoked' };
+      }
+      return { publicKey: device.publicKey, approvedBy: deviceId };
+    }
+
+    return { reason: 'Admin token, or a signature from the owner\'s directory identity, is required' };
+  }
+
+  async approve(deviceId: string, approvedBy: string): Promise<DeviceRecord | undefined> {
+    const device = await this.devices.get(deviceId);
+    if (!device || device.status === 'revoked') {
+      return undefined;
+    }
+    const updated: DeviceRecord = { ...device, status: 'approved', approvedAt: Date.now(), approvedBy };
+    await this.devices.set(deviceId, updated);
+    return updated;
+  }
+
+  async revoke(deviceId: string): Promise<DeviceRecord | undefined> {
+    const device = await this.devices.get(deviceId);
+    if (!device) {
+      return undefined;
+    }
+    const updated: DeviceRecord = { ...device, status: 'revoked', revokedAt: Date.now() };
+    await this.devices.set(deviceId, updated);
+    return updated;
+  }
+
+  /**
+   * Check that an attestation was signed by an approved device's enrolled key
+   */
+  async checkAttestationDevice(
+    attestation: LocationAttestation,
+    allowedDeviceIds?: string[]
+  ): Promise<{ valid: boolean; reason?: string }> {
+    const device = await this.devices.get(attestation.deviceId);
+
+    if (!device) {
+      return { valid: false, reason: `Unknown device: ${attestation.deviceId}` };
+    }
+    if (device.status === 'revoked') {
+      return { valid: false, reason: `Device ${attestation.deviceId} has been revoked` };
+    }
+    if (device.status !== 'approved') {
+      return { valid: false, reason: `Device ${attestation.deviceId} is awaiting approval` };
+    }
+    if (device.publicKey !== attestation.devicePublicKey) {
+      return { valid: false, reason: 'Attestation key does not match the enrolled device key' };
+    }
+    if (allowedDeviceIds && !allowedDeviceIds.includes(device.deviceId)) {
+      return { valid: false, reason: 'Device is not a permitted recipient of this message' };
+    }
+
+    return { valid: true };
+  }
+}
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateEd25519KeyPair, generateX25519KeyPair, signMessage } from './crypto.js';
+import {
+  KeyDirectory,
+  MAX_PREKEYS,
+  buildIdentityPayload,
+  buildPrekeyPayload,
+  keyFingerprint,
+  type IdentityAction,
+  type IdentityRecord,
+  type PrekeyBundle,
+  type SignedPrekey,
+} from './directory.js';
+import { MemoryStore } from './store.js';
+
+const owner = generateEd25519KeyPair(); // Signing key of @bravo
+
+let directory: KeyDirectory;
+
+beforeEach(async () => {
+  directory = new KeyDirectory(new MemoryStore<IdentityRecord>(), new MemoryStore<PrekeyBundle>());
+  await register('bravo');
+});
+
+function prove(action: IdentityAction, handle: string, privateKey = owner.privateKey, publicKey?: string, displayName?: string) {
+  const timestamp = Date.now();
+  const payload = buildIdentityPayload(action, handle, timestamp, publicKey, displayName);
+  return { timestamp, signature: signMessage(payload, privateKey) };
+}
+
+function register(handle: string, displayName = 'Officer Bravo', keys = owner) {
+  const { publicKey } = generateX25519KeyPair();
+  return directory.register(handle, displayName, publicKey, keys.publicKey,
+    prove('register-identity', handle.toLowerCase(), keys.privateKey, publicKey, displayName));
+}
+
+function prekey(keyId: number, privateKey = owner.privateKey): SignedPrekey {
+  const { publicKey } = generateX25519KeyPair();
+  return { keyId, publicKey, signature: signMessage(buildPrekeyPayload('bravo', keyId, publicKey), privateKey) };
+}
+
+function upload(prekeys: SignedPrekey[], handle = 'bravo') {
+  return directory.uploadPrekeys(handle, prekeys, prove('upload-prekeys', 'bravo'));
+}
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+describe('KeyDirectory.register', () => {
+  it('publishes a self-signed identity with its fingerprint', async () => {
+    const alpha = generateEd25519KeyPair();
+    const result = await register('Alpha', 'Officer Alpha', alpha);
+    expect(result.status).toBe(201);
+    expect(result.identity).toMatchObject({ handle: 'alpha', displayName: 'Officer Alpha', signingKey: alpha.publicKey });
+    expect(result.identity!.fingerprint).toBe(keyFingerprint(result.identity!.publicKey));
+    expect(await directory.get('alpha')).toEqual(result.identity);
+  });
+
+  it('rejects a registration signed by another key', async () => {
+    const stranger = generateEd25519KeyPair();
+    const { publicKey } = generateX25519KeyPair();
+    const result = await directory.register('alpha', 'Officer Alpha', publicKey, owner.publicKey,
+      prove('register-identity', 'alpha', stranger.privateKey, publicKey, 'Officer Alpha'));
+    expect(result).toEqual({ status: 403, reason: 'Invalid identity signature' });
+  });
+
+  it('refuses a handle that is already taken, in any case', async () => {
+    const result = await register('BRAVO', 'Impostor', generateEd25519KeyPair());
+    expect(result).toEqual({ status: 409, reason: 'Handle already taken' });
+    expect((await directory.get('bravo'))?.displayName).toBe('Officer Bravo');
+  });
+
+  it('lets only the owning key remove an identity', async () => {
+    const stranger = generateEd25519KeyPair();
+    expect(await directory.remove('bravo', prove('remove-identity', 'bravo', stranger.privateKey))).toMatchObject({ status: 403 });
+    expect(await directory.remove('charlie', prove('remove-identity', 'charlie'))).toEqual({ status: 404, reason: 'Identity not found' });
+    expect(await directory.remove('bravo', prove('remove-identity', 'bravo'))).toEqual({ status: 200 });
+  });
+});
+
+describe('KeyDirectory proof skew', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects a proof signed too far from now', async () => {
+    const proof = prove('remove-identity', 'bravo');
+    vi.useFakeTimers({ now: proof.timestamp + 301_000 });
+    expect(await directory.remove('bravo', proof)).toEqual({
+      status: 403,
+      reason: 'Request timestamp outside allowed skew (max: 300s)',
+    });
+  });
+
+  it('accepts a proof inside the window, in either direction', async () => {
+    const proof = prove('remove-identity', 'bravo');
+    vi.useFakeTimers({ now: proof.timestamp - 299_000 });
+    expect(await directory.remove('bravo', proof)).toEqual({ status: 200 });
+  });
+});
+
+// ============================================================================
+// Search
+// ============================================================================
+
+describe('KeyDirectory.search', () => {
+  beforeEach(async () => {
+    await register('alpha', 'Officer Alpha', generateEd25519KeyPair());
+    await register('charlie.base', 'Base Control', generateEd25519KeyPair());
+  });
+
+  const handles = async (query: string, limit?: number) =>
+    (await directory.search(query, limit)).map(({ handle }) => handle);
+
+  it('matches a handle prefix or a display name substring, sorted by handle', async () => {
+    expect(await handles('ch')).toEqual(['charlie.base']);
+    expect(await handles('officer')).toEqual(['alpha', 'bravo']);
+    expect(await handles('  CONTROL ')).toEqual(['charlie.base']);
+  });
+
+  it('does not match inside a handle', async () => {
+    expect(await handles('harlie')).toEqual([]);
+    expect(await handles('.base')).toEqual([]);
+  });
+
+  it('limits the results', async () => {
+    expect(await handles('', 2)).toEqual(['alpha', 'bravo']);
+  });
+});
+
+// ============================================================================
+// Handles
+// ============================================================================
+
+describe('KeyDirectory handles', () => {
+  it('treats every handle case-insensitively', async () => {
+    expect(await upload([prekey(1)], 'BRAVO')).toEqual({ status: 200, available: 1 });
+    expect(await directory.prekeyCount('Bravo')).toBe(1);
+    expect((await directory.claimPrekey('bRavo'))?.keyId).toBe(1);
+
+    expect(await directory.remove('Bravo', prove('remove-identity', 'bravo'))).toEqual({ status: 200 });
+    expect(await directory.get('bravo')).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// One-Time Prekeys
+// ============================================================================
+
+describe('KeyDirectory prekeys', () => {
+  it('hands out each prekey once, oldest first, then nothing', async () => {
+    await upload([prekey(2), prekey(1)]);
+    expect((await directory.claimPrekey('bravo'))?.keyId).toBe(1);
+    expect((await directory.claimPrekey('bravo'))?.keyId).toBe(2);
+    expect(await directory.claimPrekey('bravo')).toBeUndefined();
+    expect(await directory.prekeyCount('bravo')).toBe(0);
+  });
+
+  it('rejects a prekey not signed by the identity key', async () => {
+    const stranger = generateEd25519KeyPair();
+    expect(await upload([prekey(1), prekey(2, stranger.privateKey)])).toEqual({
+      status: 403,
+      reason: 'Invalid signature on prekey 2',
+    });
+    expect(await directory.prekeyCount('bravo')).toBe(0);
+  });
+
+  it('rejects an upload not signed by the identity key', async () => {
+    const stranger = generateEd25519KeyPair();
+    const result = await directory.uploadPrekeys('bravo', [prekey(1)], prove('upload-prekeys', 'bravo', stranger.privateKey));
+    expect(result).toEqual({ status: 403, reason: 'Invalid identity signature' });
+  });
+
+  it('never accepts a keyId again, even after it was claimed', async () => {
+    await upload([prekey(1), prekey(2)]);
+    await directory.claimPrekey('bravo');
+
+    expect(await upload([prekey(1)])).toEqual({ status: 409, reason: 'Prekey 1 was already uploaded' });
+    expect(await upload([prekey(2)])).toMatchObject({ status: 409 });
+    expect(await upload([prekey(3), prekey(3)])).toMatchObject({ status: 409 });
+    expect(await upload([prekey(3)])).toEqual({ status: 200, available: 2 });
+  });
+
+  it('caps the unclaimed pool', async () => {
+    const prekeys = Array.from({ length: MAX_PREKEYS + 1 }, (_, i) => prekey(i + 1));
+    expect(await upload(prekeys)).toMatchObject({ status: 400 });
+    expect(await upload(prekeys.slice(0, MAX_PREKEYS))).toEqual({ status: 200, available: MAX_PREKEYS });
+  });
+
+  it('refuses prekeys for an unknown handle', async () => {
+    expect(await upload([prekey(1)], 'charlie')).toEqual({ status: 404, reason: 'Identity not found' });
+  });
+});
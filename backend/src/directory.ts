@@ -0,0 +1,262 @@
+/**
+ * Key Directory
+ *
+ * This module handles:
+ * - Publishing a named, long-term recipient identity (X25519 key) under a handle
+ * - Looking identities up by handle and searching by handle or display name
+ * - Fingerprints (sha256 of the public key) for out-of-band verification
+ * - Signed one-time X25519 prekeys, each handed out to exactly one sender
+ *
+ * Each entry is owned by an Ed25519 signing key: registration is self-signed,
+ * and only the same key can remove the entry again. The directory vouches for
+ * nothing else - senders should compare fingerprints before trusting a handle.
+ *
+ * Prekeys give forward secrecy: a message wrapped to a prekey can no longer
+ * be opened once the recipient deletes that prekey's private half, even if
+ * the long-term key leaks later. Every prekey is signed by the identity's
+ * signing key, so senders can check the server did not substitute its own.
+ */
+
+import { createHash } from 'crypto';
+import { verifySignature } from './crypto.js';
+import type { MessageStore } from './store.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IdentityRecord {
+  handle: string; // Lowercase, unique, e.g. "officer.bravo"
+  displayName: string; // e.g. "Officer Bravo"
+  publicKey: string; // X25519 key messages are wrapped to
+  signingKey: string; // Ed25519 key that owns this entry
+  fingerprint: string; // sha256(publicKey), see keyFingerprint
+  registeredAt: number;
+}
+
+export type IdentityAction = 'register-identity' | 'remove-identity' | 'upload-prekeys';
+
+/**
+ * One-time X25519 prekey, signed with the identity's Ed25519 key
+ */
+export interface SignedPrekey {
+  keyId: number; // Increasing per identity - a reused id is rejected
+  publicKey: string;
+  signature: string; // Over buildPrekeyPayload(handle, keyId, publicKey)
+}
+
+export interface PrekeyBundle {
+  handle: string;
+  lastKeyId: number; // Highest keyId ever uploaded, claimed or not
+  prekeys: SignedPrekey[]; // Unclaimed, oldest first
+}
+
+export interface IdentityProof {
+  timestamp: number;
+  signature: string;
+}
+
+export const HANDLE_PATTERN = /^[a-z0-9][a-z0-9._-]{2,31}$/;
+export const MAX_PREKEYS = 100;
+
+/**
+ * Handles are stored, looked up and signed in lowercase
+ */
+export function normalizeHandle(handle: string): string {
+  return handle.toLowerCase();
+}
+
+// ============================================================================
+// Fingerprints & Signing Payload
+// ============================================================================
+
+/**
+ * sha256 of the raw public key bytes, as 16 groups of 4 hex digits
+ */
+export function keyFingerprint(publicKey: string): string {
+  const digest = createHash('sha256').update(Buffer.from(publicKey, 'base64')).digest('hex');
+  return digest.match(/.{4}/g)!.join(' ');
+}
+
+/**
+ * Canonical string signed for a directory action
+ */
+export function buildIdentityPayload(
+  action: IdentityAction,
+  handle: string,
+  timestamp: number,
+  publicKey?: string,
+  displayName?: string
+): string {
+  return JSON.stringify({ action, handle, displayName, publicKey, timestamp });
+}
+
+/**
+ * Canonical string signed for each one-time prekey
+ */
+export function buildPrekeyPayload(handle: string, keyId: number, publicKey: string): string {
+  return JSON.stringify({ action: 'prekey', handle, keyId, publicKey });
+}
+
+// ============================================================================
+// Directory
+// ============================================================================
+
+export class KeyDirectory {
+  constructor(
+    private readonly identities: MessageStore<IdentityRecord>,
+    private readonly prekeys: MessageStore<PrekeyBundle>,
+    private readonly maxSkewSec: number = 300
+  ) {}
+
+  get(handle: string): Promise<IdentityRecord | undefined> {
+    return this.identities.get(normalizeHandle(handle));
+  }
+
+  /**
+   * Case-insensitive match on handle prefix or display name substring
+   */
+  async search(query: string, limit = 20): Promise<IdentityRecord[]> {
+    const needle = query.trim().toLowerCase();
+    const identities = await this.identities.values();
+    return identities
+      .filter(identity =>
+        identity.handle.startsWith(needle) || identity.displayName.toLowerCase().includes(needle))
+      .sort((a, b) => a.handle.localeCompare(b.handle))
+      .slice(0, limit);
+  }
+
+  private checkSignature(payload: string, signature: string, signingKey: string): boolean {
+    try {
+      return verifySignature(payload, signature, signingKey);
+    } catch {
+      return false; // Malformed key or signature bytes
+    }
+  }
+
+  private checkProof(payload: string, proof: IdentityProof, signingKey: string): { valid: boolean; reason?: string } {
+    if (Math.abs(Date.now() - proof.timestamp) > this.maxSkewSec * 1000) {
+      return { valid: false, reason: `Request timestamp outside allowed skew (max: ${this.maxSkewSec}s)` };
+    }
+    if (!this.checkSignature(payload, proof.signature, signingKey)) {
+      return { valid: false, reason: 'Invalid identity signature' };
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Publish an identity - the signing key proves who owns the handle
+   */
+  async register(
+    handle: string,
+    displayName: string,
+    publicKey: string,
+    signingKey: string,
+    proof: IdentityProof
+  ): Promise<{ identity?: IdentityRecord; status: number; reason?: string }> {
+    handle = normalizeHandle(handle);
+    const payload = buildIdentityPayload('register-identity', handle, proof.timestamp, publicKey, displayName);
+    const check = this.checkProof(payload, proof, signingKey);
+    if (!check.valid) {
+      return { status: 403, reason: check.reason };
+    }
+
+    const identity: IdentityRecord = {
+      handle,
+      displayName,
+      publicKey,
+      signingKey,
+      fingerprint: keyFingerprint(publicKey),
+      registeredAt: Date.now(),
+    };
+    if (!await this.identities.insert(handle, identity)) {
+      return { status: 409, reason: 'Handle already taken' };
+    }
+    return { identity, status: 201 };
+  }
+
+  /**
+   * Remove an identity - only its own signing key may do so
+   */
+  async remove(handle: string, proof: IdentityProof): Promise<{ status: number; reason?: string }> {
+    handle = normalizeHandle(handle);
+    const identity = await this.identities.get(handle);
+    if (!identity) {
+      return { status: 404, reason: 'Identity not found' };
+    }
+
+    const payload = buildIdentityPayload('remove-identity', handle, proof.timestamp);
+    const check = this.checkProof(payload, proof, identity.signingKey);
+    if (!check.valid) {
+      return { status: 403, reason: check.reason };
+    }
+
+    await this.identities.delete(handle);
+    await this.prekeys.delete(handle);
+    return { status: 200 };
+  }
+
+  // ==========================================================================
+  // One-Time Prekeys
+  // ==========================================================================
+
+  async prekeyCount(handle: string): Promise<number> {
+    return (await this.prekeys.get(normalizeHandle(handle)))?.prekeys.length ?? 0;
+  }
+
+  /**
+   * Add prekeys to an identity's pool - the upload and every prekey must be
+   * signed by the identity's signing key
+   */
+  async uploadPrekeys(
+    handle: string,
+    prekeys: SignedPrekey[],
+    proof: IdentityProof
+  ): Promise<{ status: number; reason?: string; available?: number }> {
+    handle = normalizeHandle(handle);
+    const identity = await this.identities.get(handle);
+    if (!identity) {
+      return { status: 404, reason: 'Identity not found' };
+    }
+
+    const check = this.checkProof(buildIdentityPayload('upload-prekeys', handle, proof.timestamp), proof, identity.signingKey);
+    if (!check.valid) {
+      return { status: 403, reason: check.reason };
+    }
+
+    const bundle = (await this.prekeys.get(handle)) ?? { handle, lastKeyId: 0, prekeys: [] };
+    let lastKeyId = bundle.lastKeyId;
+    for (const prekey of [...prekeys].sort((a, b) => a.keyId - b.keyId)) {
+      if (prekey.keyId <= lastKeyId) {
+        return { status: 409, reason: `Prekey ${prekey.keyId} was already uploaded` };
+      }
+      const payload = buildPrekeyPayload(handle, prekey.keyId, prekey.publicKey);
+      if (!this.checkSignature(payload, prekey.signature, identity.signingKey)) {
+        return { status: 403, reason: `Invalid signature on prekey ${prekey.keyId}` };
+      }
+      lastKeyId = prekey.keyId;
+    }
+
+    if (bundle.prekeys.length + prekeys.length > MAX_PREKEYS) {
+      return { status: 400, reason: `At most ${MAX_PREKEYS} unclaimed prekeys per identity` };
+    }
+
+    bundle.prekeys.push(...[...prekeys].sort((a, b) => a.keyId - b.keyId));
+    bundle.lastKeyId = lastKeyId;
+    await this.prekeys.set(handle, bundle);
+    return { status: 200, available: bundle.prekeys.length };
+  }
+
+  /**
+   * Hand out (and forget) the oldest unclaimed prekey
+   * Undefined when the pool is empty - senders fall back to the long-term key
+   */
+  async claimPrekey(handle: string): Promise<SignedPrekey | undefined> {
+    const bundle = await this.prekeys.get(normalizeHandle(handle));
+    const prekey = bundle?.prekeys.shift();
+    if (bundle && prekey) {
+      await this.prekeys.set(bundle.handle, bundle);
+    }
+    return prekey;
+  }
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkVerticalConstraint,
+  evaluateGeofence,
+  isWithinPolygon,
+  verticalRange,
+  type CircleGeofence,
+  type PolygonGeofence,
+  type VerticalConstraint,
+} from './geofence.js';
+
+// ============================================================================
+// Polygons and Multi-Zone Geofences
+// ============================================================================
+
+// About 100m x 100m around 18.52, 73.85
+const square: PolygonGeofence = {
+  type: 'polygon',
+  vertices: [
+    { lat: 18.5195, lon: 73.8495 },
+    { lat: 18.5195, lon: 73.8505 },
+    { lat: 18.5205, lon: 73.8505 },
+    { lat: 18.5205, lon: 73.8495 },
+  ],
+};
+
+// L-shaped corridor: its vertex average (18.5204, 73.8504) is outside it
+const corridor: PolygonGeofence = {
+  type: 'polygon',
+  vertices: [
+    { lat: 18.5200, lon: 73.8500 },
+    { lat: 18.5200, lon: 73.8510 },
+    { lat: 18.5202, lon: 73.8510 },
+    { lat: 18.5202, lon: 73.8502 },
+    { lat: 18.5210, lon: 73.8502 },
+    { lat: 18.5210, lon: 73.8500 },
+  ],
+};
+
+const farCircle: CircleGeofence = { type: 'circle', latitude: 18.53, longitude: 73.85, radiusMeters: 50 };
+
+describe('isWithinPolygon', () => {
+  it('accepts points inside and rejects points outside', () => {
+    expect(isWithinPolygon(18.52, 73.85, square.vertices)).toBe(true);
+    expect(isWithinPolygon(18.5210, 73.85, square.vertices)).toBe(false);
+    expect(isWithinPolygon(18.52, 73.8510, square.vertices)).toBe(false);
+  });
+
+  it('follows a concave outline', () => {
+    expect(isWithinPolygon(18.5201, 73.8508, corridor.vertices)).toBe(true);
+    expect(isWithinPolygon(18.5208, 73.8501, corridor.vertices)).toBe(true);
+    expect(isWithinPolygon(18.5206, 73.8506, corridor.vertices)).toBe(false);
+  });
+});
+
+describe('evaluateGeofence', () => {
+  it('is fully confident for a precise fix well inside a polygon', () => {
+    expect(evaluateGeofence(square, 18.52, 73.85, 5)).toMatchObject({ within: true, confidence: 1 });
+  });
+
+  it('is about half confident for a fix on a polygon edge', () => {
+    const result = evaluateGeofence(square, 18.52, 73.8505, 10);
+    expect(result.confidence).toBeGreaterThan(0.4);
+    expect(result.confidence).toBeLessThan(0.6);
+  });
+
+  it('is barely confident for a fix much coarser than the polygon', () => {
+    expect(evaluateGeofence(square, 18.52, 73.85, 2000).confidence).toBeLessThan(0.01);
+  });
+
+  it('reports a point outside a polygon with a reason', () => {
+    const result = evaluateGeofence(square, 18.5210, 73.85, 0);
+    expect(result.within).toBe(false);
+    expect(result.reason).toMatch(/not inside polygon/);
+  });
+
+  it('"any" accepts a reading inside one of the zones', () => {
+    const result = evaluateGeofence({ type: 'multi', mode: 'any', zones: [farCircle, square] }, 18.52, 73.85, 5);
+    expect(result).toMatchObject({ within: true, confidence: 1 });
+    expect(result.reason).toBeUndefined();
+  });
+
+  it('"all" rejects a reading outside any one of the zones', () => {
+    const result = evaluateGeofence({ type: 'multi', mode: 'all', zones: [farCircle, square] }, 18.52, 73.85, 5);
+    expect(result.within).toBe(false);
+    expect(result.reason).toMatch(/outside 1 of 2 required zones/);
+  });
+
+  it('"all" takes the weakest zone\'s confidence', () => {
+    const circle: CircleGeofence = { type: 'circle', latitude: 18.52, longitude: 73.85, radiusMeters: 500 };
+    const result = evaluateGeofence({ type: 'multi', mode: 'all', zones: [circle, square] }, 18.52, 73.8504, 20);
+    expect(result.within).toBe(true);
+    expect(result.confidence).toBeLessThan(1);
+    expect(result.confidence).toBe(evaluateGeofence(square, 18.52, 73.8504, 20).confidence);
+  });
+});
+
+// ============================================================================
+// Vertical Constraints
+// ============================================================================
+
+describe('verticalRange', () => {
+  it('passes an altitude band through', () => {
+    expect(verticalRange({ type: 'altitude', minMeters: 100, maxMeters: 120 })).toEqual({ min: 100, max: 120 });
+  });
+
+  it('converts a floor to a band above ground altitude (3m floors by default)', () => {
+    expect(verticalRange({ type: 'floor', floor: 0, groundAltitudeMeters: 560 })).toEqual({ min: 560, max: 563 });
+    expect(verticalRange({ type: 'floor', floor: 4, groundAltitudeMeters: 560 })).toEqual({ min: 572, max: 575 });
+  });
+
+  it('uses a custom floor height and counts basements down', () => {
+    expect(verticalRange({ type: 'floor', floor: 2, groundAltitudeMeters: 10, floorHeightMeters: 4.5 }))
+      .toEqual({ min: 19, max: 23.5 });
+    expect(verticalRange({ type: 'floor', floor: -1, groundAltitudeMeters: 10 })).toEqual({ min: 7, max: 10 });
+  });
+});
+
+describe('checkVerticalConstraint', () => {
+  // Floor 4 of a building on ground at 560m: band 572m..575m
+  const floor: VerticalConstraint = { type: 'floor', floor: 4, groundAltitudeMeters: 560 };
+
+  it('accepts a reading inside the band', () => {
+    expect(checkVerticalConstraint(floor, 573.5, 0).valid).toBe(true);
+    expect(checkVerticalConstraint(floor, 572, 0).valid).toBe(true);
+    expect(checkVerticalConstraint(floor, 575, 0).valid).toBe(true);
+  });
+
+  it('accepts a typical phone reading on the right floor', () => {
+    // ±10m is normal for GPS altitude; the floor itself is only 3m high
+    expect(checkVerticalConstraint(floor, 573.5, 10).valid).toBe(true);
+    expect(checkVerticalConstraint(floor, 580, 10).valid).toBe(true);
+  });
+
+  it('widens the band below by the vertical accuracy', () => {
+    expect(checkVerticalConstraint(floor, 567, 5).valid).toBe(true);
+    expect(checkVerticalConstraint(floor, 566.9, 5).valid).toBe(false);
+  });
+
+  it('widens the band above by the vertical accuracy', () => {
+    expect(checkVerticalConstraint(floor, 580, 5).valid).toBe(true);
+    expect(checkVerticalConstraint(floor, 580.1, 5).valid).toBe(false);
+  });
+
+  it('rejects a precise reading from another floor', () => {
+    const result = checkVerticalConstraint(floor, 566, 2);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/outside vertical range/);
+  });
+
+  it('rejects readings coarser than 20m by default', () => {
+    expect(checkVerticalConstraint(floor, 573.5, 20).valid).toBe(true);
+    expect(checkVerticalConstraint(floor, 573.5, 21).reason).toMatch(/too coarse/);
+  });
+
+  it('enforces an explicit accuracy cap', () => {
+    const altitude: VerticalConstraint = { type: 'altitude', minMeters: 100, maxMeters: 200, maxVerticalAccuracyMeters: 5 };
+    expect(checkVerticalConstraint(altitude, 150, 5).valid).toBe(true);
+    expect(checkVerticalConstraint(altitude, 150, 6).reason).toMatch(/too coarse/);
+  });
+
+  it('requires altitude and vertical accuracy', () => {
+    expect(checkVerticalConstraint(floor, undefined, 1).valid).toBe(false);
+    expect(checkVerticalConstraint(floor, 573.5, undefined).valid).toBe(false);
+  });
+});
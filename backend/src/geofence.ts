@@ -0,0 +1,306 @@
+/**
+ * Geofence Geometry
+ *
+ * This module handles:
+ * - The geofence shapes a message can be bound to (circle, polygon, multi-zone)
+ * - Point-in-zone tests on the sphere
+ * - How much of a GPS accuracy circle falls inside a zone (confidence)
+ * - Vertical constraints (altitude range or floor number)
+ *
+ * Polygons are tested in a gnomonic projection centred on the reading: great
+ * circles project to straight lines, so polygon edges stay exact and ordinary
+ * ray casting gives the spherical point-in-polygon answer.
+ */
+
+import { calculateDistance, geofenceConfidence } from './location.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface CircleGeofence {
+  type: 'circle';
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
+/**
+ * Simple polygon (e.g. a building footprint or corridor)
+ * The ring closes implicitly - the last vertex joins the first
+ */
+export interface PolygonGeofence {
+  type: 'polygon';
+  vertices: GeoPoint[];
+}
+
+/**
+ * Several zones combined: "any" = inside at least one, "all" = inside every one
+ */
+export interface MultiGeofence {
+  type: 'multi';
+  mode: 'any' | 'all';
+  zones: Array<CircleGeofence | PolygonGeofence>;
+}
+
+export type Geofence = CircleGeofence | PolygonGeofence | MultiGeofence;
+
+/**
+ * Vertical binding for multi-storey locations
+ * Altitudes are meters above sea level, as reported by the device
+ */
+export type VerticalConstraint =
+  | {
+      type: 'altitude';
+      minMeters: number;
+      maxMeters: number;
+      maxVerticalAccuracyMeters?: number;
+    }
+  | {
+      type: 'floor';
+      floor: number; // 0 = ground floor, negative = basement
+      groundAltitudeMeters: number;
+      floorHeightMeters?: number; // Default 3
+      maxVerticalAccuracyMeters?: number;
+    };
+
+export interface GeofenceEvaluation {
+  within: boolean;
+  distance: number; // Meters from the (nearest) zone centre
+  confidence: number; // 0..1 share of the accuracy circle inside the geofence
+  reason?: string; // Why the reading is outside, when it is
+}
+
+// ============================================================================
+// Projection
+// ============================================================================
+
+const EARTH_RADIUS = 6371000;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Gnomonic projection of a point around a centre, in meters
+ * Returns null for points 90° or more away (not projectable)
+ */
+function project(center: GeoPoint, point: GeoPoint): { x: number; y: number } | null {
+  const φ0 = toRad(center.lat);
+  const φ = toRad(point.lat);
+  const Δλ = toRad(point.lon - center.lon);
+
+  const cosC = Math.sin(φ0) * Math.sin(φ) + Math.cos(φ0) * Math.cos(φ) * Math.cos(Δλ);
+  if (cosC <= 0) return null;
+
+  return {
+    x: (EARTH_RADIUS * Math.cos(φ) * Math.sin(Δλ)) / cosC,
+    y: (EARTH_RADIUS * (Math.cos(φ0) * Math.sin(φ) - Math.sin(φ0) * Math.cos(φ) * Math.cos(Δλ))) / cosC,
+  };
+}
+
+/**
+ * Even-odd ray casting for a planar point
+ */
+function pointInRing(x: number, y: number, ring: Array<{ x: number; y: number }>): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Unit-disc sample offsets (Vogel spiral - evenly spread, equal area)
+ */
+const DISC_SAMPLES = Array.from({ length: 256 }, (_, i) => {
+  const r = Math.sqrt((i + 0.5) / 256);
+  const θ = i * Math.PI * (3 - Math.sqrt(5));
+  return { x: r * Math.cos(θ), y: r * Math.sin(θ) };
+});
+
+// ============================================================================
+// Zone Tests
+// ============================================================================
+
+/**
+ * Vertex average - used as the polygon's reference point for distances
+ */
+export function polygonCentroid(vertices: GeoPoint[]): GeoPoint {
+  const lat = vertices.reduce((sum, v) => sum + v.lat, 0) / vertices.length;
+  const lon = vertices.reduce((sum, v) => sum + v.lon, 0) / vertices.length;
+  return { lat, lon };
+}
+
+/**
+ * Spherical point-in-polygon test
+ */
+export function isWithinPolygon(lat: number, lon: number, vertices: GeoPoint[]): boolean {
+  const ring = vertices.map(v => project({ lat, lon }, v));
+  if (ring.some(p => p === null)) return false;
+  return pointInRing(0, 0, ring as Array<{ x: number; y: number }>);
+}
+
+function evaluateCircle(zone: CircleGeofence, lat: number, lon: number, accuracy: number): GeofenceEvaluation {
+  const distance = calculateDistance(lat, lon, zone.latitude, zone.longitude);
+  const within = distance <= zone.radiusMeters;
+  return {
+    within,
+    distance,
+    confidence: geofenceConfidence(distance, zone.radiusMeters, accuracy),
+    reason: within
+      ? undefined
+      : `Location outside geofence: ${distance.toFixed(2)}m from target (max: ${zone.radiusMeters}m)`,
+  };
+}
+
+function evaluatePolygon(zone: PolygonGeofence, lat: number, lon: number, accuracy: number): GeofenceEvaluation {
+  const center = polygonCentroid(zone.vertices);
+  const distance = calculateDistance(lat, lon, center.lat, center.lon);
+  const projected = zone.vertices.map(v => project({ lat, lon }, v));
+
+  if (projected.some(p => p === null)) {
+    return { within: false, distance, confidence: 0, reason: 'Location outside geofence: polygon is on the far side of the globe' };
+  }
+  const ring = projected as Array<{ x: number; y: number }>;
+  const within = pointInRing(0, 0, ring);
+
+  // Share of the accuracy disc inside the polygon, by sampling
+  let confidence = within ? 1 : 0;
+  if (accuracy > 0) {
+    const inside = DISC_SAMPLES.filter(s => pointInRing(s.x * accuracy, s.y * accuracy, ring)).length;
+    confidence = inside / DISC_SAMPLES.length;
+  }
+
+  return {
+    within,
+    distance,
+    confidence,
+    reason: within
+      ? undefined
+      : `Location outside geofence: not inside polygon (${distance.toFixed(2)}m from its centre)`,
+  };
+}
+
+function evaluateZone(zone: CircleGeofence | PolygonGeofence, lat: number, lon: number, accuracy: number): GeofenceEvaluation {
+  return zone.type === 'circle'
+    ? evaluateCircle(zone, lat, lon, accuracy)
+    : evaluatePolygon(zone, lat, lon, accuracy);
+}
+
+/**
+ * Evaluate a reading (with its GPS accuracy) against any geofence
+ * Multi-zone: "any" takes the best zone, "all" the worst
+ */
+export function evaluateGeofence(
+  geofence: Geofence,
+  lat: number,
+  lon: number,
+  accuracy: number = 0
+): GeofenceEvaluation {
+  if (geofence.type !== 'multi') {
+    return evaluateZone(geofence, lat, lon, accuracy);
+  }
+
+  const results = geofence.zones.map(zone => evaluateZone(zone, lat, lon, accuracy));
+
+  if (geofence.mode === 'any') {
+    const inside = results.filter(r => r.within);
+    const pool = inside.length > 0 ? inside : results;
+    const best = pool.reduce((a, b) => (b.confidence > a.confidence || (b.confidence === a.confidence && b.distance < a.distance) ? b : a));
+    return {
+      ...best,
+      reason: inside.length > 0 ? undefined : `Location outside geofence: not inside any of ${results.length} zones`,
+    };
+  }
+
+  const outside = results.filter(r => !r.within);
+  const worst = results.reduce((a, b) => (b.confidence < a.confidence ? b : a));
+  return {
+    within: outside.length === 0,
+    distance: Math.max(...results.map(r => r.distance)),
+    confidence: worst.confidence,
+    reason: outside.length === 0
+      ? undefined
+      : `Location outside geofence: outside ${outside.length} of ${results.length} required zones`,
+  };
+}
+
+// ============================================================================
+// Vertical Constraints
+// ============================================================================
+
+const DEFAULT_FLOOR_HEIGHT = 3;
+const DEFAULT_MAX_VERTICAL_ACCURACY = 20; // Phone GPS altitude is typically ±5-15m
+
+/**
+ * Altitude band [min, max] a vertical constraint allows
+ */
+export function verticalRange(constraint: VerticalConstraint): { min: number; max: number } {
+  if (constraint.type === 'altitude') {
+    return { min: constraint.minMeters, max: constraint.maxMeters };
+  }
+  const height = constraint.floorHeightMeters ?? DEFAULT_FLOOR_HEIGHT;
+  const min = constraint.groundAltitudeMeters + constraint.floor * height;
+  return { min, max: min + height };
+}
+
+/**
+ * Check a reported altitude against a vertical constraint
+ * 
+ * The band is widened by the reading's vertical accuracy: the reading passes
+ * when its ± range overlaps the band. Readings coarser than
+ * maxVerticalAccuracyMeters (default 20m) are rejected outright, which is
+ * what keeps a vague fix from reaching several floors away.
+ */
+export function checkVerticalConstraint(
+  constraint: VerticalConstraint,
+  altitude: number | undefined,
+  altitudeAccuracy: number | undefined
+): { valid: boolean; reason?: string } {
+  if (altitude === undefined) {
+    return { valid: false, reason: 'Altitude required - message is bound to a vertical range' };
+  }
+  if (altitudeAccuracy === undefined) {
+    return { valid: false, reason: 'Vertical accuracy (altitudeAccuracy) required - message is bound to a vertical range' };
+  }
+
+  const { min, max } = verticalRange(constraint);
+  const maxAccuracy = constraint.maxVerticalAccuracyMeters ?? DEFAULT_MAX_VERTICAL_ACCURACY;
+  if (altitudeAccuracy > maxAccuracy) {
+    return {
+      valid: false,
+      reason: `Vertical accuracy too coarse: ${altitudeAccuracy}m (max: ${maxAccuracy}m)`,
+    };
+  }
+
+  if (altitude < min - altitudeAccuracy || altitude > max + altitudeAccuracy) {
+    return {
+      valid: false,
+      reason: `Altitude outside vertical range: ${altitude.toFixed(1)}m ±${altitudeAccuracy}m ` +
+        `(allowed: ${min.toFixed(1)}m to ${max.toFixed(1)}m)`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Describe a geofence for logs and error messages
+ */
+export function describeGeofence(geofence: Geofence): string {
+  switch (geofence.type) {
+    case 'circle':
+      return `circle of ${geofence.radiusMeters}m`;
+    case 'polygon':
+      return `polygon with ${geofence.vertices.length} vertices`;
+    case 'multi':
+      return `${geofence.mode} of ${geofence.zones.length} zones`;
+  }
+}
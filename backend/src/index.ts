@@ -8,19 +8,70 @@
  * - mDNS discovery for LAN peers
  */
 
-import express from 'express';
+import express, { type Request, type Response } from 'express';
 import { WebSocketServer, WebSocket } from 'ws';
 import cors from 'cors';
 import { createServer } from 'http';
 import dotenv from 'dotenv';
 import {
+  ATTESTATION_VERSION,
+  isSupportedAttestationVersion,
+  verifyAttestationSignature,
   verifyLocationAttestation,
-  type LocationAttestation,
-  type VerificationConfig,
   formatCoordinates,
   formatDistance,
 } from './location.js';
-import { deriveLocationBoundKey, unwrapKey } from './crypto.js';
+import {
+  CIPHER_SUITES,
+  ENVELOPE_VERSION,
+  LEGACY_ENVELOPE,
+  deriveLocationBoundKey,
+  generateMessageId,
+  getEnvelope,
+  hmacSha256,
+  unwrapKey,
+} from './crypto.js';
+import { findRecipientWrap, getPublicRecipients, getRecipientWraps } from './recipients.js';
+import { WrapSealer, loadSealKey, sealStoredMessages } from './sealing.js';
+import { createStore } from './store.js';
+import { ShareCollector, type ThresholdState } from './threshold.js';
+import {
+  WaypointTracker,
+  getStageTarget,
+  getStageWrap,
+  getWaypoints,
+  type WaypointProgress,
+} from './waypoints.js';
+import {
+  ExpirySweeper,
+  describeTombstone,
+  getExpiryReason,
+  retireMessage,
+} from './sweeper.js';
+import type { NewMessageRequest, StoredMessage, Tombstone, UnlockRequest } from './types.js';
+import {
+  validateDeviceActionProof,
+  validateDeviceRegistration,
+  validateIdentityProof,
+  validateIdentityRegistration,
+  validatePrekeyUpload,
+  validateSenderAuthorization,
+  validateShareCollection,
+  validateShareContribution,
+  validateStoredMessage,
+  validateUnlockRequest,
+} from './validation.js';
+import { verifySenderAction, type SenderAuthorization } from './sender-auth.js';
+import { UnlockChallengeCache } from './challenges.js';
+import { KeyDirectory, type IdentityRecord, type PrekeyBundle } from './directory.js';
+import { buildVerificationConfig, getReleaseStatus, loadPolicyDefaults } from './policy.js';
+import {
+  DeviceRegistry,
+  deviceChallengeScope,
+  isAdminRequest,
+  type DeviceActionProof,
+  type DeviceRecord,
+} from './devices.js';
 
 dotenv.config();
 
@@ -30,48 +81,84 @@ dotenv.config();
 
 const PORT = parseInt(process.env.PORT || '3001');
 const WS_PORT = parseInt(process.env.WS_PORT || '3002');
+const SWEEP_INTERVAL_MS = parseInt(process.env.SWEEP_INTERVAL_MS || '60000');
+const TOMBSTONE_TTL_MS = parseInt(process.env.TOMBSTONE_TTL_MS || String(30 * 24 * 60 * 60 * 1000));
+const CHALLENGE_TTL_SEC = parseInt(process.env.CHALLENGE_TTL_SEC || '300');
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+const policyDefaults = loadPolicyDefaults();
 
 // ============================================================================
-// Types
+// Storage (memory or file, see STORE_DRIVER)
 // ============================================================================
 
-interface StoredMessage {
-  id: string;
-  senderPublicKey: string;
-  recipientPublicKey: string;
-  encryptedPayload: string; // Base64 encoded ciphertext
-  payloadNonce: string;
-  payloadAuthTag: string;
-  wrappedKey: string; // K_msg wrapped with K_loc_input
-  wrappedKeyNonce: string;
-  wrappedKeyAuthTag: string;
-  locationBinding: {
-    latitude: number;
-    longitude: number;
-    radiusMeters: number;
-    windowStart: number;
-    windowEnd: number;
-    nonce: string; // Used in key derivation
-  };
-  metadata: {
-    title?: string;
-    created: number;
-    expiresAt?: number;
-  };
-}
+const messages = createStore<StoredMessage>('messages');
+const tombstones = createStore<Tombstone>('tombstones');
+const peers = new Set<WebSocket>();
+
+const challenges = new UnlockChallengeCache(CHALLENGE_TTL_SEC);
+const directory = new KeyDirectory(
+  createStore<IdentityRecord>('directory'),
+  createStore<PrekeyBundle>('prekeys')
+);
+const devices = new DeviceRegistry(createStore<DeviceRecord>('devices'), challenges, directory);
+const sealKey = loadSealKey();
+const sealer = new WrapSealer(sealKey);
+const thresholdShares = new ShareCollector(
+  createStore<ThresholdState>('threshold-shares'),
+  hmacSha256('threshold-contribution-tokens', sealKey.toString('base64'))
+);
+const waypointProgress = new WaypointTracker(createStore<WaypointProgress>('waypoint-progress'));
 
-interface UnlockRequest {
-  messageId: string;
-  attestation: LocationAttestation;
-  recipientPrivateKey: string; // Ephemeral DH private key
+/**
+ * Drop per-message side state once a message is deleted, revoked or expired
+ */
+async function forgetMessageState(id: string): Promise<void> {
+  await thresholdShares.forget(id);
+  await waypointProgress.forget(id);
 }
 
-// ============================================================================
-// In-Memory Storage (for demo - use database in production)
-// ============================================================================
+const sweeper = new ExpirySweeper(messages, tombstones, {
+  intervalMs: SWEEP_INTERVAL_MS,
+  tombstoneTtlMs: TOMBSTONE_TTL_MS,
+  onRetire: forgetMessageState,
+});
 
-const messages = new Map<string, StoredMessage>();
-const peers = new Set<WebSocket>();
+/**
+ * Look up a live message, answering 404/410 on the response if there is none
+ * Messages found past their expiry are retired on the spot
+ */
+async function findLiveMessage(id: string, res: Response): Promise<StoredMessage | null> {
+  const message = await messages.get(id);
+  
+  if (!message) {
+    const tombstone = await tombstones.get(id);
+    if (tombstone) {
+      res.status(410).json({
+        error: describeTombstone(tombstone),
+        reason: tombstone.reason,
+        removedAt: tombstone.removedAt,
+      });
+    } else {
+      res.status(404).json({ error: 'Message not found' });
+    }
+    return null;
+  }
+  
+  // Check expiration
+  const reason = getExpiryReason(message);
+  if (reason) {
+    const tombstone = await retireMessage(messages, tombstones, id, reason);
+    await forgetMessageState(id);
+    res.status(410).json({
+      error: describeTombstone(tombstone),
+      reason: tombstone.reason,
+      removedAt: tombstone.removedAt,
+    });
+    return null;
+  }
+  
+  return message;
+}
 
 // ============================================================================
 // Express REST API
@@ -82,37 +169,60 @@ app.use(cors());
 app.use(express.json({ limit: '10mb' }));
 
 // Health check
-app.get('/health', (req, res) => {
+app.get('/health', async (req, res) => {
+  try {
+    res.json({
+      status: 'ok',
+      service: 'location-bound-messaging',
+      timestamp: Date.now(),
+      messagesStored: await messages.size(),
+      tombstones: await tombstones.size(),
+      peersConnected: peers.size,
+      sweeper: sweeper.getStats(),
+    });
+  } catch (error) {
+    console.error('[ERROR] Health check failed:', error);
+    res.status(500).json({ status: 'error', error: 'Storage unavailable' });
+  }
+});
+
+// Envelope versions and cipher suites accepted by POST /api/messages
+// Clients pick the first suite in their own preference order that is listed
+app.get('/api/crypto/suites', (req, res) => {
   res.json({
-    status: 'ok',
-    service: 'location-bound-messaging',
-    timestamp: Date.now(),
-    messagesStored: messages.size,
-    peersConnected: peers.size,
+    envelopeVersion: ENVELOPE_VERSION,
+    suites: CIPHER_SUITES,
+    legacy: LEGACY_ENVELOPE,
   });
 });
 
 // Store a new message
-app.post('/api/messages', (req, res) => {
+app.post('/api/messages', async (req, res) => {
   try {
-    const message: StoredMessage = req.body;
-    
     // Validation
-    if (!message.id || !message.encryptedPayload || !message.wrappedKey) {
-      return res.status(400).json({ error: 'Invalid message format' });
+    const errors = validateStoredMessage(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid message format', details: errors });
     }
     
-    if (!message.locationBinding) {
-      return res.status(400).json({ error: 'Missing location binding' });
+    const request: NewMessageRequest = req.body;
+    
+    // Client-chosen IDs are allowed, but never reuse a live or retired one
+    if (request.id && await tombstones.get(request.id)) {
+      return res.status(409).json({ error: 'Message ID already in use', messageId: request.id });
     }
+    // Key wraps are sealed under the server key - only /unlock opens them
+    const message = await sealer.sealMessage(request, request.id || generateMessageId());
     
     // Store message (ciphertext only - no plaintext!)
-    messages.set(message.id, message);
+    if (!await messages.insert(message.id, message)) {
+      return res.status(409).json({ error: 'Message ID already in use', messageId: message.id });
+    }
     
     console.log(`[MSG] Stored message ${message.id} bound to ${formatCoordinates(
       message.locationBinding.latitude,
       message.locationBinding.longitude
-    )}`);
+    )} (envelope v${getEnvelope(message).version}, ${getEnvelope(message).suite})`);
     
     res.json({
       success: true,
@@ -126,75 +236,156 @@ app.post('/api/messages', (req, res) => {
 });
 
 // Get message metadata (without decryption)
-app.get('/api/messages/:id', (req, res) => {
-  const { id } = req.params;
-  const message = messages.get(id);
-  
-  if (!message) {
-    return res.status(404).json({ error: 'Message not found' });
-  }
-  
-  // Check expiration
-  if (message.metadata.expiresAt && Date.now() > message.metadata.expiresAt) {
-    messages.delete(id);
-    return res.status(410).json({ error: 'Message expired' });
+app.get('/api/messages/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const message = await findLiveMessage(id, res);
+    if (!message) return;
+    
+    // Return metadata only (no keys or plaintext), plus a countdown for delayed release
+    const release = getReleaseStatus(message);
+    res.json({
+      id: message.id,
+      status: release.status,
+      ...(release.status === 'pending' && { opensAt: release.opensAt, opensIn: release.opensIn }),
+      locationBinding: message.locationBinding,
+      metadata: message.metadata,
+      senderPublicKey: message.senderPublicKey,
+      envelope: getEnvelope(message),
+      recipientPublicKeys: getRecipientWraps(message).map(wrap => wrap.recipientPublicKey),
+    });
+  } catch (error) {
+    console.error('[ERROR] Failed to load message:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
-  
-  // Return metadata only (no keys or plaintext)
-  res.json({
-    id: message.id,
-    locationBinding: message.locationBinding,
-    metadata: message.metadata,
-    senderPublicKey: message.senderPublicKey,
-    recipientPublicKey: message.recipientPublicKey,
-  });
 });
 
 // Get encrypted message (full ciphertext for client-side decryption)
-app.get('/api/messages/:id/encrypted', (req, res) => {
-  const { id } = req.params;
-  const message = messages.get(id);
-  
-  if (!message) {
-    return res.status(404).json({ error: 'Message not found' });
+app.get('/api/messages/:id/encrypted', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const message = await findLiveMessage(id, res);
+    if (!message) return;
+    
+    // Ciphertext and binding for client-side decryption, field by field - key
+    // wraps and the server key share are only released by a verified /unlock
+    res.json({
+      id: message.id,
+      envelope: getEnvelope(message),
+      senderPublicKey: message.senderPublicKey,
+      recipients: getPublicRecipients(message),
+      threshold: message.threshold,
+      encryptedPayload: message.encryptedPayload,
+      payloadNonce: message.payloadNonce,
+      payloadAuthTag: message.payloadAuthTag,
+      locationBinding: message.locationBinding,
+      metadata: message.metadata,
+    });
+  } catch (error) {
+    console.error('[ERROR] Failed to load message:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
-  
-  // Check expiration
-  if (message.metadata.expiresAt && Date.now() > message.metadata.expiresAt) {
-    messages.delete(id);
-    return res.status(410).json({ error: 'Message expired' });
+});
+
+// Issue a one-time challenge the device must sign into its attestation
+app.post('/api/messages/:id/challenge', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const message = await findLiveMessage(id, res);
+    if (!message) return;
+    
+    const issued = challenges.issue(id, req.ip ?? 'unknown');
+    if (!issued) {
+      return res.status(429).json({ error: 'Too many open challenges - use one or wait for it to expire' });
+    }
+    res.json({ messageId: id, challenge: issued.challenge, expiresAt: issued.expiresAt });
+  } catch (error) {
+    console.error('[ERROR] Failed to issue challenge:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
-  
-  // Return full encrypted message for client-side decryption
-  res.json(message);
 });
 
 // Unlock message with location attestation (server-side verification)
 app.post('/api/messages/:id/unlock', async (req, res) => {
   try {
     const { id } = req.params;
+    
+    // Validation
+    const errors = validateUnlockRequest(req.body);
+    if (req.body?.messageId !== undefined && req.body.messageId !== id) {
+      errors.push({ field: 'messageId', message: 'does not match the message in the URL' });
+    }
+    if (errors.length === 0 && !req.body.attestation.challenge) {
+      errors.push({ field: 'attestation.challenge', message: 'is required (POST /api/messages/:id/challenge)' });
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid unlock request', details: errors });
+    }
+    
     const unlockReq: UnlockRequest = req.body;
+    const message = await findLiveMessage(id, res);
+    if (!message) return;
+    
+    // Delayed release: answer 425 Too Early without touching the challenge
+    const release = getReleaseStatus(message);
+    if (release.status === 'pending') {
+      console.log(`[UNLOCK] Too early for ${id}: opens in ${release.opensIn}s`);
+      return res.status(425).json({
+        unlocked: false,
+        reason: `Message not yet open - unlockable from ${new Date(release.opensAt).toISOString()}`,
+        opensAt: release.opensAt,
+        opensIn: release.opensIn,
+      });
+    }
+    
+    // Only the caller's own wrap is ever returned
+    const { wrap, reason: recipientReason } = findRecipientWrap(message, unlockReq.recipientPublicKey);
+    if (!wrap) {
+      return res.status(unlockReq.recipientPublicKey ? 403 : 400).json({ unlocked: false, reason: recipientReason });
+    }
+    
+    // Waypoint chains are verified against the recipient's current stage
+    const waypoints = getWaypoints(message);
+    const stage = waypoints.length > 0
+      ? await waypointProgress.currentStage(id, wrap.recipientPublicKey)
+      : undefined;
+    const waypoint = stage !== undefined ? getStageTarget(message, stage) : undefined;
+    
+    if (!isSupportedAttestationVersion(unlockReq.attestation.version)) {
+      return res.status(403).json({
+        unlocked: false,
+        reason: `Unsupported attestation version: ${unlockReq.attestation.version} (expected ${ATTESTATION_VERSION})`,
+      });
+    }
     
-    const message = messages.get(id);
-    if (!message) {
-      return res.status(404).json({ error: 'Message not found' });
+    // Only enrolled, approved devices may attest
+    const deviceCheck = await devices.checkAttestationDevice(
+      unlockReq.attestation,
+      message.allowedDeviceIds
+    );
+    if (!deviceCheck.valid) {
+      console.log(`[UNLOCK] Failed for ${id}: ${deviceCheck.reason}`);
+      return res.status(403).json({ unlocked: false, reason: deviceCheck.reason });
     }
     
-    // Check expiration
-    if (message.metadata.expiresAt && Date.now() > message.metadata.expiresAt) {
-      messages.delete(id);
-      return res.status(410).json({ error: 'Message expired' });
+    if (!verifyAttestationSignature(unlockReq.attestation)) {
+      console.log(`[UNLOCK] Failed for ${id}: invalid signature`);
+      return res.status(403).json({
+        unlocked: false,
+        reason: 'Invalid signature - attestation has been tampered with',
+      });
+    }
+
+    // Burn the challenge as soon as a validly signed attestation presents it,
+    // so the same attestation can never be used twice
+    const replayCheck = challenges.consume(unlockReq.attestation.challenge!, id);
+    if (!replayCheck.valid) {
+      console.log(`[UNLOCK] Failed for ${id}: ${replayCheck.reason}`);
+      return res.status(403).json({ unlocked: false, reason: replayCheck.reason });
     }
     
-    // Verify location attestation
-    const verificationConfig: VerificationConfig = {
-      targetLat: message.locationBinding.latitude,
-      targetLon: message.locationBinding.longitude,
-      radiusMeters: message.locationBinding.radiusMeters,
-      windowStart: message.locationBinding.windowStart,
-      windowEnd: message.locationBinding.windowEnd,
-      maxAttestationAgeSec: 300, // 5 minutes
-    };
+    // Verify location attestation against the message's policy
+    const verificationConfig = buildVerificationConfig(message, policyDefaults, stage);
     
     const verification = verifyLocationAttestation(
       unlockReq.attestation,
@@ -203,23 +394,69 @@ app.post('/api/messages/:id/unlock', async (req, res) => {
     
     if (!verification.valid) {
       console.log(`[UNLOCK] Failed for ${id}: ${verification.reason}`);
-      return res.status(403).json({
+      // An attestation taken before the window opened is "too early", not forbidden
+      return res.status(verification.code === 'not-yet-open' ? 425 : 403).json({
         unlocked: false,
         reason: verification.reason,
+        code: verification.code,
+        distance: verification.distance,
+        confidence: verification.confidence,
+        waypoint,
+      });
+    }
+    
+    console.log(`[UNLOCK] Success for ${id} at distance ${formatDistance(verification.distance!)} ` +
+      `(confidence ${(verification.confidence! * 100).toFixed(1)}%)`);
+    
+    const opened = await sealer.open(wrap);
+    
+    // Intermediate waypoint: release the next chain key's wrap and advance
+    // (with the earlier stages, so the client can rebuild its chain)
+    if (stage !== undefined && stage < waypoints.length) {
+      await waypointProgress.completeStage(id, wrap.recipientPublicKey);
+      console.log(`[WAYPOINT] ${id}: stage ${stage + 1}/${waypoints.length + 1} reached`);
+      
+      const stageWrap = getStageWrap(opened, stage);
+      return res.json({
+        unlocked: true,
+        recipientPublicKey: wrap.recipientPublicKey,
+        wrappedKey: stageWrap.wrappedKey,
+        wrappedKeyNonce: stageWrap.wrappedKeyNonce,
+        wrappedKeyAuthTag: stageWrap.wrappedKeyAuthTag,
+        stageWraps: opened.stageWraps!.slice(0, stage + 1),
         distance: verification.distance,
+        confidence: verification.confidence,
+        waypoint,
+        next: getStageTarget(message, stage + 1),
       });
     }
     
-    console.log(`[UNLOCK] Success for ${id} at distance ${formatDistance(verification.distance!)}`);
+    // Threshold messages: the wrap only holds a share - hand out a token to
+    // contribute it, readable only with the recipient's private key
+    const threshold = message.threshold
+      ? {
+          k: message.threshold,
+          n: getRecipientWraps(message).length,
+          sealedContributionToken: thresholdShares.issueToken(id, wrap.recipientPublicKey),
+        }
+      : undefined;
     
     // Return wrapped key for client to unwrap (don't unwrap server-side!)
-    // Client will compute shared secret and derive K_loc_input locally
+    // Client will compute shared secret and derive K_loc_input locally, then
+    // combine it with the server key share released here
     res.json({
       unlocked: true,
-      wrappedKey: message.wrappedKey,
-      wrappedKeyNonce: message.wrappedKeyNonce,
-      wrappedKeyAuthTag: message.wrappedKeyAuthTag,
+      recipientPublicKey: wrap.recipientPublicKey,
+      prekeyId: wrap.prekeyId,
+      wrappedKey: opened.wrappedKey,
+      wrappedKeyNonce: opened.wrappedKeyNonce,
+      wrappedKeyAuthTag: opened.wrappedKeyAuthTag,
+      stageWraps: opened.stageWraps,
+      serverKeyShare: await sealer.openServerKeyShare(message),
       distance: verification.distance,
+      confidence: verification.confidence,
+      threshold,
+      waypoint,
     });
   } catch (error) {
     console.error('[ERROR] Unlock failed:', error);
@@ -227,32 +464,445 @@ app.post('/api/messages/:id/unlock', async (req, res) => {
   }
 });
 
+// Waypoint chain progress of one recipient
+app.get('/api/messages/:id/waypoints', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const recipientPublicKey = typeof req.query.recipientPublicKey === 'string'
+      ? req.query.recipientPublicKey
+      : undefined;
+    if (!recipientPublicKey) {
+      return res.status(400).json({ error: 'recipientPublicKey query parameter is required' });
+    }
+    
+    const message = await findLiveMessage(id, res);
+    if (!message) return;
+    
+    if (getWaypoints(message).length === 0) {
+      return res.status(400).json({ error: 'Message is not a waypoint chain' });
+    }
+    const { wrap, reason } = findRecipientWrap(message, recipientPublicKey);
+    if (!wrap) {
+      return res.status(403).json({ error: reason });
+    }
+    
+    const stage = await waypointProgress.currentStage(id, recipientPublicKey);
+    res.json({ completed: stage, next: getStageTarget(message, stage) });
+  } catch (error) {
+    console.error('[ERROR] Failed to load waypoint progress:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Threshold Shares (k-of-n messages)
+// ============================================================================
+
+/**
+ * Load a live threshold message, answering 400 for ordinary messages
+ */
+async function findThresholdMessage(id: string, res: Response): Promise<StoredMessage | null> {
+  const message = await findLiveMessage(id, res);
+  if (message && !message.threshold) {
+    res.status(400).json({ error: 'Message is not a threshold message' });
+    return null;
+  }
+  return message;
+}
+
+// How many recipients have contributed their share so far
+app.get('/api/messages/:id/shares', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const message = await findThresholdMessage(id, res);
+    if (!message) return;
+    
+    res.json(await thresholdShares.status(id, message.threshold!, getRecipientWraps(message).length));
+  } catch (error) {
+    console.error('[ERROR] Failed to load share status:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Contribute a share (sealed to every other recipient) after a verified unlock
+app.post('/api/messages/:id/shares', async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    // Validation
+    const errors = validateShareContribution(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid share contribution', details: errors });
+    }
+    
+    const message = await findThresholdMessage(id, res);
+    if (!message) return;
+    
+    const { recipientPublicKey, contributionToken, shares } = req.body;
+    const recipients = getRecipientWraps(message).map(wrap => wrap.recipientPublicKey);
+    const result = await thresholdShares.contribute(id, recipientPublicKey, contributionToken, shares, recipients);
+    if (result.status !== 200) {
+      return res.status(result.status).json({ error: result.reason });
+    }
+    
+    const status = await thresholdShares.status(id, message.threshold!, recipients.length);
+    console.log(`[SHARES] ${id}: ${status.contributed}/${status.threshold} shares contributed`);
+    res.json(status);
+  } catch (error) {
+    console.error('[ERROR] Failed to store share contribution:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Collect the shares sealed to the caller (once k recipients have contributed)
+app.post('/api/messages/:id/shares/collect', async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    // Validation
+    const errors = validateShareCollection(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid share collection request', details: errors });
+    }
+    
+    const message = await findThresholdMessage(id, res);
+    if (!message) return;
+    
+    const { recipientPublicKey, contributionToken } = req.body;
+    const result = await thresholdShares.collect(id, recipientPublicKey, contributionToken, message.threshold!);
+    if (result.status !== 200) {
+      return res.status(result.status).json({ error: result.reason });
+    }
+    
+    const status = await thresholdShares.status(id, message.threshold!, getRecipientWraps(message).length);
+    res.json({ ...status, shares: result.shares });
+  } catch (error) {
+    console.error('[ERROR] Failed to collect shares:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // List messages (for demo/debug)
-app.get('/api/messages', (req, res) => {
-  const messageList = Array.from(messages.values()).map(msg => ({
-    id: msg.id,
-    title: msg.metadata.title,
-    location: formatCoordinates(
-      msg.locationBinding.latitude,
-      msg.locationBinding.longitude
-    ),
-    radius: msg.locationBinding.radiusMeters,
-    created: msg.metadata.created,
-    expiresAt: msg.metadata.expiresAt,
-  }));
-  
-  res.json({ messages: messageList, count: messageList.length });
+app.get('/api/messages', async (req, res) => {
+  try {
+    const now = Date.now();
+    const messageList = (await messages.values())
+      .filter(msg => getExpiryReason(msg, now) === null)
+      .map(msg => ({
+        id: msg.id,
+        title: msg.metadata.title,
+        location: formatCoordinates(
+          msg.locationBinding.latitude,
+          msg.locationBinding.longitude
+        ),
+        radius: msg.locationBinding.radiusMeters,
+        created: msg.metadata.created,
+        expiresAt: msg.metadata.expiresAt,
+      }));
+    
+    res.json({ messages: messageList, count: messageList.length });
+  } catch (error) {
+    console.error('[ERROR] Failed to list messages:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-// Delete message
-app.delete('/api/messages/:id', (req, res) => {
-  const { id } = req.params;
-  const deleted = messages.delete(id);
-  
-  if (deleted) {
+// Delete message (sender only)
+app.delete('/api/messages/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    // Validation
+    const errors = validateSenderAuthorization(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid sender authorization', details: errors });
+    }
+    
+    const message = await findLiveMessage(id, res);
+    if (!message) return;
+    
+    const auth: SenderAuthorization = req.body;
+    const check = verifySenderAction(message.senderSigningKey, 'delete', id, auth);
+    if (!check.valid) {
+      console.log(`[DELETE] Rejected for ${id}: ${check.reason}`);
+      return res.status(403).json({ error: check.reason });
+    }
+    
+    // The tombstone keeps the ID from being reused for another message
+    await retireMessage(messages, tombstones, id, 'deleted');
+    await forgetMessageState(id);
+    console.log(`[DELETE] Message ${id} deleted by sender`);
     res.json({ success: true });
-  } else {
-    res.status(404).json({ error: 'Message not found' });
+  } catch (error) {
+    console.error('[ERROR] Failed to delete message:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Revoke message (sender only) - leaves a tombstone so unlocks get a clear refusal
+app.post('/api/messages/:id/revoke', async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    // Validation
+    const errors = validateSenderAuthorization(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid sender authorization', details: errors });
+    }
+    
+    const message = await findLiveMessage(id, res);
+    if (!message) return;
+    
+    const auth: SenderAuthorization = req.body;
+    const check = verifySenderAction(message.senderSigningKey, 'revoke', id, auth);
+    if (!check.valid) {
+      console.log(`[REVOKE] Rejected for ${id}: ${check.reason}`);
+      return res.status(403).json({ error: check.reason });
+    }
+    
+    const tombstone = await retireMessage(messages, tombstones, id, 'revoked');
+    await forgetMessageState(id);
+    console.log(`[REVOKE] Message ${id} revoked by sender`);
+    res.json({ success: true, revokedAt: tombstone.removedAt });
+  } catch (error) {
+    console.error('[ERROR] Failed to revoke message:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Device Registry
+// ============================================================================
+
+// Enroll a device (starts as pending)
+app.post('/api/devices', async (req, res) => {
+  try {
+    // Validation
+    const errors = validateDeviceRegistration(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid device registration', details: errors });
+    }
+    
+    const { deviceId, publicKey, label, owner, timestamp, signature } = req.body;
+    const result = await devices.register(deviceId, publicKey, label, owner, { timestamp, signature });
+    if (!result.device) {
+      return res.status(result.status).json({ error: result.reason });
+    }
+    
+    console.log(`[DEVICE] Registered ${deviceId} (pending approval)`);
+    res.status(201).json({ success: true, device: result.device });
+  } catch (error) {
+    console.error('[ERROR] Failed to register device:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List devices
+app.get('/api/devices', async (req, res) => {
+  try {
+    const deviceList = await devices.list();
+    res.json({ devices: deviceList, count: deviceList.length });
+  } catch (error) {
+    console.error('[ERROR] Failed to list devices:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get one device
+app.get('/api/devices/:id', async (req, res) => {
+  try {
+    const device = await devices.get(req.params.id);
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+    res.json(device);
+  } catch (error) {
+    console.error('[ERROR] Failed to load device:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Issue a one-time challenge for a device-signed approve/revoke
+app.post('/api/devices/:id/challenge', async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!await devices.get(id)) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+    
+    const issued = challenges.issue(deviceChallengeScope(id), req.ip ?? 'unknown');
+    if (!issued) {
+      return res.status(429).json({ error: 'Too many open challenges - use one or wait for it to expire' });
+    }
+    res.json({ deviceId: id, challenge: issued.challenge, expiresAt: issued.expiresAt });
+  } catch (error) {
+    console.error('[ERROR] Failed to issue device challenge:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Approve or revoke a device (admin token, or signature from the directory
+ * identity the device is registered to; a device may always revoke itself)
+ */
+function handleDeviceAction(action: 'approve' | 'revoke') {
+  return async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const isAdmin = isAdminRequest(req.headers.authorization, ADMIN_TOKEN);
+      
+      // Validation
+      if (!isAdmin) {
+        const errors = validateDeviceActionProof(req.body);
+        if (errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid device authorization', details: errors });
+        }
+      }
+      
+      const proof: DeviceActionProof | undefined = isAdmin ? undefined : req.body;
+      const auth = await devices.authorize(`${action}-device`, id, isAdmin, proof);
+      if (!auth.approvedBy) {
+        return res.status(403).json({ error: auth.reason });
+      }
+      
+      const device = action === 'approve'
+        ? await devices.approve(id, auth.approvedBy)
+        : await devices.revoke(id);
+      if (!device) {
+        return res.status(404).json({ error: 'Device not found or already revoked' });
+      }
+      
+      console.log(`[DEVICE] ${id} ${device.status} by ${auth.approvedBy}`);
+      res.json({ success: true, device });
+    } catch (error) {
+      console.error(`[ERROR] Failed to ${action} device:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
+app.post('/api/devices/:id/approve', handleDeviceAction('approve'));
+app.post('/api/devices/:id/revoke', handleDeviceAction('revoke'));
+
+// ============================================================================
+// Key Directory (long-term recipient identities)
+// ============================================================================
+
+app.post('/api/directory', async (req, res) => {
+  try {
+    // Validation
+    const errors = validateIdentityRegistration(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid identity registration', details: errors });
+    }
+    
+    const { handle, displayName, publicKey, signingKey, timestamp, signature } = req.body;
+    const result = await directory.register(handle, displayName, publicKey, signingKey, { timestamp, signature });
+    if (!result.identity) {
+      return res.status(result.status).json({ error: result.reason });
+    }
+    
+    console.log(`[DIRECTORY] Registered ${handle} (${result.identity.fingerprint})`);
+    res.status(201).json({ success: true, identity: result.identity });
+  } catch (error) {
+    console.error('[ERROR] Failed to register identity:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Search by handle prefix or display name (?q=bravo)
+app.get('/api/directory', async (req, res) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q : '';
+    const identities = await directory.search(query);
+    res.json({ count: identities.length, identities });
+  } catch (error) {
+    console.error('[ERROR] Failed to search directory:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/api/directory/:handle', async (req, res) => {
+  try {
+    const identity = await directory.get(req.params.handle);
+    if (!identity) {
+      return res.status(404).json({ error: 'Identity not found' });
+    }
+    res.json({ ...identity, prekeysAvailable: await directory.prekeyCount(identity.handle) });
+  } catch (error) {
+    console.error('[ERROR] Failed to load identity:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove an identity (signed by its own signing key)
+app.delete('/api/directory/:handle', async (req, res) => {
+  try {
+    const { handle } = req.params;
+    
+    // Validation
+    const errors = validateIdentityProof(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid identity authorization', details: errors });
+    }
+    
+    const result = await directory.remove(handle, req.body);
+    if (result.status !== 200) {
+      return res.status(result.status).json({ error: result.reason });
+    }
+    
+    console.log(`[DIRECTORY] Removed ${handle}`);
+    res.json({ success: true, handle });
+  } catch (error) {
+    console.error('[ERROR] Failed to remove identity:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Upload signed one-time prekeys (signed by the identity's signing key)
+app.post('/api/directory/:handle/prekeys', async (req, res) => {
+  try {
+    const { handle } = req.params;
+    
+    // Validation
+    const errors = validatePrekeyUpload(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid prekey upload', details: errors });
+    }
+    
+    const { prekeys, timestamp, signature } = req.body;
+    const result = await directory.uploadPrekeys(handle, prekeys, { timestamp, signature });
+    if (result.status !== 200) {
+      return res.status(result.status).json({ error: result.reason });
+    }
+    
+    console.log(`[DIRECTORY] ${handle} uploaded ${prekeys.length} prekeys (${result.available} available)`);
+    res.json({ success: true, available: result.available });
+  } catch (error) {
+    console.error('[ERROR] Failed to upload prekeys:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Claim one prekey for a new message - each prekey is handed out only once
+app.post('/api/directory/:handle/prekeys/claim', async (req, res) => {
+  try {
+    const { handle } = req.params;
+    
+    if (!await directory.get(handle)) {
+      return res.status(404).json({ error: 'Identity not found' });
+    }
+    
+    const prekey = await directory.claimPrekey(handle);
+    if (!prekey) {
+      return res.status(404).json({ error: 'No prekeys available' });
+    }
+    
+    console.log(`[DIRECTORY] Prekey ${prekey.keyId} of ${handle} claimed`);
+    res.json({ handle, ...prekey });
+  } catch (error) {
+    console.error('[ERROR] Failed to claim prekey:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
 });
 
@@ -392,6 +1042,11 @@ async function startMdnsDiscovery() {
 // Server Startup
 // ============================================================================
 
+// Seal key wraps of messages stored before sealing existed - before serving,
+// so no request sees an unsealed record
+const sealedAtStartup = await sealStoredMessages(messages, sealer);
+if (sealedAtStartup > 0) console.log(`[SEAL] Sealed the key wraps of ${sealedAtStartup} stored messages`);
+
 httpServer.listen(PORT, () => {
   console.log('═══════════════════════════════════════════════════════════════');
   console.log('  LOCATION-BOUND MESSAGING SYSTEM');
@@ -404,11 +1059,15 @@ httpServer.listen(PORT, () => {
   
   // Start mDNS discovery
   startMdnsDiscovery();
+  
+  // Start purging expired messages
+  sweeper.start();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('[SERVER] SIGTERM received, shutting down gracefully');
+  sweeper.stop();
   httpServer.close(() => {
     console.log('[SERVER] HTTP server closed');
     wss.close(() => {
@@ -420,6 +1079,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('[SERVER] SIGINT received, shutting down gracefully');
+  sweeper.stop();
   httpServer.close(() => {
     console.log('[SERVER] HTTP server closed');
     wss.close(() => {
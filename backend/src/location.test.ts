@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { generateEd25519KeyPair } from './crypto.js';
+import {
+  createLocationAttestation,
+  geofenceConfidence,
+  verifyLocationAttestation,
+  type VerificationConfig,
+} from './location.js';
+
+// ============================================================================
+// Geofence Confidence
+// ============================================================================
+
+describe('geofenceConfidence', () => {
+  it('is all or nothing for a perfect fix', () => {
+    expect(geofenceConfidence(50, 50, 0)).toBe(1);
+    expect(geofenceConfidence(50.1, 50, 0)).toBe(0);
+  });
+
+  it('is 1 when the accuracy disc sits inside the geofence', () => {
+    expect(geofenceConfidence(10, 50, 40)).toBe(1);
+  });
+
+  it('is 0 when the discs do not overlap', () => {
+    expect(geofenceConfidence(100, 50, 50)).toBe(0);
+  });
+
+  it('scores a fix much coarser than the geofence by area', () => {
+    // A 2 km fix 10 m from the centre of a 50 m fence
+    expect(geofenceConfidence(10, 50, 2000)).toBeCloseTo((50 * 50) / (2000 * 2000), 8);
+  });
+
+  it('is about a half for a fix centred on a long straight edge', () => {
+    // A 1 m fix on the edge of a 10 km fence: the edge is nearly straight
+    expect(geofenceConfidence(10000, 10000, 1)).toBeCloseTo(0.5, 3);
+  });
+
+  it('falls as the reading moves out across the edge', () => {
+    const scores = [30, 45, 60, 75].map(distance => geofenceConfidence(distance, 50, 20));
+    for (let i = 1; i < scores.length; i++) {
+      expect(scores[i]).toBeLessThan(scores[i - 1]);
+    }
+    expect(scores[0]).toBe(1);
+  });
+});
+
+// ============================================================================
+// Full Attestation Verification
+// ============================================================================
+
+describe('verifyLocationAttestation', () => {
+  const device = generateEd25519KeyPair();
+  const config: VerificationConfig = {
+    targetLat: 18.52,
+    targetLon: 73.85,
+    radiusMeters: 50,
+    windowStart: 0,
+    windowEnd: Date.now() + 60 * 1000,
+  };
+  const attest = (accuracy: number) =>
+    createLocationAttestation('device-1', device.privateKey, device.publicKey, 18.52, 73.85, accuracy);
+
+  it('accepts a precise fix inside the geofence', () => {
+    const result = verifyLocationAttestation(attest(10), config);
+    expect(result.valid).toBe(true);
+    expect(result.confidence).toBe(1);
+  });
+
+  it('rejects a fix too coarse for the geofence, even at its centre', () => {
+    const result = verifyLocationAttestation(attest(2000), config);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/Insufficient geofence confidence/);
+  });
+
+  it('rejects a tampered accuracy', () => {
+    const result = verifyLocationAttestation({ ...attest(2000), accuracy: 10 }, config);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/Invalid signature/);
+  });
+});
@@ -7,26 +7,38 @@
  * - Computing distance between coordinates (haversine formula)
  */
 
-import { signMessage, verifySignature } from './crypto.js';
+import { canonicalJson, signMessage, verifySignature } from './crypto.js';
+import {
+  checkVerticalConstraint,
+  describeGeofence,
+  evaluateGeofence,
+  type Geofence,
+  type VerticalConstraint,
+} from './geofence.js';
+import { describeSchedule, isWithinSchedule, type RecurringSchedule } from './schedule.js';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export interface LocationAttestation {
+  version: number; // Signing format, see ATTESTATION_VERSION
   deviceId: string;
   devicePublicKey: string;
   latitude: number;
   longitude: number;
   accuracy: number; // GPS accuracy in meters
   timestamp: number; // Unix timestamp in milliseconds
-  altitude?: number;
+  altitude?: number; // Meters above sea level
+  altitudeAccuracy?: number; // Vertical accuracy in meters
   heading?: number;
   speed?: number;
   // Anti-spoofing context
   wifiSSIDs?: string[]; // Nearby WiFi networks
   cellTowers?: CellTowerInfo[];
   movementHistory?: LocationPoint[]; // Recent positions for continuity check
+  // Replay protection
+  challenge?: string; // Server-issued unlock nonce (POST /api/messages/:id/challenge)
   // Signature
   signature: string;
 }
@@ -45,11 +57,56 @@ export interface LocationPoint {
   timestamp: number;
 }
 
+/**
+ * Machine-readable failure kinds callers map to distinct responses
+ */
+export type VerificationFailureCode = 'not-yet-open' | 'outside-time-window' | 'outside-schedule';
+
 export interface VerificationResult {
   valid: boolean;
   reason?: string;
+  code?: VerificationFailureCode;
   attestation?: LocationAttestation;
   distance?: number; // Distance from target in meters
+  confidence?: number; // 0..1 share of the GPS accuracy circle inside the geofence
+}
+
+// ============================================================================
+// Canonical Serialization
+// ============================================================================
+
+/**
+ * Current attestation signing format
+ * v1 (unversioned) signed only deviceId/lat/lon/accuracy/timestamp and is no
+ * longer accepted - everything else could be edited after signing.
+ */
+export const ATTESTATION_VERSION = 2;
+
+/**
+ * Serializers per supported version
+ * v2 signs every field of the attestation except the signature itself
+ */
+const ATTESTATION_SERIALIZERS: Record<number, (attestation: Omit<LocationAttestation, 'signature'>) => string> = {
+  2: (attestation) => canonicalJson(attestation),
+};
+
+export function isSupportedAttestationVersion(version: unknown): boolean {
+  return typeof version === 'number' && version in ATTESTATION_SERIALIZERS;
+}
+
+/**
+ * Build the exact string a device signs for an attestation
+ * Throws for unknown versions
+ */
+export function serializeAttestationForSigning(
+  attestation: Omit<LocationAttestation, 'signature'> & { signature?: string }
+): string {
+  const serialize = ATTESTATION_SERIALIZERS[attestation.version];
+  if (!serialize) {
+    throw new Error(`Unsupported attestation version: ${attestation.version}`);
+  }
+  const { signature: _signature, ...signed } = attestation;
+  return serialize(signed);
 }
 
 // ============================================================================
@@ -69,17 +126,20 @@ export function createLocationAttestation(
   accuracy: number,
   context?: {
     altitude?: number;
+    altitudeAccuracy?: number;
     heading?: number;
     speed?: number;
     wifiSSIDs?: string[];
     cellTowers?: CellTowerInfo[];
     movementHistory?: LocationPoint[];
+    challenge?: string;
   }
 ): LocationAttestation {
   const timestamp = Date.now();
   
   // Build attestation payload
   const attestation: Omit<LocationAttestation, 'signature'> = {
+    version: ATTESTATION_VERSION,
     deviceId,
     devicePublicKey,
     latitude,
@@ -89,14 +149,8 @@ export function createLocationAttestation(
     ...context,
   };
   
-  // Create canonical string to sign
-  const message = JSON.stringify({
-    deviceId,
-    lat: latitude.toFixed(6),
-    lon: longitude.toFixed(6),
-    accuracy,
-    timestamp,
-  });
+  // Create canonical string to sign (covers context and challenge too)
+  const message = serializeAttestationForSigning(attestation);
   
   // Sign with device private key
   const signature = signMessage(message, devicePrivateKey);
@@ -113,21 +167,23 @@ export function createLocationAttestation(
 export function verifyAttestationSignature(
   attestation: LocationAttestation
 ): boolean {
-  // Reconstruct the signed message
-  const message = JSON.stringify({
-    deviceId: attestation.deviceId,
-    lat: attestation.latitude.toFixed(6),
-    lon: attestation.longitude.toFixed(6),
-    accuracy: attestation.accuracy,
-    timestamp: attestation.timestamp,
-  });
-  
-  // Verify signature
-  return verifySignature(
-    message,
-    attestation.signature,
-    attestation.devicePublicKey
-  );
+  // Unknown versions never verify
+  if (!isSupportedAttestationVersion(attestation.version)) {
+    return false;
+  }
+  
+  // Reconstruct the signed message and verify
+  // (malformed keys or signatures simply fail)
+  try {
+    const message = serializeAttestationForSigning(attestation);
+    return verifySignature(
+      message,
+      attestation.signature,
+      attestation.devicePublicKey
+    );
+  } catch {
+    return false;
+  }
 }
 
 // ============================================================================
@@ -177,6 +233,44 @@ export function isWithinGeofence(
   };
 }
 
+/**
+ * Estimate how likely the device is really inside a circular geofence
+ * 
+ * The reported fix is treated as a disc of radius `accuracy` around the
+ * reading; the confidence is the fraction of that disc overlapping the
+ * geofence (circle-circle intersection area / accuracy disc area).
+ * A 2 km fix 10 m from the centre of a 50 m fence scores ~0.0006.
+ */
+export function geofenceConfidence(
+  distance: number,
+  radiusMeters: number,
+  accuracy: number
+): number {
+  const a = Math.max(accuracy, 0);
+  const R = radiusMeters;
+  const d = distance;
+  
+  // Perfect fix: inside or outside, nothing in between
+  if (a === 0) return d <= R ? 1 : 0;
+  
+  // Discs do not overlap
+  if (d >= a + R) return 0;
+  
+  // Accuracy disc entirely inside the geofence
+  if (d + a <= R) return 1;
+  
+  // Geofence entirely inside the accuracy disc
+  if (d + R <= a) return (R * R) / (a * a);
+  
+  // Partial overlap: area of the lens between the two circles
+  const lens =
+    a * a * Math.acos((d * d + a * a - R * R) / (2 * d * a)) +
+    R * R * Math.acos((d * d + R * R - a * a) / (2 * d * R)) -
+    0.5 * Math.sqrt((-d + a + R) * (d + a - R) * (d - a + R) * (d + a + R));
+  
+  return Math.min(1, Math.max(0, lens / (Math.PI * a * a)));
+}
+
 // ============================================================================
 // Time Window Verification
 // ============================================================================
@@ -259,9 +353,7 @@ export function checkMovementPlausibility(
  */
 export function verifyContinuousPresence(
   movementHistory: LocationPoint[],
-  targetLat: number,
-  targetLon: number,
-  radiusMeters: number,
+  geofence: Geofence,
   requiredDurationSec: number
 ): { verified: boolean; reason?: string; duration?: number } {
   if (!movementHistory || movementHistory.length === 0) {
@@ -280,7 +372,7 @@ export function verifyContinuousPresence(
   
   for (let i = 0; i < sorted.length; i++) {
     const point = sorted[i];
-    const { within } = isWithinGeofence(point.lat, point.lon, targetLat, targetLon, radiusMeters);
+    const { within } = evaluateGeofence(geofence, point.lat, point.lon);
     
     if (within) {
       if (windowStart === -1) {
@@ -321,6 +413,23 @@ export interface VerificationConfig {
   requireContinuousPresence?: boolean;
   continuousPresenceDurationSec?: number;
   maxSpeedMps?: number;
+  maxAccuracyMeters?: number; // Reject GPS fixes coarser than this
+  minConfidence?: number; // Required geofenceConfidence (default 0.5)
+  geofence?: Geofence; // Polygon / multi-zone shape (default: circle at target + radius)
+  vertical?: VerticalConstraint; // Altitude range or floor (default: any altitude)
+  schedule?: RecurringSchedule; // Recurring opening hours inside windowStart..windowEnd
+}
+
+/**
+ * The geofence a config checks against
+ */
+export function resolveGeofence(config: VerificationConfig): Geofence {
+  return config.geofence ?? {
+    type: 'circle',
+    latitude: config.targetLat,
+    longitude: config.targetLon,
+    radiusMeters: config.radiusMeters,
+  };
 }
 
 /**
@@ -331,7 +440,14 @@ export function verifyLocationAttestation(
   attestation: LocationAttestation,
   config: VerificationConfig
 ): VerificationResult {
-  // 1. Verify cryptographic signature
+  // 1. Verify cryptographic signature (over a known serialization version)
+  if (!isSupportedAttestationVersion(attestation.version)) {
+    return {
+      valid: false,
+      reason: `Unsupported attestation version: ${attestation.version ?? 'none'} (expected ${ATTESTATION_VERSION})`,
+    };
+  }
+  
   if (!verifyAttestationSignature(attestation)) {
     return {
       valid: false,
@@ -349,34 +465,90 @@ export function verifyLocationAttestation(
     };
   }
   
-  // 3. Check time window
+  // 3. Check time window (a window opening in the future is reported separately)
+  if (attestation.timestamp < config.windowStart) {
+    return {
+      valid: false,
+      reason: `Message not yet open - unlockable from ${new Date(config.windowStart).toISOString()}`,
+      code: 'not-yet-open',
+      attestation,
+    };
+  }
+  
   if (!isWithinTimeWindow(attestation.timestamp, config.windowStart, config.windowEnd)) {
     return {
       valid: false,
       reason: 'Attestation timestamp outside allowed time window',
+      code: 'outside-time-window',
       attestation,
     };
   }
   
-  // 4. Check geofence
-  const { within, distance } = isWithinGeofence(
+  if (config.schedule && !isWithinSchedule(config.schedule, attestation.timestamp)) {
+    return {
+      valid: false,
+      reason: `Attestation timestamp outside recurring schedule: ${describeSchedule(config.schedule)}`,
+      code: 'outside-schedule',
+      attestation,
+    };
+  }
+  
+  // 4. Check GPS accuracy (optional)
+  if (config.maxAccuracyMeters !== undefined && attestation.accuracy > config.maxAccuracyMeters) {
+    return {
+      valid: false,
+      reason: `GPS accuracy too coarse: ${attestation.accuracy}m (max: ${config.maxAccuracyMeters}m)`,
+      attestation,
+    };
+  }
+  
+  // 5. Check geofence, weighing the reading by its GPS accuracy
+  const geofence = resolveGeofence(config);
+  const { within, distance, confidence, reason } = evaluateGeofence(
+    geofence,
     attestation.latitude,
     attestation.longitude,
-    config.targetLat,
-    config.targetLon,
-    config.radiusMeters
+    attestation.accuracy
   );
+  const minConfidence = config.minConfidence ?? 0.5;
   
   if (!within) {
     return {
       valid: false,
-      reason: `Location outside geofence: ${distance.toFixed(2)}m from target (max: ${config.radiusMeters}m)`,
+      reason,
       attestation,
       distance,
+      confidence,
     };
   }
   
-  // 5. Check movement plausibility (anti-teleportation)
+  if (confidence < minConfidence) {
+    return {
+      valid: false,
+      reason: `Insufficient geofence confidence: ${(confidence * 100).toFixed(1)}% (min: ${(minConfidence * 100).toFixed(0)}%) - ` +
+        `GPS accuracy ${attestation.accuracy}m is too coarse for the geofence (${describeGeofence(geofence)})`,
+      attestation,
+      distance,
+      confidence,
+    };
+  }
+  
+  // 6. Check vertical constraint (optional)
+  if (config.vertical) {
+    const vertical = checkVerticalConstraint(config.vertical, attestation.altitude, attestation.altitudeAccuracy);
+    
+    if (!vertical.valid) {
+      return {
+        valid: false,
+        reason: vertical.reason,
+        attestation,
+        distance,
+        confidence,
+      };
+    }
+  }
+  
+  // 7. Check movement plausibility (anti-teleportation)
   if (attestation.movementHistory && attestation.movementHistory.length >= 2) {
     const maxSpeed = config.maxSpeedMps ?? 200;
     const plausibility = checkMovementPlausibility(attestation.movementHistory, maxSpeed);
@@ -387,18 +559,17 @@ export function verifyLocationAttestation(
         reason: plausibility.reason,
         attestation,
         distance,
+        confidence,
       };
     }
   }
   
-  // 6. Check continuous presence (optional)
-  if (config.requireContinuousPresence && attestation.movementHistory) {
+  // 8. Check continuous presence (optional - fails without movement history)
+  if (config.requireContinuousPresence) {
     const durationSec = config.continuousPresenceDurationSec ?? 30;
     const presence = verifyContinuousPresence(
-      attestation.movementHistory,
-      config.targetLat,
-      config.targetLon,
-      config.radiusMeters,
+      attestation.movementHistory ?? [],
+      geofence,
       durationSec
     );
     
@@ -408,6 +579,7 @@ export function verifyLocationAttestation(
         reason: presence.reason,
         attestation,
         distance,
+        confidence,
       };
     }
   }
@@ -417,6 +589,7 @@ export function verifyLocationAttestation(
     valid: true,
     attestation,
     distance,
+    confidence,
   };
 }
 
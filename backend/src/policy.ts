@@ -0,0 +1,95 @@
+/**
+ * Verification Policy
+ *
+ * This module handles:
+ * - Server-wide verification defaults (from the environment)
+ * - Turning a message's location binding + policy into a VerificationConfig
+ * - Reporting whether a delayed-release message has opened yet
+ */
+
+import type { VerificationConfig } from './location.js';
+import type { StoredMessage, VerificationPolicy } from './types.js';
+
+// ============================================================================
+// Server Defaults
+// ============================================================================
+
+export interface PolicyDefaults {
+  maxAttestationAgeSec: number;
+  minDwellSec: number;
+  maxSpeedMps: number;
+  minConfidence: number;
+}
+
+/**
+ * Read defaults from the environment (see .env.example)
+ */
+export function loadPolicyDefaults(env: NodeJS.ProcessEnv = process.env): PolicyDefaults {
+  const requirePresence = env.REQUIRE_CONTINUOUS_PRESENCE === 'true';
+  return {
+    maxAttestationAgeSec: parseInt(env.MIN_ATTESTATION_FRESHNESS_SECONDS || '300'),
+    minDwellSec: requirePresence ? parseInt(env.CONTINUOUS_PRESENCE_DURATION_SECONDS || '30') : 0,
+    maxSpeedMps: parseFloat(env.MAX_SPEED_MPS || '200'),
+    minConfidence: parseFloat(env.MIN_GEOFENCE_CONFIDENCE || '0.5'),
+  };
+}
+
+// ============================================================================
+// Release Status
+// ============================================================================
+
+export interface ReleaseStatus {
+  status: 'pending' | 'open';
+  opensAt: number; // windowStart
+  opensIn: number; // Seconds until opensAt (0 once open)
+}
+
+/**
+ * Has the message's window opened yet? (windowStart may lie in the future)
+ */
+export function getReleaseStatus(message: StoredMessage, now: number = Date.now()): ReleaseStatus {
+  const opensAt = message.locationBinding.windowStart;
+  if (now >= opensAt) {
+    return { status: 'open', opensAt, opensIn: 0 };
+  }
+  return { status: 'pending', opensAt, opensIn: Math.ceil((opensAt - now) / 1000) };
+}
+
+// ============================================================================
+// Config Builder
+// ============================================================================
+
+/**
+ * Build the VerificationConfig for an unlock attempt on a message
+ * The sender's policy wins over server defaults field by field
+ * `stage` selects a waypoint of a chain (see waypoints.ts); the vertical
+ * constraint only applies to the final location
+ */
+export function buildVerificationConfig(
+  message: StoredMessage,
+  defaults: PolicyDefaults,
+  stage?: number
+): VerificationConfig {
+  const binding = message.locationBinding;
+  const policy: VerificationPolicy = binding.policy ?? {};
+  const minDwellSec = policy.minDwellSec ?? defaults.minDwellSec;
+  const waypoint = stage === undefined ? undefined : binding.waypoints?.[stage];
+  const target = waypoint ?? binding;
+
+  return {
+    targetLat: target.latitude,
+    targetLon: target.longitude,
+    radiusMeters: target.radiusMeters,
+    windowStart: binding.windowStart,
+    windowEnd: binding.windowEnd,
+    maxAttestationAgeSec: policy.maxAttestationAgeSec ?? defaults.maxAttestationAgeSec,
+    requireContinuousPresence: minDwellSec > 0,
+    continuousPresenceDurationSec: minDwellSec,
+    maxSpeedMps: policy.maxSpeedMps ?? defaults.maxSpeedMps,
+    maxAccuracyMeters: policy.maxAccuracyMeters,
+    geofence: target.geofence,
+    vertical: waypoint ? undefined : binding.vertical,
+    schedule: binding.schedule,
+    minConfidence: policy.minConfidence ?? defaults.minConfidence,
+  };
+}
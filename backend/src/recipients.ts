@@ -0,0 +1,68 @@
+/**
+ * Message Recipients
+ *
+ * This module handles:
+ * - Reading the per-recipient key wraps of a new message (recipients[] or the
+ *   legacy single-recipient top-level fields)
+ * - Picking the stored (sealed) wrap that belongs to one recipient
+ *
+ * K_msg is wrapped once per recipient, each under a location-bound key derived
+ * from that recipient's own X25519 shared secret with the sender. Stored wraps
+ * are sealed under the server key, see sealing.ts.
+ */
+
+import type { NewMessageRequest, RecipientWrap, StoredMessage, StoredRecipient } from './types.js';
+
+/**
+ * All key wraps of a message as submitted by the sender
+ * Older clients send a single wrap at the top level instead of recipients[]
+ */
+export function getRequestWraps(request: NewMessageRequest): RecipientWrap[] {
+  if (request.recipients && request.recipients.length > 0) {
+    return request.recipients;
+  }
+  if (request.recipientPublicKey && request.wrappedKey && request.wrappedKeyNonce && request.wrappedKeyAuthTag) {
+    return [{
+      recipientPublicKey: request.recipientPublicKey,
+      wrappedKey: request.wrappedKey,
+      wrappedKeyNonce: request.wrappedKeyNonce,
+      wrappedKeyAuthTag: request.wrappedKeyAuthTag,
+    }];
+  }
+  return [];
+}
+
+/**
+ * All recipients of a stored message (wrap material still sealed)
+ */
+export function getRecipientWraps(message: StoredMessage): StoredRecipient[] {
+  return message.recipients;
+}
+
+/**
+ * Recipients without their sealed wraps - safe to hand to anyone
+ */
+export function getPublicRecipients(message: StoredMessage): Omit<StoredRecipient, 'sealedWrap'>[] {
+  return message.recipients.map(({ recipientPublicKey, prekeyId }) => ({ recipientPublicKey, prekeyId }));
+}
+
+/**
+ * Find the caller's wrap
+ * Without a public key this only succeeds for single-recipient messages
+ */
+export function findRecipientWrap(
+  message: StoredMessage,
+  recipientPublicKey?: string
+): { wrap?: StoredRecipient; reason?: string } {
+  const wraps = getRecipientWraps(message);
+
+  if (!recipientPublicKey) {
+    if (wraps.length === 1) {
+      return { wrap: wraps[0] };
+    }
+    return { reason: 'recipientPublicKey is required for multi-recipient messages' };
+  }
+
+  const wrap = wraps.find(entry => entry.recipientPublicKey === recipientPublicKey);
+  return wrap ? { wrap } : { reason: 'Not a recipient of this message' };
+}
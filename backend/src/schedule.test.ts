@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import * as server from './schedule.js';
+import type { RecurringSchedule, ScheduleRule } from './schedule.js';
+
+// The browser copy must behave exactly like this one
+const browser: typeof server = await import(
+  new URL('../../frontend/src/lib/schedule.ts', import.meta.url).pathname
+);
+
+const at = (iso: string) => Date.parse(iso);
+
+// ============================================================================
+// Evaluation - backend and frontend
+// ============================================================================
+
+describe.each([
+  ['backend', server],
+  ['frontend', browser],
+])('isWithinSchedule (%s)', (_name, { isWithinSchedule }) => {
+  const schedule = (timezone: string, ...rules: ScheduleRule[]): RecurringSchedule => ({ timezone, rules });
+
+  it('uses the local time of the zone', () => {
+    const kolkata = schedule('Asia/Kolkata', { days: ['mon'], start: '09:00', end: '17:00' });
+    expect(isWithinSchedule(kolkata, at('2024-01-01T03:30:00Z'))).toBe(true); // 09:00 IST
+    expect(isWithinSchedule(kolkata, at('2024-01-01T03:29:00Z'))).toBe(false);
+    expect(isWithinSchedule(kolkata, at('2024-01-01T11:30:00Z'))).toBe(false); // 17:00 IST, end exclusive
+  });
+
+  it('follows the zone across the spring DST change', () => {
+    const newYork = schedule('America/New_York', { days: ['sun'], start: '09:00', end: '17:00' });
+    expect(isWithinSchedule(newYork, at('2024-03-10T13:30:00Z'))).toBe(true); // 09:30 EDT
+    expect(isWithinSchedule(newYork, at('2024-03-10T12:30:00Z'))).toBe(false); // 08:30 EDT
+
+    // 02:00-03:00 does not exist that night
+    const skipped = schedule('America/New_York', { days: ['sun'], start: '02:00', end: '03:00' });
+    expect(isWithinSchedule(skipped, at('2024-03-10T06:59:00Z'))).toBe(false); // 01:59 EST
+    expect(isWithinSchedule(skipped, at('2024-03-10T07:00:00Z'))).toBe(false); // 03:00 EDT
+  });
+
+  it('matches both passes through the repeated autumn hour', () => {
+    const newYork = schedule('America/New_York', { days: ['sun'], start: '01:00', end: '02:00' });
+    expect(isWithinSchedule(newYork, at('2024-11-03T05:30:00Z'))).toBe(true); // 01:30 EDT
+    expect(isWithinSchedule(newYork, at('2024-11-03T06:30:00Z'))).toBe(true); // 01:30 EST
+    expect(isWithinSchedule(newYork, at('2024-11-03T07:30:00Z'))).toBe(false); // 02:30 EST
+  });
+
+  it('treats 24:00 as the end of the day', () => {
+    const lateShift = schedule('UTC', { days: ['mon'], start: '22:00', end: '24:00' });
+    expect(isWithinSchedule(lateShift, at('2024-01-01T23:59:00Z'))).toBe(true);
+    expect(isWithinSchedule(lateShift, at('2024-01-02T00:00:00Z'))).toBe(false); // Tuesday 00:00
+  });
+
+  it('matches the last weekday of the month with weekOfMonth -1', () => {
+    const lastFriday = schedule('UTC', { days: ['fri'], start: '00:00', end: '24:00', weekOfMonth: [-1] });
+    expect(isWithinSchedule(lastFriday, at('2024-02-23T12:00:00Z'))).toBe(true); // 4th and last
+    expect(isWithinSchedule(lastFriday, at('2024-02-16T12:00:00Z'))).toBe(false);
+    expect(isWithinSchedule(lastFriday, at('2024-03-29T12:00:00Z'))).toBe(true); // 5th and last
+    expect(isWithinSchedule(lastFriday, at('2024-03-22T12:00:00Z'))).toBe(false);
+  });
+
+  it('matches the nth weekday with weekOfMonth', () => {
+    const firstMonday = schedule('UTC', { days: ['mon'], start: '00:00', end: '24:00', weekOfMonth: [1] });
+    expect(isWithinSchedule(firstMonday, at('2024-04-01T08:00:00Z'))).toBe(true);
+    expect(isWithinSchedule(firstMonday, at('2024-04-08T08:00:00Z'))).toBe(false);
+  });
+
+  it('uses the local day in a zone west of UTC after UTC midnight', () => {
+    // Friday 21:00 in Los Angeles is already Saturday in UTC
+    const fridayNight = schedule('America/Los_Angeles', { days: ['fri'], start: '20:00', end: '24:00' });
+    expect(isWithinSchedule(fridayNight, at('2024-01-06T05:00:00Z'))).toBe(true);
+    expect(isWithinSchedule(fridayNight, at('2024-01-06T09:00:00Z'))).toBe(false); // Saturday 01:00
+
+    // Thursday 29 February locally, Friday 1 March in UTC
+    const lastThursday = schedule('America/Los_Angeles', { days: ['thu'], start: '00:00', end: '24:00', weekOfMonth: [-1] });
+    expect(isWithinSchedule(lastThursday, at('2024-03-01T06:00:00Z'))).toBe(true);
+  });
+
+  it('is open when any rule matches', () => {
+    const split = schedule(
+      'UTC',
+      { days: ['sat'], start: '10:00', end: '12:00' },
+      { days: ['sat'], start: '14:00', end: '16:00' }
+    );
+    expect(isWithinSchedule(split, at('2024-01-06T11:00:00Z'))).toBe(true);
+    expect(isWithinSchedule(split, at('2024-01-06T15:00:00Z'))).toBe(true);
+    expect(isWithinSchedule(split, at('2024-01-06T13:00:00Z'))).toBe(false);
+  });
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+describe('schedule helpers', () => {
+  it('parses times of day', () => {
+    expect(server.parseTimeOfDay('00:00')).toBe(0);
+    expect(server.parseTimeOfDay('09:30')).toBe(570);
+    expect(server.parseTimeOfDay('24:00')).toBe(1440);
+    expect(server.TIME_OF_DAY_PATTERN.test('24:00')).toBe(true);
+    expect(server.TIME_OF_DAY_PATTERN.test('24:01')).toBe(false);
+  });
+
+  it('checks IANA zone names', () => {
+    expect(server.isValidTimeZone('Asia/Kolkata')).toBe(true);
+    expect(server.isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  it('describes a schedule', () => {
+    const schedule: RecurringSchedule = {
+      timezone: 'Asia/Kolkata',
+      rules: [{ days: ['mon', 'fri'], start: '09:00', end: '17:00', weekOfMonth: [1, -1] }],
+    };
+    expect(server.describeSchedule(schedule)).toBe('1st/last mon,fri 09:00-17:00 (Asia/Kolkata)');
+    expect(browser.describeSchedule(schedule)).toBe(server.describeSchedule(schedule));
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Recurring Schedules
+ *
+ * This module handles:
+ * - Weekly opening hours in a named IANA time zone ("weekdays 09:00-17:00")
+ * - Week-of-month rules ("first Monday of the month", "last Friday")
+ * - Checking whether a timestamp falls inside a schedule
+ *
+ * A schedule narrows the binding's windowStart/windowEnd range; it never
+ * extends it. Local time is computed with Intl, so DST is handled by the zone.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+/**
+ * One recurring opening, e.g. { days: ['mon'], start: '00:00', end: '24:00', weekOfMonth: [1] }
+ */
+export interface ScheduleRule {
+  days: Weekday[];
+  start: string; // "HH:MM" local time, inclusive
+  end: string; // "HH:MM" local time, exclusive ("24:00" = end of day)
+  weekOfMonth?: number[]; // 1-5 = nth occurrence of the weekday, -1 = last
+}
+
+export interface RecurringSchedule {
+  timezone: string; // IANA zone, e.g. "Asia/Kolkata"
+  rules: ScheduleRule[]; // Open when any rule matches
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+/**
+ * Minutes since local midnight for "HH:MM"
+ */
+export function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date parts of a timestamp in a time zone
+ */
+function localParts(timestamp: number, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(new Date(timestamp));
+
+  const get = (type: string) => parts.find(part => part.type === type)!.value;
+  const year = Number(get('year'));
+  const month = Number(get('month'));
+
+  return {
+    weekday: get('weekday').toLowerCase().slice(0, 3) as Weekday,
+    day: Number(get('day')),
+    daysInMonth: new Date(Date.UTC(year, month, 0)).getUTCDate(),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Check whether a timestamp falls inside any rule of a schedule
+ */
+export function isWithinSchedule(schedule: RecurringSchedule, timestamp: number): boolean {
+  const local = localParts(timestamp, schedule.timezone);
+  const occurrence = Math.ceil(local.day / 7);
+  const isLast = local.day + 7 > local.daysInMonth;
+
+  return schedule.rules.some(rule => {
+    if (!rule.days.includes(local.weekday)) return false;
+    if (rule.weekOfMonth && !rule.weekOfMonth.some(week => week === occurrence || (week === -1 && isLast))) {
+      return false;
+    }
+    return local.minutes >= parseTimeOfDay(rule.start) && local.minutes < parseTimeOfDay(rule.end);
+  });
+}
+
+/**
+ * Describe a schedule for logs and error messages
+ */
+export function describeSchedule(schedule: RecurringSchedule): string {
+  const ordinal = (week: number) => (week === -1 ? 'last' : ['1st', '2nd', '3rd', '4th', '5th'][week - 1]);
+  const rules = schedule.rules.map(rule => {
+    const weeks = rule.weekOfMonth ? `${rule.weekOfMonth.map(ordinal).join('/')} ` : '';
+    return `${weeks}${rule.days.join(',')} ${rule.start}-${rule.end}`;
+  });
+  return `${rules.join('; ')} (${schedule.timezone})`;
+}
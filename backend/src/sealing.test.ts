@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { generateAesKey } from './crypto.js';
+import { WrapSealer, loadSealKey, sealStoredMessages } from './sealing.js';
+import { MemoryStore } from './store.js';
+import type { NewMessageRequest, RecipientWrap, StoredMessage } from './types.js';
+
+const wrap: RecipientWrap = {
+  recipientPublicKey: 'cmVjaXBpZW50',
+  wrappedKey: 'd3JhcHBlZA==',
+  wrappedKeyNonce: 'bm9uY2U=',
+  wrappedKeyAuthTag: 'dGFn',
+  stageWraps: [{ wrappedKey: 'c3RhZ2U=', wrappedKeyNonce: 'bm9uY2U=', wrappedKeyAuthTag: 'dGFn' }],
+};
+
+const request: NewMessageRequest = {
+  senderPublicKey: 'c2VuZGVy',
+  recipients: [wrap],
+  serverKeyShare: 'c2hhcmU=',
+  encryptedPayload: 'cGF5bG9hZA==',
+  payloadNonce: 'bm9uY2U=',
+  payloadAuthTag: 'dGFn',
+  locationBinding: {
+    latitude: 18.52,
+    longitude: 73.85,
+    radiusMeters: 100,
+    windowStart: 0,
+    windowEnd: 1,
+    nonce: 'bm9uY2U=',
+  },
+  metadata: { created: 0 },
+};
+
+// ============================================================================
+// Seal Key
+// ============================================================================
+
+describe('loadSealKey', () => {
+  it('reads a 32-byte SERVER_SEAL_KEY', () => {
+    const key = generateAesKey();
+    expect(loadSealKey({ SERVER_SEAL_KEY: key.toString('base64') })).toEqual(key);
+  });
+
+  it('rejects a key of the wrong length', () => {
+    expect(() => loadSealKey({ SERVER_SEAL_KEY: Buffer.alloc(16).toString('base64') })).toThrow(/32 bytes/);
+  });
+
+  it('requires SERVER_SEAL_KEY with the file store', () => {
+    expect(() => loadSealKey({ STORE_DRIVER: 'file' })).toThrow(/SERVER_SEAL_KEY is required/);
+  });
+
+  it('generates a key per run for the memory store', () => {
+    expect(loadSealKey({})).toHaveLength(32);
+    expect(loadSealKey({})).not.toEqual(loadSealKey({}));
+  });
+});
+
+// ============================================================================
+// Sealer
+// ============================================================================
+
+describe('WrapSealer', () => {
+  const sealer = new WrapSealer(generateAesKey());
+
+  it('round-trips a recipient wrap', async () => {
+    const sealed = await sealer.seal(wrap);
+    expect(JSON.stringify(sealed)).not.toContain(wrap.wrappedKey);
+    expect(await sealer.open(sealed)).toEqual(wrap);
+  });
+
+  it('rejects a tampered sealed wrap', async () => {
+    const sealed = await sealer.seal(wrap);
+    const ciphertext = Buffer.from(sealed.sealedWrap.ciphertext, 'base64');
+    ciphertext[0] ^= 0x01;
+    const tampered = { ...sealed, sealedWrap: { ...sealed.sealedWrap, ciphertext: ciphertext.toString('base64') } };
+    await expect(sealer.open(tampered)).rejects.toThrow();
+  });
+
+  it('rejects a wrap sealed under another key', async () => {
+    const sealed = await new WrapSealer(generateAesKey()).seal(wrap);
+    await expect(sealer.open(sealed)).rejects.toThrow();
+  });
+
+  it('seals every wrap and the server key share of a new message', async () => {
+    const message = await sealer.sealMessage(request, 'msg-1');
+    expect(message.id).toBe('msg-1');
+    expect(message.recipients[0]).not.toHaveProperty('wrappedKey');
+    expect(message.recipients[0]).not.toHaveProperty('stageWraps');
+    expect(JSON.stringify(message)).not.toContain(wrap.wrappedKey);
+    expect(await sealer.open(message.recipients[0])).toEqual(wrap);
+    expect(await sealer.openServerKeyShare(message)).toBe(request.serverKeyShare);
+  });
+
+  it('seals messages stored before sealing, once', async () => {
+    const messages = new MemoryStore<StoredMessage>();
+    const { recipients: _recipients, serverKeyShare: _serverKeyShare, ...legacy } = request;
+    const unsealed = { ...legacy, id: 'msg-legacy', ...wrap };
+    await messages.set('msg-legacy', unsealed as unknown as StoredMessage);
+
+    expect(await sealStoredMessages(messages, sealer)).toBe(1);
+    const stored = (await messages.get('msg-legacy'))!;
+    expect(JSON.stringify(stored)).not.toContain(wrap.wrappedKey);
+    expect(await sealer.open(stored.recipients[0])).toMatchObject({ wrappedKey: wrap.wrappedKey });
+    expect(await sealStoredMessages(messages, sealer)).toBe(0);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Key-Wrap Sealing
+ *
+ * This module handles:
+ * - The server seal key (SERVER_SEAL_KEY; required with the file store)
+ * - Sealing every recipient's key-wrap material before a message is stored
+ * - Sealing the message's server key share (see combineKeyShares in crypto.ts)
+ * - Opening one recipient's wrap after /unlock has verified the attestation
+ *
+ * GET /api/messages/:id/encrypted only ever returns the public part of each
+ * recipient, so the wrapped K_msg cannot be fetched around the server-side
+ * location check - neither over the API nor by reading the store files, as
+ * the seal key is never written next to them.
+ */
+
+import { LEGACY_ENVELOPE, aesGcmDecrypt, aesGcmEncrypt, generateAesKey } from './crypto.js';
+import type { MessageStore } from './store.js';
+import type { NewMessageRequest, RecipientWrap, StoredMessage, StoredRecipient } from './types.js';
+import { getRequestWraps } from './recipients.js';
+
+// ============================================================================
+// Seal Key
+// ============================================================================
+
+/**
+ * 32-byte AES key from SERVER_SEAL_KEY (base64)
+ * The file store refuses to start without it; the memory store gets a fresh
+ * key per run, as its messages do not outlive it
+ */
+export function loadSealKey(env: NodeJS.ProcessEnv = process.env): Buffer {
+  if (env.SERVER_SEAL_KEY) {
+    const key = Buffer.from(env.SERVER_SEAL_KEY, 'base64');
+    if (key.length !== 32) {
+      throw new Error('SERVER_SEAL_KEY must be 32 bytes, base64 encoded');
+    }
+    return key;
+  }
+
+  if (env.STORE_DRIVER === 'file') {
+    throw new Error('SERVER_SEAL_KEY is required with STORE_DRIVER=file (generate one with: openssl rand -base64 32)');
+  }
+  return generateAesKey();
+}
+
+// ============================================================================
+// Sealer
+// ============================================================================
+
+export class WrapSealer {
+  constructor(private readonly key: Buffer) {}
+
+  async seal(wrap: RecipientWrap): Promise<StoredRecipient> {
+    const { recipientPublicKey, prekeyId, ...material } = wrap;
+    return {
+      recipientPublicKey,
+      prekeyId,
+      sealedWrap: await aesGcmEncrypt(JSON.stringify(material), this.key),
+    };
+  }
+
+  /**
+   * Throws if the seal key is wrong or the record was tampered with
+   */
+  async open(recipient: StoredRecipient): Promise<RecipientWrap> {
+    const { ciphertext, nonce, authTag } = recipient.sealedWrap;
+    const material = JSON.parse(await aesGcmDecrypt(ciphertext, this.key, nonce, authTag));
+    return { recipientPublicKey: recipient.recipientPublicKey, prekeyId: recipient.prekeyId, ...material };
+  }
+
+  async openServerKeyShare(message: StoredMessage): Promise<string | undefined> {
+    if (!message.serverKeyShare) return undefined;
+    const { ciphertext, nonce, authTag } = message.serverKeyShare;
+    return await aesGcmDecrypt(ciphertext, this.key, nonce, authTag);
+  }
+
+  /**
+   * The record to store for a new message: wraps and server share sealed,
+   * no legacy top-level wrap, and an explicit envelope (version 1 if the
+   * client sent none)
+   */
+  async sealMessage(request: NewMessageRequest, id: string): Promise<StoredMessage> {
+    const {
+      id: _id,
+      recipients: _recipients,
+      serverKeyShare,
+      recipientPublicKey: _recipientPublicKey,
+      wrappedKey: _wrappedKey,
+      wrappedKeyNonce: _wrappedKeyNonce,
+      wrappedKeyAuthTag: _wrappedKeyAuthTag,
+      ...rest
+    } = request;
+    const recipients = await Promise.all(getRequestWraps(request).map(wrap => this.seal(wrap)));
+    return {
+      ...rest,
+      id,
+      envelope: request.envelope ?? LEGACY_ENVELOPE,
+      recipients,
+      serverKeyShare: serverKeyShare ? await aesGcmEncrypt(serverKeyShare, this.key) : undefined,
+    };
+  }
+}
+
+/**
+ * Seal messages stored before wraps were sealed (run once at startup)
+ * Returns how many records were rewritten
+ */
+export async function sealStoredMessages(
+  messages: MessageStore<StoredMessage>,
+  sealer: WrapSealer
+): Promise<number> {
+  let sealed = 0;
+  for (const message of await messages.values()) {
+    const record = message as unknown as NewMessageRequest;
+    const unsealed = record.wrappedKey !== undefined ||
+      !Array.isArray(message.recipients) ||
+      message.recipients.some(recipient => !recipient.sealedWrap);
+    if (unsealed) {
+      await messages.set(message.id, await sealer.sealMessage(record, message.id));
+      sealed++;
+    }
+  }
+  return sealed;
+}
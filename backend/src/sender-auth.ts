@@ -0,0 +1,85 @@
+/**
+ * Sender Authorization
+ *
+ * This module handles:
+ * - The canonical payload a sender signs to delete or revoke a message
+ * - Verifying that signature against the sender's Ed25519 key
+ *
+ * The sender registers an Ed25519 public key (senderSigningKey) when the
+ * message is stored; only the holder of the matching private key can later
+ * delete or revoke it.
+ */
+
+import { verifySignature } from './crypto.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SenderAction = 'delete' | 'revoke';
+
+export interface SenderAuthorization {
+  timestamp: number; // Unix timestamp in milliseconds
+  signature: string; // Ed25519 over buildSenderActionPayload(...)
+}
+
+// ============================================================================
+// Signing Payload
+// ============================================================================
+
+/**
+ * Canonical string signed by the sender
+ * Binds the action and message ID so a delete signature cannot be used to revoke
+ */
+export function buildSenderActionPayload(
+  action: SenderAction,
+  messageId: string,
+  timestamp: number
+): string {
+  return JSON.stringify({ action, messageId, timestamp });
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Verify a sender's signed request to act on a message
+ */
+export function verifySenderAction(
+  senderSigningKey: string | undefined,
+  action: SenderAction,
+  messageId: string,
+  auth: SenderAuthorization,
+  maxSkewSec: number = 300 // 5 minutes default
+): { valid: boolean; reason?: string } {
+  if (!senderSigningKey) {
+    return {
+      valid: false,
+      reason: 'Message has no sender signing key and cannot be modified',
+    };
+  }
+
+  // Reject stale (or far-future) requests so a captured signature expires quickly
+  if (Math.abs(Date.now() - auth.timestamp) > maxSkewSec * 1000) {
+    return {
+      valid: false,
+      reason: `Request timestamp outside allowed skew (max: ${maxSkewSec}s)`,
+    };
+  }
+
+  const payload = buildSenderActionPayload(action, messageId, auth.timestamp);
+  let valid = false;
+  try {
+    valid = verifySignature(payload, auth.signature, senderSigningKey);
+  } catch {
+    // Malformed key or signature bytes
+    valid = false;
+  }
+
+  if (!valid) {
+    return { valid: false, reason: 'Invalid sender signature' };
+  }
+
+  return { valid: true };
+}
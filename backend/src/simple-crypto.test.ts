@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decryptMessage,
+  encryptMessage,
+  isLegacyCiphertext,
+  openEnvelope,
+  sealEnvelope,
+} from './simple-crypto.js';
+
+const SAFEHOUSE = { lat: 18.5204, lon: 73.8567 };
+
+// ============================================================================
+// Authenticated Envelope (v2)
+// ============================================================================
+
+describe('sealEnvelope / openEnvelope', () => {
+  it('round-trips with the same secret', async () => {
+    const envelope = await sealEnvelope('Meet at safehouse', 'secret');
+    expect(envelope.startsWith('v2.')).toBe(true);
+    await expect(openEnvelope(envelope, 'secret')).resolves.toBe('Meet at safehouse');
+  });
+
+  it('salts every envelope', async () => {
+    const [first, second] = await Promise.all([
+      sealEnvelope('Meet at safehouse', 'secret'),
+      sealEnvelope('Meet at safehouse', 'secret'),
+    ]);
+    expect(first).not.toBe(second);
+  });
+
+  it('returns null for the wrong secret', async () => {
+    await expect(openEnvelope(await sealEnvelope('Meet at safehouse', 'secret'), 'guess')).resolves.toBeNull();
+  });
+
+  it('returns null for a tampered ciphertext, tag or version', async () => {
+    const parts = (await sealEnvelope('Meet at safehouse', 'secret')).split('.');
+    const flip = (index: number) => {
+      const bytes = Buffer.from(parts[index], 'base64');
+      bytes[0] ^= 0x01;
+      return parts.map((part, i) => i === index ? bytes.toString('base64') : part).join('.');
+    };
+    await expect(openEnvelope(flip(3), 'secret')).resolves.toBeNull();
+    await expect(openEnvelope(flip(4), 'secret')).resolves.toBeNull();
+    await expect(openEnvelope(['v3', ...parts.slice(1)].join('.'), 'secret')).resolves.toBeNull();
+  });
+});
+
+// ============================================================================
+// Location Messages - v2 vs XOR
+// ============================================================================
+
+describe('encryptMessage / decryptMessage', () => {
+  it('writes a v2 envelope by default and opens it on site', async () => {
+    const { encrypted, cipher } = await encryptMessage('Meet at safehouse', SAFEHOUSE.lat, SAFEHOUSE.lon);
+    expect(cipher).toBe('aes-gcm');
+    expect(isLegacyCiphertext(encrypted)).toBe(false);
+
+    await expect(decryptMessage(encrypted, SAFEHOUSE.lat, SAFEHOUSE.lon, SAFEHOUSE.lat, SAFEHOUSE.lon))
+      .resolves.toMatchObject({ success: true, message: 'Meet at safehouse', cipher: 'aes-gcm' });
+  });
+
+  it('reports a tampered v2 message instead of returning gibberish', async () => {
+    const { encrypted } = await encryptMessage('Meet at safehouse', SAFEHOUSE.lat, SAFEHOUSE.lon);
+    const parts = encrypted.split('.');
+    const ciphertext = Buffer.from(parts[3], 'base64');
+    ciphertext[0] ^= 0x01;
+    parts[3] = ciphertext.toString('base64');
+
+    const result = await decryptMessage(parts.join('.'), SAFEHOUSE.lat, SAFEHOUSE.lon, SAFEHOUSE.lat, SAFEHOUSE.lon);
+    expect(result).toMatchObject({ success: false, authFailed: true });
+    expect(result.message).toBeUndefined();
+  });
+
+  it('still reads XOR (teaching mode) ciphertext', async () => {
+    const { encrypted, cipher } = await encryptMessage('Meet at safehouse', SAFEHOUSE.lat, SAFEHOUSE.lon, 100, 'xor');
+    expect(cipher).toBe('xor');
+    expect(isLegacyCiphertext(encrypted)).toBe(true);
+
+    await expect(decryptMessage(encrypted, SAFEHOUSE.lat, SAFEHOUSE.lon, SAFEHOUSE.lat, SAFEHOUSE.lon))
+      .resolves.toMatchObject({ success: true, message: 'Meet at safehouse', cipher: 'xor' });
+  });
+
+  it('cannot detect tampering with XOR ciphertext', async () => {
+    const { encrypted } = await encryptMessage('Meet at safehouse', SAFEHOUSE.lat, SAFEHOUSE.lon, 100, 'xor');
+    const bytes = Buffer.from(encrypted, 'base64');
+    bytes[0] ^= 0x01;
+
+    const result = await decryptMessage(bytes.toString('base64'), SAFEHOUSE.lat, SAFEHOUSE.lon, SAFEHOUSE.lat, SAFEHOUSE.lon);
+    expect(result.success).toBe(true);
+    expect(result.message).not.toBe('Meet at safehouse');
+  });
+
+  it('refuses to decrypt outside the radius', async () => {
+    const { encrypted } = await encryptMessage('Meet at safehouse', SAFEHOUSE.lat, SAFEHOUSE.lon);
+    const result = await decryptMessage(encrypted, SAFEHOUSE.lat + 0.01, SAFEHOUSE.lon, SAFEHOUSE.lat, SAFEHOUSE.lon);
+    expect(result.success).toBe(false);
+    expect(result.distance).toBeGreaterThan(100);
+  });
+});
@@ -2,12 +2,31 @@
  * SIMPLIFIED Crypto for Location-Bound Messaging
  * 
  * Easy to explain to faculty:
- * 1. SHA-256 creates a key from location coordinates
- * 2. XOR encryption (simple and visual)
- * 3. Message can ONLY be decrypted at the correct location
+ * 1. PBKDF2 stretches the location coordinates and a random salt into a key
+ * 2. AES-256-GCM encrypts the message and adds an authentication tag
+ * 3. Message can ONLY be decrypted at the correct location - anywhere else
+ *    the tag check fails
+ *
+ * Ciphers:
+ * - AES-256-GCM under a PBKDF2 key, in a versioned "v2" envelope (default).
+ *   A wrong key or a modified message fails authentication instead of
+ *   decrypting to gibberish.
+ * - XOR ("teaching" mode): the original format, still written on request and
+ *   always readable. No integrity, and it leaks the plaintext's structure.
+ *
+ * Two modes:
+ * - "target": the server keeps the destination, checks the distance and
+ *   decrypts for the receiver (createLocationKey / encryptMessage / decryptMessage)
+ * - "cell": the location itself is the secret. The sender's client encrypts
+ *   under a key derived from the destination's grid cell; the receiver's
+ *   client derives keys from its OWN cell and its 8 neighbours. The server only
+ *   stores the ciphertext, a salt and a salted commitment to the cell.
  */
 
-import { createHash } from 'crypto';
+import { createCipheriv, createDecipheriv, createHash, pbkdf2, randomBytes } from 'crypto';
+import { promisify } from 'util';
+
+export type SimpleCipher = 'aes-gcm' | 'xor';
 
 /**
  * Create encryption key from location coordinates using SHA-256
@@ -21,24 +40,25 @@ export function createLocationKey(
   lon: number,
   radiusMeters: number = 100
 ): Buffer {
-  // Round coordinates based on radius to allow small variations
-  // 100m radius = round to 3 decimal places (~111m precision)
-  const precision = radiusMeters <= 10 ? 5 : radiusMeters <= 100 ? 3 : 2;
-  
-  const roundedLat = lat.toFixed(precision);
-  const roundedLon = lon.toFixed(precision);
-  
-  // Create location string
-  const locationString = `${roundedLat},${roundedLon}`;
-  
-  // Hash it with SHA-256 to get a 32-byte key
+  // Hash the location string with SHA-256 to get a 32-byte key
   const hash = createHash('sha256')
-    .update(locationString)
+    .update(locationString(lat, lon, radiusMeters))
     .digest();
   
   return hash;
 }
 
+/**
+ * The rounded coordinates every location key is derived from
+ */
+export function locationString(lat: number, lon: number, radiusMeters: number = 100): string {
+  // Round coordinates based on radius to allow small variations
+  // 100m radius = round to 3 decimal places (~111m precision)
+  const precision = radiusMeters <= 10 ? 5 : radiusMeters <= 100 ? 3 : 2;
+  
+  return `${lat.toFixed(precision)},${lon.toFixed(precision)}`;
+}
+
 /**
  * Simple XOR encryption (easy to explain!)
  * 
@@ -75,34 +95,100 @@ export function xorDecrypt(encryptedBytes: Buffer, key: Buffer): string {
   return decrypted.toString('utf8');
 }
 
+// ============================================================================
+// Authenticated Envelope (v2)
+// ============================================================================
+
+const ENVELOPE_VERSION = 'v2';
+const PBKDF2_ITERATIONS = 100000;
+
+// Async, so a key derivation never blocks the event loop for other requests
+const pbkdf2Async = promisify(pbkdf2);
+
+/**
+ * AES-256-GCM envelope: "v2.<salt>.<nonce>.<ciphertext>.<authTag>" (base64 parts)
+ * 
+ * EXPLAIN TO FACULTY:
+ * "PBKDF2 stretches the location string with a random salt, so the same
+ *  place gives a different key for every message. AES-GCM adds a tag that
+ *  proves the key was right and nobody changed the message."
+ */
+export async function sealEnvelope(message: string, secret: string): Promise<string> {
+  const salt = randomBytes(16);
+  const nonce = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', await deriveEnvelopeKey(secret, salt), nonce);
+  const ciphertext = Buffer.concat([cipher.update(message, 'utf8'), cipher.final()]);
+  
+  return [ENVELOPE_VERSION, salt, nonce, ciphertext, cipher.getAuthTag()]
+    .map(part => typeof part === 'string' ? part : part.toString('base64'))
+    .join('.');
+}
+
+/**
+ * Returns null when authentication fails (wrong key or modified envelope)
+ */
+export async function openEnvelope(envelope: string, secret: string): Promise<string | null> {
+  const [version, salt, nonce, ciphertext, authTag] = envelope.split('.');
+  if (version !== ENVELOPE_VERSION || !authTag) {
+    return null;
+  }
+  
+  try {
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      await deriveEnvelopeKey(secret, Buffer.from(salt, 'base64')),
+      Buffer.from(nonce, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pre-envelope messages are bare base64 XOR ciphertext (base64 has no ".")
+ */
+export function isLegacyCiphertext(encrypted: string): boolean {
+  return !encrypted.startsWith(`${ENVELOPE_VERSION}.`);
+}
+
+function deriveEnvelopeKey(secret: string, salt: Buffer): Promise<Buffer> {
+  return pbkdf2Async(secret, salt, PBKDF2_ITERATIONS, 32, 'sha256');
+}
+
 /**
  * Encrypt a message bound to a specific location
  * 
  * SIMPLE DEMO FLOW:
  * 1. Officer 1 enters: "Meet at safehouse" + destination coordinates
- * 2. We create a key from those coordinates using SHA-256
- * 3. We XOR the message with that key
+ * 2. We create a key from those coordinates using PBKDF2 (SHA-256 in teaching mode)
+ * 3. We encrypt the message with that key (AES-GCM, or XOR in teaching mode)
  * 4. Result: encrypted gibberish that only works at that location
  */
-export function encryptMessage(
+export async function encryptMessage(
   message: string,
   destLat: number,
   destLon: number,
-  radiusMeters: number = 100
-): {
-  encrypted: string; // base64 encoded
+  radiusMeters: number = 100,
+  cipher: SimpleCipher = 'aes-gcm'
+): Promise<{
+  encrypted: string; // v2 envelope, or base64 XOR ciphertext
+  cipher: SimpleCipher;
   lat: number;
   lon: number;
   radius: number;
-} {
-  // Create location-based key
-  const locationKey = createLocationKey(destLat, destLon, radiusMeters);
-  
-  // Encrypt message
-  const encrypted = xorEncrypt(message, locationKey);
+}> {
+  const encrypted = cipher === 'xor'
+    ? xorEncrypt(message, createLocationKey(destLat, destLon, radiusMeters)).toString('base64')
+    : await sealEnvelope(message, locationString(destLat, destLon, radiusMeters));
   
   return {
-    encrypted: encrypted.toString('base64'),
+    encrypted,
+    cipher,
     lat: destLat,
     lon: destLon,
     radius: radiusMeters,
@@ -115,19 +201,23 @@ export function encryptMessage(
  * DEMO FOR FACULTY:
  * - Officer 2 is at location A: tries to decrypt → gets gibberish
  * - Officer 2 moves to correct location: tries again → gets real message!
+ * - A v2 message that fails authentication is reported (authFailed), never
+ *   returned as gibberish
  */
-export function decryptMessage(
+export async function decryptMessage(
   encryptedBase64: string,
   currentLat: number,
   currentLon: number,
   targetLat: number,
   targetLon: number,
   radiusMeters: number = 100
-): {
+): Promise<{
   success: boolean;
   message?: string;
   distance?: number;
-} {
+  cipher?: SimpleCipher;
+  authFailed?: boolean;
+}> {
   // Calculate if we're close enough
   const distance = calculateDistance(currentLat, currentLon, targetLat, targetLon);
   
@@ -139,17 +229,147 @@ export function decryptMessage(
   }
   
   // We're at the right location! Create the key and decrypt
-  const locationKey = createLocationKey(targetLat, targetLon, radiusMeters);
-  const encryptedBytes = Buffer.from(encryptedBase64, 'base64');
-  const message = xorDecrypt(encryptedBytes, locationKey);
+  if (isLegacyCiphertext(encryptedBase64)) {
+    const locationKey = createLocationKey(targetLat, targetLon, radiusMeters);
+    const encryptedBytes = Buffer.from(encryptedBase64, 'base64');
+    
+    return {
+      success: true,
+      message: xorDecrypt(encryptedBytes, locationKey),
+      distance: Math.round(distance),
+      cipher: 'xor',
+    };
+  }
   
+  const message = await openEnvelope(encryptedBase64, locationString(targetLat, targetLon, radiusMeters));
   return {
-    success: true,
-    message,
+    success: message !== null,
+    message: message ?? undefined,
     distance: Math.round(distance),
+    cipher: 'aes-gcm',
+    authFailed: message === null,
   };
 }
 
+// ============================================================================
+// Cell Mode - the location is the secret
+// ============================================================================
+
+const METERS_PER_DEGREE_LAT = 111320;
+const MIN_CELL_SIZE_METERS = 10;
+
+export interface CellMessage {
+  encrypted: string; // v2 envelope keyed by the cell id, or base64 XOR ciphertext
+  salt: string; // base64, 16 random bytes
+  commitment: string; // first half of PBKDF2(cellId, salt), hex
+  cellSizeMeters: number;
+}
+
+/**
+ * Grid cells are as wide as the unlock radius
+ * With the 3x3 neighbourhood, a receiver within the radius always finds the
+ * target cell (and one up to about two radii away may too)
+ */
+export function cellSizeForRadius(radiusMeters: number): number {
+  return Math.max(MIN_CELL_SIZE_METERS, Math.round(radiusMeters));
+}
+
+/**
+ * Quantize a position into a grid cell: "size:row:col"
+ * Rows are fixed-height latitude bands; each row's column width is measured at
+ * the row's centre, so both sides compute the same columns
+ */
+export function cellId(lat: number, lon: number, cellSizeMeters: number): string {
+  const row = Math.floor(lat * METERS_PER_DEGREE_LAT / cellSizeMeters);
+  return `${cellSizeMeters}:${row}:${cellColumn(row, lon, cellSizeMeters)}`;
+}
+
+function cellColumn(row: number, lon: number, cellSizeMeters: number): number {
+  const rowCenterLat = ((row + 0.5) * cellSizeMeters) / METERS_PER_DEGREE_LAT;
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.max(Math.cos(rowCenterLat * Math.PI / 180), 0.01);
+  return Math.floor(lon * metersPerDegreeLon / cellSizeMeters);
+}
+
+/**
+ * Our own cell first, then the 8 around it (handles positions near a cell edge)
+ */
+export function neighborCellIds(lat: number, lon: number, cellSizeMeters: number): string[] {
+  const ownRow = Math.floor(lat * METERS_PER_DEGREE_LAT / cellSizeMeters);
+  const cells = [cellId(lat, lon, cellSizeMeters)];
+  for (const row of [ownRow - 1, ownRow, ownRow + 1]) {
+    const column = cellColumn(row, lon, cellSizeMeters);
+    for (const col of [column - 1, column, column + 1]) {
+      const id = `${cellSizeMeters}:${row}:${col}`;
+      if (!cells.includes(id)) cells.push(id);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Public commitment to the target cell and the XOR key, from one PBKDF2 run
+ * The commitment lets the receiver spot the right neighbour without the server
+ * ever seeing a coordinate. A cell id has little entropy, so testing a guess
+ * against the stored commitment must cost as much as against the envelope
+ */
+export async function deriveCellSecrets(salt: string, cell: string): Promise<{ commitment: string; key: Buffer }> {
+  const derived = await pbkdf2Async(cell, Buffer.from(salt, 'base64'), PBKDF2_ITERATIONS, 64, 'sha256');
+  return { commitment: derived.subarray(0, 32).toString('hex'), key: derived.subarray(32) };
+}
+
+/**
+ * Encrypt for whoever stands in the destination's cell
+ * Runs on the sender's device - the coordinates never leave it
+ */
+export async function encryptForCell(
+  message: string,
+  destLat: number,
+  destLon: number,
+  radiusMeters: number = 100,
+  cipher: SimpleCipher = 'aes-gcm'
+): Promise<CellMessage> {
+  const cellSizeMeters = cellSizeForRadius(radiusMeters);
+  const cell = cellId(destLat, destLon, cellSizeMeters);
+  const salt = randomBytes(16).toString('base64');
+  const { commitment, key } = await deriveCellSecrets(salt, cell);
+
+  return {
+    encrypted: cipher === 'xor'
+      ? xorEncrypt(message, key).toString('base64')
+      : await sealEnvelope(message, cell),
+    salt,
+    commitment,
+    cellSizeMeters,
+  };
+}
+
+/**
+ * Try our own cell and its neighbours against the commitment
+ * Runs on the receiver's device; fails without revealing where the target is
+ */
+export async function decryptInCell(
+  cellMessage: CellMessage,
+  currentLat: number,
+  currentLon: number
+): Promise<{ success: boolean; message?: string; cell?: string; authFailed?: boolean }> {
+  for (const cell of neighborCellIds(currentLat, currentLon, cellMessage.cellSizeMeters)) {
+    const { commitment, key } = await deriveCellSecrets(cellMessage.salt, cell);
+    if (commitment !== cellMessage.commitment) continue;
+
+    if (isLegacyCiphertext(cellMessage.encrypted)) {
+      const encryptedBytes = Buffer.from(cellMessage.encrypted, 'base64');
+      return { success: true, message: xorDecrypt(encryptedBytes, key), cell };
+    }
+
+    // The commitment matched, so a failure here means the ciphertext was modified
+    const message = await openEnvelope(cellMessage.encrypted, cell);
+    return message === null
+      ? { success: false, cell, authFailed: true }
+      : { success: true, message, cell };
+  }
+  return { success: false };
+}
+
 /**
  * Calculate distance between two coordinates (Haversine formula)
  * Returns distance in meters
@@ -178,7 +398,7 @@ function calculateDistance(
  * Visual demonstration of how location changes the key
  * (Useful for explaining to faculty)
  */
-export function demonstrateLocationBinding() {
+export async function demonstrateLocationBinding() {
   const message = "Secret Meeting at 10PM";
   
   console.log("=== LOCATION-BOUND ENCRYPTION DEMO ===\n");
@@ -209,5 +429,12 @@ export function demonstrateLocationBinding() {
   // Decrypt with correct key → SUCCESS
   const correctDecrypt = xorDecrypt(encrypted1, keyMumbai);
   console.log("Decrypt with CORRECT key:", correctDecrypt);
+  console.log("");
+  
+  // Same with the v2 envelope: the wrong key is DETECTED, not gibberish
+  const sealed = await sealEnvelope(message, locationString(mumbai.lat, mumbai.lon));
+  console.log("v2 envelope:", sealed.substring(0, 48) + "...");
+  console.log("Open with WRONG location:", (await openEnvelope(sealed, locationString(delhi.lat, delhi.lon))) ?? "AUTHENTICATION FAILED");
+  console.log("Open with CORRECT location:", await openEnvelope(sealed, locationString(mumbai.lat, mumbai.lon)));
   console.log("\n=== END DEMO ===");
 }
@@ -7,12 +7,30 @@
  * 3. Officer 2 tries to read at their current location
  * 4. If location matches → message decrypts successfully
  * 5. If location wrong → stays encrypted (gibberish)
+ *
+ * Cell mode: the browser encrypts under a key from the destination's grid
+ * cell, and the receiver's browser decrypts from its own cell - this server
+ * only ever sees ciphertext, salt and commitment (see simple-crypto.ts)
+ *
+ * Every message carries its sender's Ed25519 key: only the sender can delete
+ * or revoke it, and both leave a tombstone so later reads answer 410 Gone
  */
 
 import express from 'express';
 import cors from 'cors';
 import { createServer } from 'http';
-import { encryptMessage, decryptMessage } from './simple-crypto.js';
+import { encryptMessage, decryptMessage, isLegacyCiphertext, type SimpleCipher } from './simple-crypto.js';
+import { createStore } from './store.js';
+import { generateMessageId } from './crypto.js';
+import { verifySenderAction, type SenderAction, type SenderAuthorization } from './sender-auth.js';
+import { describeTombstone, retireMessage } from './sweeper.js';
+import type { Tombstone } from './types.js';
+import {
+  validateSenderAuthorization,
+  validateSimpleCellMessage,
+  validateSimpleDecrypt,
+  validateSimpleMessage,
+} from './validation.js';
 
 const PORT = parseInt(process.env.PORT || '3001');
 
@@ -20,21 +38,68 @@ const PORT = parseInt(process.env.PORT || '3001');
 // Types
 // ============================================================================
 
+type MessageMode = 'target' | 'cell';
+
 interface Message {
   id: string;
-  encrypted: string; // base64 encoded ciphertext
-  targetLat: number;
-  targetLon: number;
-  radiusMeters: number;
+  mode?: MessageMode; // Absent on messages stored before cell mode = 'target'
+  encrypted: string; // v2 AES-GCM envelope, or base64 XOR ciphertext (teaching mode)
+  // Target mode: the server checks the distance itself
+  targetLat?: number;
+  targetLon?: number;
+  radiusMeters?: number;
+  // Cell mode: the server never learns the destination
+  salt?: string;
+  commitment?: string; // PBKDF2(cellId, salt), first 32 bytes
+  cellSizeMeters?: number;
   senderName: string;
+  senderSigningKey: string; // Ed25519 public key allowed to delete or revoke this message
   timestamp: number;
 }
 
+// Request bodies, once validation.ts has checked them
+interface SendRequest {
+  message: string;
+  senderName: string;
+  targetLat: number;
+  targetLon: number;
+  radiusMeters?: number;
+  cipher?: SimpleCipher;
+  senderSigningKey: string;
+}
+
+interface DecryptRequest {
+  messageId: string;
+  currentLat: number;
+  currentLon: number;
+}
+
 // ============================================================================
-// In-Memory Storage (simple for demo)
+// Storage (memory or file, see STORE_DRIVER)
 // ============================================================================
 
-const messages = new Map<string, Message>();
+const messages = createStore<Message>('simple-messages');
+const tombstones = createStore<Tombstone>('simple-tombstones');
+
+/**
+ * Load a message, or answer 410 (deleted/revoked) or 404 and return null
+ */
+async function findLiveMessage(id: string, res: express.Response): Promise<Message | null> {
+  const message = await messages.get(id);
+  if (message) return message;
+  
+  const tombstone = await tombstones.get(id);
+  if (tombstone) {
+    res.status(410).json({
+      error: describeTombstone(tombstone),
+      reason: tombstone.reason,
+      removedAt: tombstone.removedAt,
+    });
+  } else {
+    res.status(404).json({ error: 'Message not found' });
+  }
+  return null;
+}
 
 // ============================================================================
 // Express REST API
@@ -45,13 +110,18 @@ app.use(cors());
 app.use(express.json({ limit: '1mb' }));
 
 // Health check
-app.get('/health', (req, res) => {
-  res.json({
-    status: 'ok',
-    service: 'location-bound-messaging (SIMPLIFIED)',
-    messagesStored: messages.size,
-    timestamp: Date.now(),
-  });
+app.get('/health', async (req, res) => {
+  try {
+    res.json({
+      status: 'ok',
+      service: 'location-bound-messaging (SIMPLIFIED)',
+      messagesStored: await messages.size(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error('Health check failed:', error);
+    res.status(500).json({ status: 'error', error: 'Storage unavailable' });
+  }
 });
 
 /**
@@ -63,43 +133,53 @@ app.get('/health', (req, res) => {
  *   "senderName": "Officer Alpha",
  *   "targetLat": 19.0760,
  *   "targetLon": 72.8777,
- *   "radiusMeters": 100
+ *   "radiusMeters": 100,
+ *   "cipher": "aes-gcm" | "xor",      (optional, "xor" = teaching mode)
+ *   "senderSigningKey": "base64..."   (Ed25519 public key, signs delete/revoke later)
  * }
  */
-app.post('/api/send', (req, res) => {
+app.post('/api/send', async (req, res) => {
   try {
-    const { message, senderName, targetLat, targetLon, radiusMeters = 100 } = req.body;
+    if (req.body?.mode === 'cell') {
+      return await storeCellMessage(req, res);
+    }
     
     // Validation
-    if (!message || !senderName || targetLat === undefined || targetLon === undefined) {
-      return res.status(400).json({
-        error: 'Missing required fields: message, senderName, targetLat, targetLon'
-      });
+    const errors = validateSimpleMessage(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid message', details: errors });
     }
     
+    const {
+      message, senderName, targetLat, targetLon, radiusMeters = 100, cipher = 'aes-gcm', senderSigningKey
+    }: SendRequest = req.body;
+    
     // Encrypt message bound to location
-    const encrypted = encryptMessage(message, targetLat, targetLon, radiusMeters);
+    const encrypted = await encryptMessage(message, targetLat, targetLon, radiusMeters, cipher);
     
     // Create message ID
-    const id = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const id = generateMessageId();
     
     // Store message
     const storedMessage: Message = {
       id,
+      mode: 'target',
       encrypted: encrypted.encrypted,
       targetLat: encrypted.lat,
       targetLon: encrypted.lon,
       radiusMeters: encrypted.radius,
       senderName,
+      senderSigningKey,
       timestamp: Date.now(),
     };
     
-    messages.set(id, storedMessage);
+    await messages.insert(id, storedMessage);
     
     console.log(`✓ Message sent by ${senderName}`);
     console.log(`  ID: ${id}`);
     console.log(`  Target: (${targetLat.toFixed(4)}, ${targetLon.toFixed(4)})`);
     console.log(`  Radius: ${radiusMeters}m`);
+    console.log(`  Cipher: ${encrypted.cipher}`);
     console.log(`  Original: "${message}"`);
     console.log(`  Encrypted: ${encrypted.encrypted.substring(0, 32)}...`);
     
@@ -107,6 +187,7 @@ app.post('/api/send', (req, res) => {
       success: true,
       messageId: id,
       encrypted: encrypted.encrypted,
+      cipher: encrypted.cipher,
       target: {
         lat: targetLat,
         lon: targetLon,
@@ -120,23 +201,76 @@ app.post('/api/send', (req, res) => {
 });
 
 /**
- * STEP 2: Get list of all messages (for Officer 2 to see available messages)
+ * STEP 1 (cell mode): store a message the browser already encrypted
+ * 
+ * Request:
+ * {
+ *   "mode": "cell",
+ *   "encrypted": "v2...",     (envelope keyed by the cell id; bare base64 = XOR)
+ *   "salt": "base64...",
+ *   "commitment": "hex PBKDF2(cellId, salt), first 32 bytes",
+ *   "cellSizeMeters": 100,
+ *   "senderName": "Officer Alpha",
+ *   "senderSigningKey": "base64..."
+ * }
  */
-app.get('/api/messages', (req, res) => {
-  const messageList = Array.from(messages.values()).map(msg => ({
-    id: msg.id,
-    senderName: msg.senderName,
-    encrypted: msg.encrypted,
-    targetLat: msg.targetLat,
-    targetLon: msg.targetLon,
-    radiusMeters: msg.radiusMeters,
-    timestamp: msg.timestamp,
-  }));
+async function storeCellMessage(req: express.Request, res: express.Response) {
+  // Validation
+  const errors = validateSimpleCellMessage(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid message', details: errors });
+  }
   
-  res.json({
-    messages: messageList,
-    count: messageList.length,
+  const { encrypted, salt, commitment, cellSizeMeters, senderName, senderSigningKey } = req.body;
+  
+  const id = generateMessageId();
+  await messages.insert(id, {
+    id,
+    mode: 'cell',
+    encrypted,
+    salt,
+    commitment,
+    cellSizeMeters,
+    senderName,
+    senderSigningKey,
+    timestamp: Date.now(),
   });
+  
+  console.log(`✓ Cell-mode message sent by ${senderName}`);
+  console.log(`  ID: ${id}`);
+  console.log(`  Cell size: ${cellSizeMeters}m (destination unknown to the server)`);
+  
+  res.json({ success: true, messageId: id, encrypted });
+}
+
+/**
+ * STEP 2: Get list of all messages (for Officer 2 to see available messages)
+ */
+app.get('/api/messages', async (req, res) => {
+  try {
+    const messageList = (await messages.values()).map(msg => ({
+      id: msg.id,
+      mode: msg.mode ?? 'target',
+      cipher: isLegacyCiphertext(msg.encrypted) ? 'xor' : 'aes-gcm',
+      senderName: msg.senderName,
+      encrypted: msg.encrypted,
+      targetLat: msg.targetLat,
+      targetLon: msg.targetLon,
+      radiusMeters: msg.radiusMeters,
+      salt: msg.salt,
+      commitment: msg.commitment,
+      cellSizeMeters: msg.cellSizeMeters,
+      timestamp: msg.timestamp,
+    }));
+    
+    res.json({
+      messages: messageList,
+      count: messageList.length,
+    });
+  } catch (error) {
+    console.error('Error listing messages:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
 /**
@@ -163,31 +297,38 @@ app.get('/api/messages', (req, res) => {
  *   "required": 100
  * }
  */
-app.post('/api/decrypt', (req, res) => {
+app.post('/api/decrypt', async (req, res) => {
   try {
-    const { messageId, currentLat, currentLon } = req.body;
-    
     // Validation
-    if (!messageId || currentLat === undefined || currentLon === undefined) {
-      return res.status(400).json({
-        error: 'Missing required fields: messageId, currentLat, currentLon'
-      });
+    const errors = validateSimpleDecrypt(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid decrypt request', details: errors });
     }
     
+    const { messageId, currentLat, currentLon }: DecryptRequest = req.body;
+    
     // Get message
-    const message = messages.get(messageId);
-    if (!message) {
-      return res.status(404).json({ error: 'Message not found' });
+    const message = await findLiveMessage(messageId, res);
+    if (!message) return;
+    
+    // The server cannot help with cell mode - it does not know the destination
+    if (message.mode === 'cell') {
+      return res.status(400).json({
+        error: 'Cell-mode messages are decrypted on the receiver\'s device'
+      });
     }
+    const targetLat = message.targetLat!;
+    const targetLon = message.targetLon!;
+    const radiusMeters = message.radiusMeters!;
     
     // Try to decrypt at current location
-    const result = decryptMessage(
+    const result = await decryptMessage(
       message.encrypted,
       currentLat,
       currentLon,
-      message.targetLat,
-      message.targetLon,
-      message.radiusMeters
+      targetLat,
+      targetLon,
+      radiusMeters
     );
     
     if (result.success) {
@@ -201,19 +342,31 @@ app.post('/api/decrypt', (req, res) => {
         success: true,
         message: result.message,
         distance: result.distance,
+        cipher: result.cipher,
         senderName: message.senderName,
       });
+    } else if (result.authFailed) {
+      // Right place, but the envelope does not authenticate - never show gibberish
+      console.log(`✗ Decryption failed - message failed authentication`);
+      console.log(`  ID: ${messageId}`);
+      
+      return res.json({
+        success: false,
+        authFailed: true,
+        distance: result.distance,
+        error: 'Message failed authentication - it was modified or the key is wrong',
+      });
     } else {
       console.log(`✗ Decryption failed - wrong location`);
       console.log(`  ID: ${messageId}`);
       console.log(`  Current: (${currentLat.toFixed(4)}, ${currentLon.toFixed(4)})`);
-      console.log(`  Target: (${message.targetLat.toFixed(4)}, ${message.targetLon.toFixed(4)})`);
-      console.log(`  Distance: ${result.distance}m (required: ${message.radiusMeters}m)`);
+      console.log(`  Target: (${targetLat.toFixed(4)}, ${targetLon.toFixed(4)})`);
+      console.log(`  Distance: ${result.distance}m (required: ${radiusMeters}m)`);
       
       return res.json({
         success: false,
         distance: result.distance,
-        required: message.radiusMeters,
+        required: radiusMeters,
         encrypted: message.encrypted,
       });
     }
@@ -224,19 +377,48 @@ app.post('/api/decrypt', (req, res) => {
 });
 
 /**
- * Delete a message
+ * Delete or revoke a message (only the sender can)
+ * Both leave a tombstone, so a later read answers 410 with the reason
+ * 
+ * Request:
+ * {
+ *   "timestamp": 1699564800000,
+ *   "signature": "base64..."   Ed25519 over {"action":"delete"|"revoke","messageId":...,"timestamp":...}
+ * }
  */
-app.delete('/api/messages/:id', (req, res) => {
-  const { id } = req.params;
-  const deleted = messages.delete(id);
-  
-  if (deleted) {
-    console.log(`✓ Message deleted: ${id}`);
-    res.json({ success: true });
-  } else {
-    res.status(404).json({ error: 'Message not found' });
-  }
-});
+function handleSenderAction(action: SenderAction) {
+  return async (req: express.Request, res: express.Response) => {
+    try {
+      const { id } = req.params;
+      
+      // Validation
+      const errors = validateSenderAuthorization(req.body);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid sender authorization', details: errors });
+      }
+      
+      const message = await findLiveMessage(id, res);
+      if (!message) return;
+      
+      const auth: SenderAuthorization = req.body;
+      const check = verifySenderAction(message.senderSigningKey, action, id, auth);
+      if (!check.valid) {
+        console.log(`✗ ${action} rejected for ${id}: ${check.reason}`);
+        return res.status(403).json({ error: check.reason });
+      }
+      
+      const tombstone = await retireMessage(messages, tombstones, id, action === 'delete' ? 'deleted' : 'revoked');
+      console.log(`✓ Message ${tombstone.reason}: ${id}`);
+      res.json({ success: true, removedAt: tombstone.removedAt });
+    } catch (error) {
+      console.error(`Error during ${action}:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
+app.delete('/api/messages/:id', handleSenderAction('delete'));
+app.post('/api/messages/:id/revoke', handleSenderAction('revoke'));
 
 // ============================================================================
 // Server Startup
@@ -251,14 +433,14 @@ httpServer.listen(PORT, '0.0.0.0', () => {
   console.log(`  Server running on: http://localhost:${PORT}`);
   console.log(`  LAN access:        http://<your-ip>:${PORT}`);
   console.log('');
-  console.log('  Crypto: SHA-256 + XOR (easy to explain!)');
+  console.log('  Crypto: PBKDF2 + AES-256-GCM (XOR teaching mode on request)');
   console.log('  Ready for faculty demonstration');
   console.log('═══════════════════════════════════════════════════════════════');
   console.log('');
   console.log('HOW IT WORKS:');
   console.log('1. Officer 1 sends message + destination location');
-  console.log('2. SHA-256 creates encryption key from lat/lon coordinates');
-  console.log('3. Message encrypted with XOR cipher');
+  console.log('2. PBKDF2 derives the encryption key from lat/lon coordinates');
+  console.log('3. Message encrypted with AES-GCM (or XOR in teaching mode)');
   console.log('4. Officer 2 can ONLY decrypt at the correct location');
   console.log('5. Wrong location = stays encrypted (gibberish)');
   console.log('═══════════════════════════════════════════════════════════════');
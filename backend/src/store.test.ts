@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileStore, MemoryStore, createStore, type MessageStore } from './store.js';
+
+interface Entry {
+  id: string;
+  body: string;
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lbm-store-'));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+// ============================================================================
+// MessageStore Contract
+// ============================================================================
+
+describe.each([
+  ['MemoryStore', () => new MemoryStore<Entry>()],
+  ['FileStore', () => new FileStore<Entry>(path.join(dir, 'records.json'))],
+])('%s', (_name, create: () => MessageStore<Entry>) => {
+  it('sets, gets and overwrites records', async () => {
+    const store = create();
+    expect(await store.get('a')).toBeUndefined();
+    await store.set('a', { id: 'a', body: 'one' });
+    await store.set('a', { id: 'a', body: 'two' });
+    expect(await store.get('a')).toEqual({ id: 'a', body: 'two' });
+    expect(await store.size()).toBe(1);
+  });
+
+  it('inserts only under a free id', async () => {
+    const store = create();
+    expect(await store.insert('a', { id: 'a', body: 'one' })).toBe(true);
+    expect(await store.insert('a', { id: 'a', body: 'two' })).toBe(false);
+    expect(await store.get('a')).toEqual({ id: 'a', body: 'one' });
+  });
+
+  it('deletes records and lists the rest', async () => {
+    const store = create();
+    await store.set('a', { id: 'a', body: 'one' });
+    await store.set('b', { id: 'b', body: 'two' });
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.delete('a')).toBe(false);
+    expect(await store.values()).toEqual([{ id: 'b', body: 'two' }]);
+  });
+});
+
+// ============================================================================
+// File Store Persistence
+// ============================================================================
+
+describe('FileStore persistence', () => {
+  it('round-trips records across a restart', async () => {
+    const filePath = path.join(dir, 'nested', 'records.json');
+    const before = new FileStore<Entry>(filePath);
+    await before.insert('a', { id: 'a', body: 'one' });
+    await before.set('b', { id: 'b', body: 'two' });
+    await before.delete('a');
+
+    const after = new FileStore<Entry>(filePath);
+    expect(await after.get('a')).toBeUndefined();
+    expect(await after.get('b')).toEqual({ id: 'b', body: 'two' });
+    expect(await after.insert('b', { id: 'b', body: 'taken' })).toBe(false);
+  });
+
+  it('keeps every concurrent write and leaves no temp file', async () => {
+    const filePath = path.join(dir, 'records.json');
+    const store = new FileStore<Entry>(filePath);
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) => store.insert(`id-${i}`, { id: `id-${i}`, body: String(i) }))
+    );
+
+    expect(await new FileStore<Entry>(filePath).size()).toBe(20);
+    expect(await fs.readdir(dir)).toEqual(['records.json']);
+  });
+
+  it('starts empty when the file does not exist yet', async () => {
+    expect(await new FileStore<Entry>(path.join(dir, 'missing.json')).values()).toEqual([]);
+  });
+
+  it('refuses to start from a corrupt file', async () => {
+    const filePath = path.join(dir, 'records.json');
+    await fs.writeFile(filePath, '{ not json', 'utf8');
+    await expect(new FileStore<Entry>(filePath).get('a')).rejects.toThrow();
+  });
+});
+
+// ============================================================================
+// Store Selection
+// ============================================================================
+
+describe('createStore', () => {
+  it('defaults to memory', () => {
+    vi.stubEnv('STORE_DRIVER', '');
+    expect(createStore('records')).toBeInstanceOf(MemoryStore);
+    expect(createStore('records')).not.toBeInstanceOf(FileStore);
+  });
+
+  it('writes a named file under STORE_DIR with the file driver', async () => {
+    vi.stubEnv('STORE_DRIVER', 'file');
+    vi.stubEnv('STORE_DIR', dir);
+    const store = createStore<Entry>('records');
+    expect(store).toBeInstanceOf(FileStore);
+
+    await store.set('a', { id: 'a', body: 'one' });
+    expect(JSON.parse(await fs.readFile(path.join(dir, 'records.json'), 'utf8'))).toEqual({
+      a: { id: 'a', body: 'one' },
+    });
+  });
+
+  it('rejects an unknown driver', () => {
+    vi.stubEnv('STORE_DRIVER', 'redis');
+    expect(() => createStore('records')).toThrow(/Unknown STORE_DRIVER: redis/);
+  });
+});
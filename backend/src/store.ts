@@ -0,0 +1,183 @@
+/**
+ * Pluggable Storage
+ *
+ * This module handles:
+ * - The MessageStore interface every REST route reads and writes through
+ * - An in-memory implementation (state is lost on restart)
+ * - An embedded JSON-file implementation (state survives restarts)
+ * - Selecting the implementation from the environment
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Async key/value store for server-side records
+ * Async so that database-backed implementations can be dropped in later
+ */
+export interface MessageStore<T> {
+  get(id: string): Promise<T | undefined>;
+  set(id: string, value: T): Promise<void>;
+  insert(id: string, value: T): Promise<boolean>; // false if the id is already taken
+  delete(id: string): Promise<boolean>;
+  values(): Promise<T[]>;
+  size(): Promise<number>;
+}
+
+export type StoreDriver = 'memory' | 'file';
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Map-backed store (for demo and tests - nothing is persisted)
+ */
+export class MemoryStore<T> implements MessageStore<T> {
+  protected records = new Map<string, T>();
+
+  async get(id: string): Promise<T | undefined> {
+    return this.records.get(id);
+  }
+
+  async set(id: string, value: T): Promise<void> {
+    this.records.set(id, value);
+  }
+
+  async insert(id: string, value: T): Promise<boolean> {
+    if (this.records.has(id)) return false;
+    this.records.set(id, value);
+    return true;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+
+  async values(): Promise<T[]> {
+    return Array.from(this.records.values());
+  }
+
+  async size(): Promise<number> {
+    return this.records.size;
+  }
+}
+
+// ============================================================================
+// File Store
+// ============================================================================
+
+/**
+ * JSON-file store
+ * Keeps a Map in memory and rewrites the file after every change.
+ * Writes go to a temp file first and are renamed into place, so a crash
+ * mid-write never leaves a truncated store behind.
+ */
+export class FileStore<T> extends MemoryStore<T> {
+  private loaded: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    await this.load();
+    return super.get(id);
+  }
+
+  async set(id: string, value: T): Promise<void> {
+    await this.load();
+    await super.set(id, value);
+    await this.persist();
+  }
+
+  async insert(id: string, value: T): Promise<boolean> {
+    await this.load();
+    const inserted = await super.insert(id, value);
+    if (inserted) {
+      await this.persist();
+    }
+    return inserted;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = await super.delete(id);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  async values(): Promise<T[]> {
+    await this.load();
+    return super.values();
+  }
+
+  async size(): Promise<number> {
+    await this.load();
+    return super.size();
+  }
+
+  /**
+   * Read the file once, on first access
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const contents = await fs.readFile(this.filePath, 'utf8');
+          const entries: Record<string, T> = JSON.parse(contents);
+          this.records = new Map(Object.entries(entries));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+          }
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Queue a snapshot write behind any write already in flight
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(Object.fromEntries(this.records));
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, snapshot, 'utf8');
+        await fs.rename(tmpPath, this.filePath);
+      });
+    return this.writing;
+  }
+}
+
+// ============================================================================
+// Store Selection
+// ============================================================================
+
+/**
+ * Create a store for a named collection using STORE_DRIVER / STORE_DIR
+ * e.g. createStore('messages') -> ./data/messages.json with STORE_DRIVER=file
+ */
+export function createStore<T>(name: string): MessageStore<T> {
+  const driver = (process.env.STORE_DRIVER || 'memory') as StoreDriver;
+
+  switch (driver) {
+    case 'memory':
+      return new MemoryStore<T>();
+    case 'file':
+      return new FileStore<T>(path.resolve(process.env.STORE_DIR || './data', `${name}.json`));
+    default:
+      throw new Error(`Unknown STORE_DRIVER: ${driver} (expected "memory" or "file")`);
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryStore } from './store.js';
+import { ExpirySweeper, describeTombstone, getExpiryReason, retireMessage } from './sweeper.js';
+import type { StoredMessage, Tombstone } from './types.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 0, 1);
+
+const message = (id: string, windowEnd: number, expiresAt?: number) => ({
+  id,
+  locationBinding: { windowStart: 0, windowEnd },
+  metadata: { created: 0, expiresAt },
+} as StoredMessage);
+
+function setup(onRetire?: (id: string) => Promise<void>) {
+  const messages = new MemoryStore<StoredMessage>();
+  const tombstones = new MemoryStore<Tombstone>();
+  const sweeper = new ExpirySweeper(messages, tombstones, { intervalMs: 60_000, tombstoneTtlMs: 30 * DAY, onRetire });
+  return { messages, tombstones, sweeper };
+}
+
+// ============================================================================
+// Expiry Rules
+// ============================================================================
+
+describe('getExpiryReason', () => {
+  it('keeps a live message', () => {
+    expect(getExpiryReason(message('live', NOW + DAY, NOW + DAY), NOW)).toBeNull();
+  });
+
+  it('reports an expired message before a closed window', () => {
+    expect(getExpiryReason(message('old', NOW - DAY, NOW - 1), NOW)).toBe('expired');
+    expect(getExpiryReason(message('closed', NOW - 1), NOW)).toBe('window-closed');
+  });
+});
+
+describe('retireMessage', () => {
+  it('replaces the message with a tombstone', async () => {
+    const { messages, tombstones } = setup();
+    await messages.set('msg-1', message('msg-1', NOW + DAY));
+
+    const tombstone = await retireMessage(messages, tombstones, 'msg-1', 'revoked');
+    expect(await messages.get('msg-1')).toBeUndefined();
+    expect(await tombstones.get('msg-1')).toEqual(tombstone);
+    expect(tombstone).toMatchObject({ id: 'msg-1', reason: 'revoked' });
+  });
+
+  it('explains each tombstone in the 410 answer', () => {
+    const explain = (reason: Tombstone['reason']) => describeTombstone({ id: 'msg-1', reason, removedAt: 0 });
+    expect(explain('expired')).toBe('Message expired');
+    expect(explain('window-closed')).toBe('Message time window has closed');
+    expect(explain('revoked')).toBe('Message revoked by sender');
+    expect(explain('deleted')).toBe('Message deleted by sender');
+  });
+});
+
+// ============================================================================
+// Background Sweeper
+// ============================================================================
+
+describe('ExpirySweeper', () => {
+  it('purges dead messages and leaves tombstones', async () => {
+    const onRetire = vi.fn(async () => undefined);
+    const { messages, tombstones, sweeper } = setup(onRetire);
+    await messages.set('live', message('live', NOW + DAY));
+    await messages.set('expired', message('expired', NOW + DAY, NOW - 1));
+    await messages.set('closed', message('closed', NOW - 1));
+
+    expect(await sweeper.sweep(NOW)).toBe(2);
+    expect((await messages.values()).map(({ id }) => id)).toEqual(['live']);
+    expect(await tombstones.get('expired')).toMatchObject({ reason: 'expired' });
+    expect(await tombstones.get('closed')).toMatchObject({ reason: 'window-closed' });
+    expect(onRetire.mock.calls).toEqual([['expired'], ['closed']]);
+    expect(sweeper.getStats()).toMatchObject({ runs: 1, messagesPurged: 2, lastError: null });
+  });
+
+  it('forgets tombstones older than the TTL', async () => {
+    const { tombstones, sweeper } = setup();
+    await tombstones.set('stale', { id: 'stale', reason: 'expired', removedAt: NOW - 31 * DAY });
+    await tombstones.set('recent', { id: 'recent', reason: 'revoked', removedAt: NOW - DAY });
+
+    await sweeper.sweep(NOW);
+    expect(await tombstones.get('stale')).toBeUndefined();
+    expect(await tombstones.get('recent')).toBeDefined();
+    expect(sweeper.getStats().tombstonesPurged).toBe(1);
+  });
+
+  it('records a failed sweep', async () => {
+    const { messages, sweeper } = setup();
+    vi.spyOn(messages, 'values').mockRejectedValue(new Error('disk full'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(sweeper.sweep(NOW)).rejects.toThrow('disk full');
+    expect(sweeper.getStats()).toMatchObject({ runs: 1, lastError: 'disk full' });
+    vi.restoreAllMocks();
+  });
+
+  it('skips a sweep while the previous one is running', async () => {
+    const { messages, sweeper } = setup();
+    await messages.set('closed', message('closed', NOW - 1));
+
+    const [first, second] = await Promise.all([sweeper.sweep(NOW), sweeper.sweep(NOW)]);
+    expect([first, second]).toEqual([1, 0]);
+  });
+
+  it('sweeps on its interval until stopped', async () => {
+    vi.useFakeTimers();
+    const { messages, sweeper } = setup();
+    await messages.set('closed', message('closed', 1));
+
+    sweeper.start();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(await messages.size()).toBe(0);
+
+    sweeper.stop();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(sweeper.getStats().runs).toBe(1);
+    vi.useRealTimers();
+  });
+});
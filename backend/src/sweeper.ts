@@ -0,0 +1,171 @@
+/**
+ * Expiry Sweeper
+ *
+ * This module handles:
+ * - Deciding when a stored message is past its expiry or time window
+ * - Replacing purged messages with small tombstone records
+ * - A scheduled background sweep with statistics for /health
+ */
+
+import type { MessageStore } from './store.js';
+import type { StoredMessage, Tombstone, TombstoneReason } from './types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SweeperConfig {
+  intervalMs: number;
+  tombstoneTtlMs: number; // How long 410 answers are kept before falling back to 404
+  onRetire?: (id: string) => Promise<void>; // Drop per-message side state (e.g. threshold shares)
+}
+
+export interface SweepStats {
+  runs: number;
+  lastRunAt: number | null;
+  lastDurationMs: number | null;
+  lastError: string | null;
+  messagesPurged: number;
+  tombstonesPurged: number;
+}
+
+// ============================================================================
+// Expiry Rules
+// ============================================================================
+
+/**
+ * Return why a message should be purged, or null if it is still live
+ */
+export function getExpiryReason(
+  message: StoredMessage,
+  now: number = Date.now()
+): TombstoneReason | null {
+  if (message.metadata?.expiresAt && now > message.metadata.expiresAt) {
+    return 'expired';
+  }
+  if (message.locationBinding?.windowEnd && now > message.locationBinding.windowEnd) {
+    return 'window-closed';
+  }
+  return null;
+}
+
+/**
+ * Human-readable error for a tombstoned message
+ */
+export function describeTombstone(tombstone: Tombstone): string {
+  switch (tombstone.reason) {
+    case 'expired':
+      return 'Message expired';
+    case 'window-closed':
+      return 'Message time window has closed';
+    case 'revoked':
+      return 'Message revoked by sender';
+    case 'deleted':
+      return 'Message deleted by sender';
+  }
+}
+
+/**
+ * Delete a message and leave a tombstone in its place
+ */
+export async function retireMessage<T>(
+  messages: MessageStore<T>,
+  tombstones: MessageStore<Tombstone>,
+  id: string,
+  reason: TombstoneReason
+): Promise<Tombstone> {
+  const tombstone: Tombstone = { id, reason, removedAt: Date.now() };
+  await tombstones.set(id, tombstone);
+  await messages.delete(id);
+  return tombstone;
+}
+
+// ============================================================================
+// Background Sweeper
+// ============================================================================
+
+export class ExpirySweeper {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private stats: SweepStats = {
+    runs: 0,
+    lastRunAt: null,
+    lastDurationMs: null,
+    lastError: null,
+    messagesPurged: 0,
+    tombstonesPurged: 0,
+  };
+
+  constructor(
+    private readonly messages: MessageStore<StoredMessage>,
+    private readonly tombstones: MessageStore<Tombstone>,
+    private readonly config: SweeperConfig
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sweep().catch(() => undefined);
+    }, this.config.intervalMs);
+    // Never keep the process alive just for the sweeper
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one sweep: purge dead messages, then forget stale tombstones
+   * Returns the number of messages purged in this run
+   */
+  async sweep(now: number = Date.now()): Promise<number> {
+    // Skip if the previous sweep is still running
+    if (this.running) return 0;
+    this.running = true;
+
+    const startedAt = Date.now();
+    let purged = 0;
+    try {
+      for (const message of await this.messages.values()) {
+        const reason = getExpiryReason(message, now);
+        if (reason) {
+          await retireMessage(this.messages, this.tombstones, message.id, reason);
+          await this.config.onRetire?.(message.id);
+          purged++;
+        }
+      }
+
+      for (const tombstone of await this.tombstones.values()) {
+        if (now - tombstone.removedAt > this.config.tombstoneTtlMs) {
+          await this.tombstones.delete(tombstone.id);
+          this.stats.tombstonesPurged++;
+        }
+      }
+
+      this.stats.lastError = null;
+      if (purged > 0) {
+        console.log(`[SWEEP] Purged ${purged} expired message(s)`);
+      }
+    } catch (error) {
+      this.stats.lastError = (error as Error).message;
+      console.error('[SWEEP] Sweep failed:', error);
+      throw error;
+    } finally {
+      this.stats.runs++;
+      this.stats.lastRunAt = startedAt;
+      this.stats.lastDurationMs = Date.now() - startedAt;
+      this.stats.messagesPurged += purged;
+      this.running = false;
+    }
+
+    return purged;
+  }
+
+  getStats(): SweepStats {
+    return { ...this.stats };
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Threshold Unlock (k-of-n)
+ *
+ * This module handles:
+ * - Contribution tokens, issued by a verified /unlock to a threshold recipient
+ *   and sealed to that recipient's public key
+ * - Collecting each on-site recipient's Shamir share of K_msg (once each)
+ * - Releasing shares to contributors once k recipients have been on site
+ *
+ * The server never sees a share in the clear: every contributor seals its
+ * share to each other recipient with nacl.box, and the server only stores
+ * and forwards those sealed boxes.
+ *
+ * A token is an HMAC over (message, recipient key), so issuing it again never
+ * revokes an earlier one. It is only handed out inside a box sealed to the
+ * recipient key: whoever claims someone else's key at /unlock gets a token
+ * they cannot open.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { hmacSha256, sealToPublicKey } from './crypto.js';
+import type { MessageStore } from './store.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One recipient's share, sealed (nacl.box) from the contributor to `to`
+ */
+export interface SealedShare {
+  to: string; // Recipient X25519 public key
+  ciphertext: string;
+  nonce: string;
+}
+
+export interface ShareContribution {
+  contributedAt: number;
+  shares: SealedShare[];
+}
+
+/**
+ * Per-message collection state
+ */
+export interface ThresholdState {
+  messageId: string;
+  contributions: Record<string, ShareContribution>; // keyed by contributor public key
+}
+
+/**
+ * Contribution token sealed (nacl.box) from a one-time key to the recipient
+ */
+export interface SealedToken {
+  ciphertext: string;
+  nonce: string;
+  ephemeralPublicKey: string;
+}
+
+export interface ThresholdStatus {
+  threshold: number;
+  recipients: number;
+  contributed: number;
+  contributors: string[];
+  complete: boolean;
+}
+
+// ============================================================================
+// Share Collector
+// ============================================================================
+
+export class ShareCollector {
+  /**
+   * `tokenKey` is a server secret kept outside the store (see index.ts)
+   */
+  constructor(
+    private readonly states: MessageStore<ThresholdState>,
+    private readonly tokenKey: string
+  ) {}
+
+  private async load(messageId: string): Promise<ThresholdState> {
+    return (await this.states.get(messageId)) ?? { messageId, contributions: {} };
+  }
+
+  private token(messageId: string, recipientPublicKey: string): string {
+    return hmacSha256(`${messageId}:${recipientPublicKey}`, this.tokenKey);
+  }
+
+  /**
+   * Issue a contribution token after a recipient's attestation verified,
+   * sealed so only the holder of the recipient's private key can read it
+   */
+  issueToken(messageId: string, recipientPublicKey: string): SealedToken {
+    return sealToPublicKey(this.token(messageId, recipientPublicKey), recipientPublicKey);
+  }
+
+  private checkToken(messageId: string, recipientPublicKey: string, token: string): boolean {
+    const expected = Buffer.from(this.token(messageId, recipientPublicKey), 'base64');
+    const presented = Buffer.from(token, 'base64');
+    return presented.length === expected.length && timingSafeEqual(presented, expected);
+  }
+
+  /**
+   * Record a recipient's sealed shares - once, a contribution is never replaced
+   * `recipients` is every recipient public key of the message
+   */
+  async contribute(
+    messageId: string,
+    recipientPublicKey: string,
+    token: string,
+    shares: SealedShare[],
+    recipients: string[]
+  ): Promise<{ status: number; reason?: string }> {
+    if (!this.checkToken(messageId, recipientPublicKey, token)) {
+      return { status: 403, reason: 'Invalid contribution token - unlock at the location first' };
+    }
+
+    const state = await this.load(messageId);
+    if (state.contributions[recipientPublicKey]) {
+      return { status: 409, reason: 'Share already contributed for this recipient' };
+    }
+
+    const others = recipients.filter(key => key !== recipientPublicKey);
+    const addressed = new Set(shares.map(share => share.to));
+    if (addressed.size !== shares.length || others.some(key => !addressed.has(key)) || addressed.size !== others.length) {
+      return { status: 400, reason: 'Exactly one sealed share is required for every other recipient' };
+    }
+
+    state.contributions[recipientPublicKey] = { contributedAt: Date.now(), shares };
+    await this.states.set(messageId, state);
+    return { status: 200 };
+  }
+
+  async status(messageId: string, threshold: number, recipients: number): Promise<ThresholdStatus> {
+    const state = await this.load(messageId);
+    const contributors = Object.keys(state.contributions);
+    return {
+      threshold,
+      recipients,
+      contributed: contributors.length,
+      contributors,
+      complete: contributors.length >= threshold,
+    };
+  }
+
+  /**
+   * Shares sealed to a contributor, released only once k recipients contributed
+   */
+  async collect(
+    messageId: string,
+    recipientPublicKey: string,
+    token: string,
+    threshold: number
+  ): Promise<{ status: number; reason?: string; shares?: Array<SealedShare & { from: string }> }> {
+    const state = await this.load(messageId);
+
+    if (!this.checkToken(messageId, recipientPublicKey, token) || !state.contributions[recipientPublicKey]) {
+      return { status: 403, reason: 'Only recipients who contributed their own share may collect' };
+    }
+    if (Object.keys(state.contributions).length < threshold) {
+      return { status: 200 };
+    }
+
+    const shares = Object.entries(state.contributions).flatMap(([from, contribution]) =>
+      contribution.shares
+        .filter(share => share.to === recipientPublicKey)
+        .map(share => ({ ...share, from }))
+    );
+    return { status: 200, shares };
+  }
+
+  async forget(messageId: string): Promise<void> {
+    await this.states.delete(messageId);
+  }
+}
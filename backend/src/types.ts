@@ -0,0 +1,163 @@
+/**
+ * Shared message types
+ *
+ * Records persisted by the backend and the request bodies that carry them.
+ */
+
+import type { Geofence, VerticalConstraint } from './geofence.js';
+import type { LocationAttestation } from './location.js';
+import type { RecurringSchedule } from './schedule.js';
+
+// ============================================================================
+// Stored Records
+// ============================================================================
+
+/**
+ * Sender-chosen verification rules for one message
+ * Unset fields fall back to the server defaults
+ */
+export interface VerificationPolicy {
+  maxAttestationAgeSec?: number;
+  minDwellSec?: number; // Required continuous presence inside the geofence (0 = off)
+  maxSpeedMps?: number; // Movement-history speed ceiling
+  maxAccuracyMeters?: number; // Reject GPS fixes coarser than this
+  minConfidence?: number; // 0..1 share of the accuracy circle that must fall inside the geofence
+}
+
+/**
+ * K_msg wrapped for one recipient (see recipients.ts)
+ */
+export interface RecipientWrap {
+  recipientPublicKey: string;
+  wrappedKey: string; // K_msg wrapped with this recipient's K_loc_input
+  wrappedKeyNonce: string;
+  wrappedKeyAuthTag: string;
+  stageWraps?: StageWrap[]; // One per waypoint, see waypoints.ts
+  prekeyId?: number; // Set when recipientPublicKey is a one-time prekey from the key directory
+}
+
+/**
+ * AES-GCM box under the server seal key (see sealing.ts)
+ */
+export interface SealedWrap {
+  ciphertext: string; // JSON of the wrap material: wrappedKey, nonce, tag and stageWraps
+  nonce: string;
+  authTag: string;
+}
+
+/**
+ * A recipient as stored: the wrap is only opened after a verified /unlock
+ */
+export interface StoredRecipient {
+  recipientPublicKey: string;
+  prekeyId?: number;
+  sealedWrap: SealedWrap;
+}
+
+/**
+ * Chain key C_{i+1} wrapped under the key of waypoint stage i
+ */
+export interface StageWrap {
+  wrappedKey: string;
+  wrappedKeyNonce: string;
+  wrappedKeyAuthTag: string;
+}
+
+/**
+ * An intermediate stop of a waypoint chain, visited before the final location
+ * Shares the binding's time window, schedule and policy
+ */
+export interface Waypoint {
+  label?: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  nonce: string; // Used in the stage key derivation
+  geofence?: Geofence;
+}
+
+/**
+ * Algorithms a message is encrypted with: X25519 key agreement and HKDF-SHA256
+ * in every suite, then the AEAD used for the payload and every key wrap
+ */
+export type CipherSuite =
+  | 'X25519-HKDF-SHA256-AES256GCM'
+  | 'X25519-HKDF-SHA256-XSALSA20POLY1305'; // nacl.secretbox (tweetnacl has no XChaCha20)
+
+/**
+ * Format version and suite, so crypto.ts can change without breaking stored messages
+ */
+export interface MessageEnvelope {
+  version: number; // 1 = fixed "LocationBoundMessaging-v1" HKDF salt, AES-GCM only
+  suite: CipherSuite;
+}
+
+export interface StoredMessage {
+  id: string;
+  envelope?: MessageEnvelope; // Absent on messages stored before envelopes = LEGACY_ENVELOPE
+  senderPublicKey: string;
+  senderSigningKey?: string; // Ed25519 public key authorizing delete/revoke
+  recipients: StoredRecipient[]; // One sealed wrap per recipient
+  threshold?: number; // k-of-n: wraps hold Shamir shares of K_msg, k recipients must unlock on site
+  serverKeyShare?: SealedWrap; // Sealed; final wraps use combineKeyShares(K_loc_input, share)
+  encryptedPayload: string; // Base64 encoded ciphertext
+  payloadNonce: string;
+  payloadAuthTag: string;
+  locationBinding: {
+    latitude: number;
+    longitude: number;
+    radiusMeters: number;
+    windowStart: number;
+    windowEnd: number;
+    nonce: string; // Used in key derivation
+    policy?: VerificationPolicy;
+    geofence?: Geofence; // Polygon / multi-zone shape; latitude/longitude/radiusMeters then give an enclosing circle
+    vertical?: VerticalConstraint; // Altitude range or floor number
+    schedule?: RecurringSchedule; // Recurring opening hours within windowStart..windowEnd
+    waypoints?: Waypoint[]; // Visited in order before this location
+  };
+  allowedDeviceIds?: string[]; // Only these enrolled devices may unlock (default: any approved device)
+  metadata: {
+    title?: string;
+    created: number;
+    expiresAt?: number;
+  };
+}
+
+export type TombstoneReason = 'expired' | 'window-closed' | 'revoked' | 'deleted';
+
+/**
+ * What remains of a message after it has been purged
+ * Lets later lookups answer 410 Gone instead of 404 Not Found
+ */
+export interface Tombstone {
+  id: string;
+  reason: TombstoneReason;
+  removedAt: number;
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/**
+ * Body of POST /api/messages
+ * The server mints the ID unless the client supplies one that is still free
+ */
+export type NewMessageRequest = Omit<StoredMessage, 'id' | 'recipients' | 'serverKeyShare'> & {
+  id?: string;
+  recipients?: RecipientWrap[]; // One wrap per recipient
+  serverKeyShare?: string; // 32 random bytes, released by /unlock after verification
+  // Legacy single-recipient wrap (used when recipients is absent)
+  recipientPublicKey?: string;
+  wrappedKey?: string; // K_msg wrapped with K_loc_input
+  wrappedKeyNonce?: string;
+  wrappedKeyAuthTag?: string;
+};
+
+export interface UnlockRequest {
+  messageId?: string; // Must match the :id route parameter when present
+  attestation: LocationAttestation;
+  recipientPrivateKey?: string; // Ephemeral DH private key
+  recipientPublicKey?: string; // Which recipient's wrap to return (required for multi-recipient messages)
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { generateEd25519KeyPair } from './crypto.js';
+import {
+  validateSimpleCellMessage,
+  validateSimpleDecrypt,
+  validateSimpleMessage,
+  validateStoredMessage,
+} from './validation.js';
+
+const message = {
+  senderPublicKey: 'c2VuZGVy',
+  recipients: [{
+    recipientPublicKey: 'cmVjaXBpZW50',
+    wrappedKey: 'd3JhcHBlZA==',
+    wrappedKeyNonce: 'bm9uY2U=',
+    wrappedKeyAuthTag: 'dGFn',
+  }],
+  encryptedPayload: 'cGF5bG9hZA==',
+  payloadNonce: 'bm9uY2U=',
+  payloadAuthTag: 'dGFn',
+  locationBinding: {
+    latitude: 18.52,
+    longitude: 73.85,
+    radiusMeters: 100,
+    windowStart: 1000,
+    windowEnd: 2000,
+    nonce: 'bm9uY2U=',
+  },
+  metadata: { created: 1000 },
+};
+
+const withBinding = (binding: Record<string, unknown>) =>
+  ({ ...message, locationBinding: { ...message.locationBinding, ...binding } });
+
+// ============================================================================
+// Stored Messages
+// ============================================================================
+
+describe('validateStoredMessage', () => {
+  it('accepts a well-formed message', () => {
+    expect(validateStoredMessage(message)).toEqual([]);
+  });
+
+  it('rejects a latitude out of range', () => {
+    expect(validateStoredMessage(withBinding({ latitude: 91 }))).toEqual([
+      { field: 'locationBinding.latitude', message: 'must be <= 90' },
+    ]);
+  });
+
+  it('rejects a negative radius', () => {
+    expect(validateStoredMessage(withBinding({ radiusMeters: -5 }))).toEqual([
+      { field: 'locationBinding.radiusMeters', message: 'must be greater than 0' },
+    ]);
+  });
+
+  it('rejects a window that ends before it starts', () => {
+    expect(validateStoredMessage(withBinding({ windowStart: 2000, windowEnd: 1000 }))).toEqual([
+      { field: 'locationBinding.windowEnd', message: 'must not be before windowStart' },
+    ]);
+  });
+
+  it('lists every non-base64 nonce', () => {
+    const errors = validateStoredMessage({
+      ...withBinding({ nonce: 'not base64!' }),
+      payloadNonce: 'bm9uY2U',
+    });
+    expect(errors).toEqual([
+      { field: 'payloadNonce', message: 'must be base64 encoded' },
+      { field: 'locationBinding.nonce', message: 'must be base64 encoded' },
+    ]);
+  });
+
+  it('requires metadata', () => {
+    const { metadata: _metadata, ...incomplete } = message;
+    expect(validateStoredMessage(incomplete)).toEqual([{ field: 'metadata', message: 'is required' }]);
+  });
+
+  it('rejects a body that is not an object', () => {
+    expect(validateStoredMessage(undefined)).toEqual([{ field: '(root)', message: 'is required' }]);
+    expect(validateStoredMessage([])).toEqual([{ field: '(root)', message: 'must be an object' }]);
+  });
+});
+
+// ============================================================================
+// Simplified Demo Server
+// ============================================================================
+
+describe('simple server requests', () => {
+  const senderSigningKey = generateEd25519KeyPair().publicKey;
+  const send = {
+    message: 'Meet at safehouse',
+    senderName: 'Officer Alpha',
+    targetLat: 19.076,
+    targetLon: 72.8777,
+    senderSigningKey,
+  };
+
+  it('accepts a target-mode message', () => {
+    expect(validateSimpleMessage(send)).toEqual([]);
+    expect(validateSimpleMessage({ ...send, radiusMeters: 50, cipher: 'xor' })).toEqual([]);
+  });
+
+  it('rejects coordinates sent as strings', () => {
+    expect(validateSimpleMessage({ ...send, targetLat: '19' })).toEqual([
+      { field: 'targetLat', message: 'must be a finite number' },
+    ]);
+  });
+
+  it('rejects an unknown cipher and a negative radius', () => {
+    expect(validateSimpleMessage({ ...send, cipher: 'rot13', radiusMeters: -1 })).toEqual([
+      { field: 'radiusMeters', message: 'must be greater than 0' },
+      { field: 'cipher', message: 'must be one of: aes-gcm, xor' },
+    ]);
+  });
+
+  it('requires a 32-byte Ed25519 sender key', () => {
+    const { senderSigningKey: _key, ...unsigned } = send;
+    expect(validateSimpleMessage(unsigned)).toEqual([{ field: 'senderSigningKey', message: 'is required' }]);
+    expect(validateSimpleMessage({ ...send, senderSigningKey: 'AAAA' })).toEqual([
+      { field: 'senderSigningKey', message: 'must be a 32-byte Ed25519 public key' },
+    ]);
+    expect(validateSimpleMessage({ ...send, senderSigningKey: `${'A'.repeat(42)}==` })).toEqual([
+      { field: 'senderSigningKey', message: 'must be a 32-byte Ed25519 public key' },
+    ]);
+  });
+
+  it('checks cell-mode commitments', () => {
+    const cell = {
+      mode: 'cell',
+      encrypted: 'v2.abc',
+      salt: 'c2FsdA==',
+      commitment: 'ab'.repeat(32),
+      cellSizeMeters: 100,
+      senderName: 'Officer Alpha',
+      senderSigningKey,
+    };
+    expect(validateSimpleCellMessage(cell)).toEqual([]);
+    expect(validateSimpleCellMessage({ ...cell, commitment: 'XYZ' })).toEqual([
+      { field: 'commitment', message: 'must be 64 lowercase hex digits' },
+    ]);
+  });
+
+  it('checks the current position of a decrypt request', () => {
+    expect(validateSimpleDecrypt({ messageId: 'msg-1', currentLat: 19, currentLon: 72 })).toEqual([]);
+    expect(validateSimpleDecrypt({ messageId: 'msg-1', currentLat: '19', currentLon: 200 })).toEqual([
+      { field: 'currentLat', message: 'must be a finite number' },
+      { field: 'currentLon', message: 'must be <= 180' },
+    ]);
+  });
+});
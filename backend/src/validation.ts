@@ -0,0 +1,798 @@
+/**
+ * Request Validation
+ *
+ * This module handles:
+ * - A small declarative schema language (strings, numbers, objects, arrays, tagged unions)
+ * - Schemas for StoredMessage, UnlockRequest and LocationAttestation
+ * - Schemas for the simplified demo server (simple-server.ts)
+ * - Collecting every offending field instead of stopping at the first
+ */
+
+import { CIPHER_SUITES, ENVELOPE_VERSION, LEGACY_ENVELOPE } from './crypto.js';
+import { HANDLE_PATTERN, MAX_PREKEYS } from './directory.js';
+import { TIME_OF_DAY_PATTERN, WEEKDAYS, isValidTimeZone, parseTimeOfDay } from './schedule.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FieldError {
+  field: string; // Dotted path, e.g. "locationBinding.radiusMeters"
+  message: string;
+}
+
+interface BaseRule {
+  optional?: boolean;
+}
+
+export interface StringRule extends BaseRule {
+  type: 'string';
+  base64?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  oneOf?: readonly string[];
+}
+
+export interface NumberRule extends BaseRule {
+  type: 'number';
+  min?: number;
+  max?: number;
+  positive?: boolean;
+  integer?: boolean;
+}
+
+export interface BooleanRule extends BaseRule {
+  type: 'boolean';
+}
+
+export interface ObjectRule extends BaseRule {
+  type: 'object';
+  fields: Schema;
+  // Cross-field checks (the object itself is known to be an object, its fields are not)
+  checks?: Array<(value: Record<string, unknown>) => FieldError | null>;
+}
+
+export interface ArrayRule extends BaseRule {
+  type: 'array';
+  items: Rule;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Object whose shape is picked by a discriminator field, e.g. { type: 'circle', ... }
+ */
+export interface UnionRule extends BaseRule {
+  type: 'union';
+  tag: string;
+  variants: Record<string, ObjectRule>;
+}
+
+export type Rule = StringRule | NumberRule | BooleanRule | ObjectRule | ArrayRule | UnionRule;
+export type Schema = Record<string, Rule>;
+
+// ============================================================================
+// Validator
+// ============================================================================
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Check that a string is canonical, non-empty base64
+ */
+export function isBase64(value: string): boolean {
+  return value.length > 0 && value.length % 4 === 0 && BASE64_PATTERN.test(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Array.isArray narrows unknown to any[] - this keeps the items unknown
+function isList(value: unknown): value is unknown[] {
+  return Array.isArray(value);
+}
+
+/**
+ * `key` of every item (undefined for items that are not objects)
+ */
+function pluck(items: unknown[], key: string): unknown[] {
+  return items.map(item => isRecord(item) ? item[key] : undefined);
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Validate a value against a rule
+ * Returns every error found (empty array = valid)
+ */
+export function validate(value: unknown, rule: Rule, path: string = ''): FieldError[] {
+  const field = path || '(root)';
+
+  if (value === undefined || value === null) {
+    return rule.optional ? [] : [{ field, message: 'is required' }];
+  }
+
+  switch (rule.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [{ field, message: 'must be a string' }];
+      }
+      if (rule.minLength !== undefined && value.length < rule.minLength) {
+        return [{ field, message: `must be at least ${rule.minLength} characters` }];
+      }
+      if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+        return [{ field, message: `must be at most ${rule.maxLength} characters` }];
+      }
+      if (rule.base64 && !isBase64(value)) {
+        return [{ field, message: 'must be base64 encoded' }];
+      }
+      if (rule.oneOf && !rule.oneOf.includes(value)) {
+        return [{ field, message: `must be one of: ${rule.oneOf.join(', ')}` }];
+      }
+      return [];
+    }
+
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [{ field, message: 'must be a finite number' }];
+      }
+      if (rule.integer && !Number.isInteger(value)) {
+        return [{ field, message: 'must be an integer' }];
+      }
+      if (rule.positive && value <= 0) {
+        return [{ field, message: 'must be greater than 0' }];
+      }
+      if (rule.min !== undefined && value < rule.min) {
+        return [{ field, message: `must be >= ${rule.min}` }];
+      }
+      if (rule.max !== undefined && value > rule.max) {
+        return [{ field, message: `must be <= ${rule.max}` }];
+      }
+      return [];
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ field, message: 'must be a boolean' }];
+
+    case 'object': {
+      if (!isRecord(value)) {
+        return [{ field, message: 'must be an object' }];
+      }
+      const errors: FieldError[] = [];
+      for (const [key, fieldRule] of Object.entries(rule.fields)) {
+        errors.push(...validate(value[key], fieldRule, join(path, key)));
+      }
+      if (rule.checks) {
+        for (const check of rule.checks) {
+          const error = check(value);
+          if (error) {
+            errors.push({ ...error, field: join(path, error.field) });
+          }
+        }
+      }
+      return errors;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [{ field, message: 'must be an array' }];
+      }
+      if (rule.minItems !== undefined && value.length < rule.minItems) {
+        return [{ field, message: `must contain at least ${rule.minItems} item(s)` }];
+      }
+      if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+        return [{ field, message: `must contain at most ${rule.maxItems} item(s)` }];
+      }
+      return value.flatMap((item, i) => validate(item, rule.items, join(path, i)));
+    }
+
+    case 'union': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [{ field, message: 'must be an object' }];
+      }
+      const tag = (value as Record<string, unknown>)[rule.tag];
+      if (typeof tag !== 'string' || !Object.hasOwn(rule.variants, tag)) {
+        return [{
+          field: join(path, rule.tag),
+          message: `must be one of: ${Object.keys(rule.variants).join(', ')}`,
+        }];
+      }
+      return validate(value, rule.variants[tag], path);
+    }
+  }
+}
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const latitude: NumberRule = { type: 'number', min: -90, max: 90 };
+const longitude: NumberRule = { type: 'number', min: -180, max: 180 };
+const timestamp: NumberRule = { type: 'number', integer: true, min: 0 };
+const base64: StringRule = { type: 'string', base64: true };
+
+export const locationAttestationRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    version: { type: 'number', integer: true, min: 1 },
+    deviceId: { type: 'string', minLength: 1, maxLength: 128 },
+    devicePublicKey: base64,
+    latitude,
+    longitude,
+    accuracy: { type: 'number', min: 0 },
+    timestamp,
+    altitude: { type: 'number', optional: true },
+    altitudeAccuracy: { type: 'number', min: 0, optional: true },
+    heading: { type: 'number', min: 0, max: 360, optional: true },
+    speed: { type: 'number', min: 0, optional: true },
+    wifiSSIDs: {
+      type: 'array',
+      optional: true,
+      maxItems: 100,
+      items: { type: 'string', maxLength: 64 },
+    },
+    cellTowers: {
+      type: 'array',
+      optional: true,
+      maxItems: 50,
+      items: {
+        type: 'object',
+        fields: {
+          mcc: { type: 'string' },
+          mnc: { type: 'string' },
+          lac: { type: 'string' },
+          cellId: { type: 'string' },
+          signalStrength: { type: 'number', optional: true },
+        },
+      },
+    },
+    movementHistory: {
+      type: 'array',
+      optional: true,
+      maxItems: 1000,
+      items: {
+        type: 'object',
+        fields: { lat: latitude, lon: longitude, timestamp },
+      },
+    },
+    challenge: { ...base64, optional: true },
+    signature: base64,
+  },
+};
+
+const circleGeofenceRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    type: { type: 'string' },
+    latitude,
+    longitude,
+    radiusMeters: { type: 'number', positive: true },
+  },
+};
+
+const polygonGeofenceRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    type: { type: 'string' },
+    vertices: {
+      type: 'array',
+      minItems: 3,
+      maxItems: 500,
+      items: { type: 'object', fields: { lat: latitude, lon: longitude } },
+    },
+  },
+};
+
+export const geofenceRule: UnionRule = {
+  type: 'union',
+  tag: 'type',
+  variants: {
+    circle: circleGeofenceRule,
+    polygon: polygonGeofenceRule,
+    multi: {
+      type: 'object',
+      fields: {
+        type: { type: 'string' },
+        mode: { type: 'string' },
+        zones: {
+          type: 'array',
+          minItems: 1,
+          maxItems: 20,
+          items: {
+            type: 'union',
+            tag: 'type',
+            variants: { circle: circleGeofenceRule, polygon: polygonGeofenceRule },
+          },
+        },
+      },
+      checks: [
+        (multi) => multi.mode === 'any' || multi.mode === 'all'
+          ? null
+          : { field: 'mode', message: 'must be "any" or "all"' },
+      ],
+    },
+  },
+};
+
+export const verticalConstraintRule: UnionRule = {
+  type: 'union',
+  tag: 'type',
+  variants: {
+    altitude: {
+      type: 'object',
+      fields: {
+        type: { type: 'string' },
+        minMeters: { type: 'number', min: -1000, max: 10000 },
+        maxMeters: { type: 'number', min: -1000, max: 10000 },
+        maxVerticalAccuracyMeters: { type: 'number', positive: true, optional: true },
+      },
+      checks: [
+        (range) => typeof range.minMeters === 'number' &&
+          typeof range.maxMeters === 'number' &&
+          range.maxMeters <= range.minMeters
+          ? { field: 'maxMeters', message: 'must be greater than minMeters' }
+          : null,
+      ],
+    },
+    floor: {
+      type: 'object',
+      fields: {
+        type: { type: 'string' },
+        floor: { type: 'number', integer: true, min: -20, max: 200 },
+        groundAltitudeMeters: { type: 'number', min: -1000, max: 10000 },
+        floorHeightMeters: { type: 'number', positive: true, max: 20, optional: true },
+        maxVerticalAccuracyMeters: { type: 'number', positive: true, optional: true },
+      },
+    },
+  },
+};
+
+const timeOfDay = (value: unknown): value is string => typeof value === 'string' && TIME_OF_DAY_PATTERN.test(value);
+
+export const scheduleRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    timezone: { type: 'string', minLength: 1, maxLength: 64 },
+    rules: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 20,
+      items: {
+        type: 'object',
+        fields: {
+          days: { type: 'array', minItems: 1, maxItems: 7, items: { type: 'string' } },
+          start: { type: 'string' },
+          end: { type: 'string' },
+          weekOfMonth: {
+            type: 'array',
+            optional: true,
+            minItems: 1,
+            maxItems: 6,
+            items: { type: 'number', integer: true, min: -1, max: 5 },
+          },
+        },
+        checks: [
+          (rule) => isList(rule.days) && rule.days.some(day => !WEEKDAYS.includes(day as never))
+            ? { field: 'days', message: `must only contain: ${WEEKDAYS.join(', ')}` }
+            : null,
+          (rule) => rule.start !== undefined && !timeOfDay(rule.start)
+            ? { field: 'start', message: 'must be HH:MM' }
+            : null,
+          (rule) => rule.end !== undefined && !timeOfDay(rule.end)
+            ? { field: 'end', message: 'must be HH:MM' }
+            : null,
+          (rule) => timeOfDay(rule.start) && timeOfDay(rule.end) &&
+            parseTimeOfDay(rule.end) <= parseTimeOfDay(rule.start)
+            ? { field: 'end', message: 'must be after start' }
+            : null,
+          (rule) => isList(rule.weekOfMonth) && rule.weekOfMonth.includes(0)
+            ? { field: 'weekOfMonth', message: 'must use 1-5 or -1 (last)' }
+            : null,
+        ],
+      },
+    },
+  },
+  checks: [
+    (schedule) => typeof schedule.timezone === 'string' && !isValidTimeZone(schedule.timezone)
+      ? { field: 'timezone', message: 'must be an IANA time zone, e.g. "Asia/Kolkata"' }
+      : null,
+  ],
+};
+
+const stageWrapRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    wrappedKey: base64,
+    wrappedKeyNonce: base64,
+    wrappedKeyAuthTag: base64,
+  },
+};
+
+const recipientWrapRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    recipientPublicKey: base64,
+    wrappedKey: base64,
+    wrappedKeyNonce: base64,
+    wrappedKeyAuthTag: base64,
+    stageWraps: { type: 'array', optional: true, minItems: 1, maxItems: 20, items: stageWrapRule },
+    prekeyId: { type: 'number', integer: true, min: 1, optional: true },
+  },
+};
+
+const waypointRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    label: { type: 'string', maxLength: 100, optional: true },
+    latitude,
+    longitude,
+    radiusMeters: { type: 'number', positive: true },
+    nonce: base64,
+    geofence: { ...geofenceRule, optional: true },
+  },
+};
+
+const envelopeRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    version: { type: 'number', integer: true, min: 1, max: ENVELOPE_VERSION },
+    suite: { type: 'string', oneOf: CIPHER_SUITES },
+  },
+  checks: [
+    (envelope) => envelope.version === LEGACY_ENVELOPE.version && envelope.suite !== LEGACY_ENVELOPE.suite
+      ? { field: 'suite', message: `must be ${LEGACY_ENVELOPE.suite} for version ${LEGACY_ENVELOPE.version}` }
+      : null,
+  ],
+};
+
+const LEGACY_WRAP_FIELDS = ['recipientPublicKey', 'wrappedKey', 'wrappedKeyNonce', 'wrappedKeyAuthTag'];
+
+export const storedMessageRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    id: { type: 'string', minLength: 1, maxLength: 128, optional: true },
+    envelope: { ...envelopeRule, optional: true }, // Absent = version 1
+    senderPublicKey: base64,
+    senderSigningKey: { ...base64, optional: true },
+    recipients: {
+      type: 'array',
+      optional: true,
+      minItems: 1,
+      maxItems: 100,
+      items: recipientWrapRule,
+    },
+    threshold: { type: 'number', integer: true, min: 2, max: 100, optional: true },
+    serverKeyShare: { ...base64, minLength: 44, maxLength: 44, optional: true }, // 32 bytes
+    encryptedPayload: base64,
+    payloadNonce: base64,
+    payloadAuthTag: base64,
+    recipientPublicKey: { ...base64, optional: true },
+    wrappedKey: { ...base64, optional: true },
+    wrappedKeyNonce: { ...base64, optional: true },
+    wrappedKeyAuthTag: { ...base64, optional: true },
+    locationBinding: {
+      type: 'object',
+      fields: {
+        latitude,
+        longitude,
+        radiusMeters: { type: 'number', positive: true },
+        windowStart: timestamp,
+        windowEnd: timestamp,
+        nonce: base64,
+        policy: {
+          type: 'object',
+          optional: true,
+          fields: {
+            maxAttestationAgeSec: { type: 'number', integer: true, min: 1, max: 3600, optional: true },
+            minDwellSec: { type: 'number', integer: true, min: 0, max: 3600, optional: true },
+            maxSpeedMps: { type: 'number', positive: true, max: 1000, optional: true },
+            maxAccuracyMeters: { type: 'number', positive: true, optional: true },
+            minConfidence: { type: 'number', min: 0, max: 1, optional: true },
+          },
+        },
+        geofence: { ...geofenceRule, optional: true },
+        vertical: { ...verticalConstraintRule, optional: true },
+        schedule: { ...scheduleRule, optional: true },
+        waypoints: { type: 'array', optional: true, minItems: 1, maxItems: 20, items: waypointRule },
+      },
+      checks: [
+        (binding) => typeof binding.windowStart === 'number' &&
+          typeof binding.windowEnd === 'number' &&
+          binding.windowEnd < binding.windowStart
+          ? { field: 'windowEnd', message: 'must not be before windowStart' }
+          : null,
+      ],
+    },
+    allowedDeviceIds: {
+      type: 'array',
+      optional: true,
+      minItems: 1,
+      maxItems: 100,
+      items: { type: 'string', minLength: 1, maxLength: 128 },
+    },
+    metadata: {
+      type: 'object',
+      fields: {
+        title: { type: 'string', maxLength: 200, optional: true },
+        created: timestamp,
+        expiresAt: { ...timestamp, optional: true },
+      },
+    },
+  },
+  checks: [
+    (message) => message.recipients === undefined && LEGACY_WRAP_FIELDS.some(key => message[key] === undefined)
+      ? { field: 'recipients', message: `is required (or all of ${LEGACY_WRAP_FIELDS.join(', ')})` }
+      : null,
+    (message) => message.recipients !== undefined && LEGACY_WRAP_FIELDS.some(key => message[key] !== undefined)
+      ? { field: 'recipients', message: 'cannot be combined with the single-recipient wrap fields' }
+      : null,
+    (message) => isList(message.recipients) &&
+      new Set(pluck(message.recipients, 'recipientPublicKey')).size !== message.recipients.length
+      ? { field: 'recipients', message: 'must not list the same recipientPublicKey twice' }
+      : null,
+    (message) => typeof message.threshold === 'number' &&
+      !(isList(message.recipients) && message.recipients.length >= message.threshold)
+      ? { field: 'threshold', message: 'must not exceed the number of recipients' }
+      : null,
+    (message) => {
+      const waypoints = isRecord(message.locationBinding) ? message.locationBinding.waypoints : undefined;
+      const stages = isList(waypoints) ? waypoints.length : 0;
+      if (!isList(message.recipients)) {
+        return stages > 0 ? { field: 'recipients', message: 'is required for waypoint chains' } : null;
+      }
+      return pluck(message.recipients, 'stageWraps').some(stageWraps => (isList(stageWraps) ? stageWraps.length : 0) !== stages)
+        ? { field: 'recipients', message: `each recipient needs exactly one stageWrap per waypoint (${stages})` }
+        : null;
+    },
+  ],
+};
+
+export const unlockRequestRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    messageId: { type: 'string', optional: true },
+    attestation: locationAttestationRule,
+    recipientPrivateKey: { type: 'string', optional: true },
+    recipientPublicKey: { ...base64, optional: true },
+  },
+};
+
+export const shareContributionRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    recipientPublicKey: base64,
+    contributionToken: base64,
+    shares: {
+      type: 'array',
+      maxItems: 100,
+      items: {
+        type: 'object',
+        fields: { to: base64, ciphertext: base64, nonce: base64 },
+      },
+    },
+  },
+};
+
+export const shareCollectionRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    recipientPublicKey: base64,
+    contributionToken: base64,
+  },
+};
+
+export const senderAuthorizationRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    timestamp,
+    signature: base64,
+  },
+};
+
+export const deviceRegistrationRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    deviceId: { type: 'string', minLength: 1, maxLength: 128 },
+    publicKey: base64,
+    label: { type: 'string', maxLength: 100, optional: true },
+    owner: { type: 'string', minLength: 3, maxLength: 32, optional: true },
+    timestamp,
+    signature: base64,
+  },
+  checks: [
+    (device) => typeof device.owner === 'string' && !HANDLE_PATTERN.test(device.owner.toLowerCase())
+      ? { field: 'owner', message: 'must be a directory handle' }
+      : null,
+  ],
+};
+
+export const deviceActionProofRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    approverHandle: { type: 'string', minLength: 3, maxLength: 32, optional: true },
+    approverDeviceId: { type: 'string', minLength: 1, maxLength: 128, optional: true },
+    challenge: base64,
+    timestamp,
+    signature: base64,
+  },
+  checks: [
+    (proof) => (proof.approverHandle === undefined) === (proof.approverDeviceId === undefined)
+      ? { field: 'approverHandle', message: 'exactly one of approverHandle or approverDeviceId is required' }
+      : null,
+  ],
+};
+
+export const identityRegistrationRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    handle: { type: 'string', minLength: 3, maxLength: 32 },
+    displayName: { type: 'string', minLength: 1, maxLength: 100 },
+    publicKey: base64,
+    signingKey: base64,
+    timestamp,
+    signature: base64,
+  },
+  checks: [
+    (identity) => typeof identity.handle === 'string' && !HANDLE_PATTERN.test(identity.handle)
+      ? { field: 'handle', message: 'must be lowercase letters, digits, ".", "_" or "-"' }
+      : null,
+  ],
+};
+
+export const prekeyUploadRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    prekeys: {
+      type: 'array',
+      minItems: 1,
+      maxItems: MAX_PREKEYS,
+      items: {
+        type: 'object',
+        fields: {
+          keyId: { type: 'number', integer: true, min: 1 },
+          publicKey: base64,
+          signature: base64,
+        },
+      },
+    },
+    timestamp,
+    signature: base64,
+  },
+  checks: [
+    (upload) => isList(upload.prekeys) &&
+      new Set(pluck(upload.prekeys, 'keyId')).size !== upload.prekeys.length
+      ? { field: 'prekeys', message: 'must not repeat a keyId' }
+      : null,
+  ],
+};
+
+export const identityProofRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    timestamp,
+    signature: base64,
+  },
+};
+
+// ============================================================================
+// Simplified Demo Server
+// ============================================================================
+
+const COMMITMENT_PATTERN = /^[0-9a-f]{64}$/;
+
+const senderName: StringRule = { type: 'string', minLength: 1, maxLength: 100 };
+const ed25519PublicKey: StringRule = { ...base64, maxLength: 44 };
+
+// Ed25519 public keys are exactly 32 bytes
+const checkSigningKey = (request: Record<string, unknown>): FieldError | null =>
+  typeof request.senderSigningKey === 'string' && isBase64(request.senderSigningKey) &&
+  Buffer.from(request.senderSigningKey, 'base64').length !== 32
+    ? { field: 'senderSigningKey', message: 'must be a 32-byte Ed25519 public key' }
+    : null;
+
+export const simpleMessageRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    mode: { type: 'string', oneOf: ['target'], optional: true },
+    message: { type: 'string', minLength: 1, maxLength: 10000 },
+    senderName,
+    targetLat: latitude,
+    targetLon: longitude,
+    radiusMeters: { type: 'number', positive: true, max: 100000, optional: true },
+    cipher: { type: 'string', oneOf: ['aes-gcm', 'xor'], optional: true },
+    senderSigningKey: ed25519PublicKey,
+  },
+  checks: [checkSigningKey],
+};
+
+export const simpleCellMessageRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    mode: { type: 'string', oneOf: ['cell'] },
+    encrypted: { type: 'string', minLength: 1, maxLength: 20000 }, // v2 envelope or base64 XOR
+    salt: base64,
+    commitment: { type: 'string' },
+    cellSizeMeters: { type: 'number', positive: true, max: 100000 },
+    senderName,
+    senderSigningKey: ed25519PublicKey,
+  },
+  checks: [
+    (cell) => typeof cell.commitment === 'string' && !COMMITMENT_PATTERN.test(cell.commitment)
+      ? { field: 'commitment', message: 'must be 64 lowercase hex digits' }
+      : null,
+    checkSigningKey,
+  ],
+};
+
+export const simpleDecryptRule: ObjectRule = {
+  type: 'object',
+  fields: {
+    messageId: { type: 'string', minLength: 1, maxLength: 128 },
+    currentLat: latitude,
+    currentLon: longitude,
+  },
+};
+
+// ============================================================================
+// Entry Points
+// ============================================================================
+
+export function validateStoredMessage(body: unknown): FieldError[] {
+  return validate(body, storedMessageRule);
+}
+
+export function validateUnlockRequest(body: unknown): FieldError[] {
+  return validate(body, unlockRequestRule);
+}
+
+export function validateShareContribution(body: unknown): FieldError[] {
+  return validate(body, shareContributionRule);
+}
+
+export function validateShareCollection(body: unknown): FieldError[] {
+  return validate(body, shareCollectionRule);
+}
+
+export function validateSenderAuthorization(body: unknown): FieldError[] {
+  return validate(body, senderAuthorizationRule);
+}
+
+export function validateDeviceRegistration(body: unknown): FieldError[] {
+  return validate(body, deviceRegistrationRule);
+}
+
+export function validateDeviceActionProof(body: unknown): FieldError[] {
+  return validate(body, deviceActionProofRule);
+}
+
+export function validateIdentityRegistration(body: unknown): FieldError[] {
+  return validate(body, identityRegistrationRule);
+}
+
+export function validateIdentityProof(body: unknown): FieldError[] {
+  return validate(body, identityProofRule);
+}
+
+export function validatePrekeyUpload(body: unknown): FieldError[] {
+  return validate(body, prekeyUploadRule);
+}
+
+export function validateLocationAttestation(body: unknown): FieldError[] {
+  return validate(body, locationAttestationRule);
+}
+
+export function validateSimpleMessage(body: unknown): FieldError[] {
+  return validate(body, simpleMessageRule);
+}
+
+export function validateSimpleCellMessage(body: unknown): FieldError[] {
+  return validate(body, simpleCellMessageRule);
+}
+
+export function validateSimpleDecrypt(body: unknown): FieldError[] {
+  return validate(body, simpleDecryptRule);
+}
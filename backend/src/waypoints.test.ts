@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryStore } from './store.js';
+import type { RecipientWrap, StoredMessage } from './types.js';
+import {
+  WaypointTracker,
+  getStageTarget,
+  getStageWrap,
+  type WaypointProgress,
+} from './waypoints.js';
+
+const message = {
+  id: 'msg-1',
+  locationBinding: {
+    latitude: 18.52,
+    longitude: 73.85,
+    radiusMeters: 100,
+    windowStart: 0,
+    windowEnd: 1,
+    nonce: 'bm9uY2U=',
+    waypoints: [
+      { label: 'Bridge', latitude: 18.5, longitude: 73.8, radiusMeters: 50, nonce: 'd2F5MA==' },
+      { latitude: 18.51, longitude: 73.84, radiusMeters: 30, nonce: 'd2F5MQ==' },
+    ],
+  },
+} as StoredMessage;
+
+const wrap: RecipientWrap = {
+  recipientPublicKey: 'cmVjaXBpZW50',
+  wrappedKey: 'ZmluYWw=',
+  wrappedKeyNonce: 'bm9uY2U=',
+  wrappedKeyAuthTag: 'dGFn',
+  stageWraps: [
+    { wrappedKey: 'c3RhZ2Uw', wrappedKeyNonce: 'bm9uY2U=', wrappedKeyAuthTag: 'dGFn' },
+    { wrappedKey: 'c3RhZ2Ux', wrappedKeyNonce: 'bm9uY2U=', wrappedKeyAuthTag: 'dGFn' },
+  ],
+};
+
+// ============================================================================
+// Stages
+// ============================================================================
+
+describe('getStageTarget', () => {
+  it('targets each waypoint in order, then the final binding', () => {
+    expect(getStageTarget(message, 0)).toEqual({
+      stage: 0,
+      stages: 3,
+      label: 'Bridge',
+      latitude: 18.5,
+      longitude: 73.8,
+      radiusMeters: 50,
+      final: false,
+    });
+    expect(getStageTarget(message, 1)).toMatchObject({ stage: 1, radiusMeters: 30, final: false });
+    expect(getStageTarget(message, 2)).toMatchObject({ stage: 2, latitude: 18.52, radiusMeters: 100, final: true });
+  });
+
+  it('treats a message without waypoints as a single final stage', () => {
+    const plain = { ...message, locationBinding: { ...message.locationBinding, waypoints: undefined } };
+    expect(getStageTarget(plain, 0)).toMatchObject({ stage: 0, stages: 1, final: true });
+  });
+});
+
+describe('getStageWrap', () => {
+  it('releases the stage wrap mid-chain and the regular wrap at the end', () => {
+    expect(getStageWrap(wrap, 0).wrappedKey).toBe('c3RhZ2Uw');
+    expect(getStageWrap(wrap, 1).wrappedKey).toBe('c3RhZ2Ux');
+    expect(getStageWrap(wrap, 2).wrappedKey).toBe('ZmluYWw=');
+  });
+});
+
+// ============================================================================
+// Progress Tracker
+// ============================================================================
+
+describe('WaypointTracker', () => {
+  it('starts every recipient at stage 0', async () => {
+    const tracker = new WaypointTracker(new MemoryStore<WaypointProgress>());
+    expect(await tracker.currentStage('msg-1', 'alice')).toBe(0);
+  });
+
+  it('advances one stage per completed waypoint', async () => {
+    const tracker = new WaypointTracker(new MemoryStore<WaypointProgress>());
+    expect(await tracker.completeStage('msg-1', 'alice')).toBe(1);
+    expect(await tracker.completeStage('msg-1', 'alice')).toBe(2);
+    expect(await tracker.currentStage('msg-1', 'alice')).toBe(2);
+  });
+
+  it('tracks each recipient and message separately', async () => {
+    const tracker = new WaypointTracker(new MemoryStore<WaypointProgress>());
+    await tracker.completeStage('msg-1', 'alice');
+    expect(await tracker.currentStage('msg-1', 'bob')).toBe(0);
+    expect(await tracker.currentStage('msg-2', 'alice')).toBe(0);
+  });
+
+  it('records when each stage was completed', async () => {
+    const store = new MemoryStore<WaypointProgress>();
+    const tracker = new WaypointTracker(store);
+    const before = Date.now();
+    await tracker.completeStage('msg-1', 'alice');
+    const [completedAt] = (await store.get('msg-1'))!.completed.alice;
+    expect(completedAt).toBeGreaterThanOrEqual(before);
+  });
+
+  it('forgets a message', async () => {
+    const tracker = new WaypointTracker(new MemoryStore<WaypointProgress>());
+    await tracker.completeStage('msg-1', 'alice');
+    await tracker.forget('msg-1');
+    expect(await tracker.currentStage('msg-1', 'alice')).toBe(0);
+  });
+});
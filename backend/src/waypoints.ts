@@ -0,0 +1,108 @@
+/**
+ * Waypoint Chains
+ *
+ * This module handles:
+ * - Which stage of a waypoint chain a recipient has reached
+ * - The location a stage must be unlocked at (a waypoint, or the final binding)
+ * - Per-recipient progress, advanced by verified /unlock calls
+ *
+ * Each recipient's stageWraps[i] holds chain key C_{i+1}, wrapped under the
+ * key of waypoint i (derived from C_i, or the shared secret for i = 0). The
+ * recipient's regular wrap holds K_msg under the final binding's key derived
+ * from the last chain key, so the locations must be visited in order.
+ */
+
+import type { MessageStore } from './store.js';
+import type { RecipientWrap, StageWrap, StoredMessage, Waypoint } from './types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Per-message progress: completion times of each recipient's finished stages
+ */
+export interface WaypointProgress {
+  messageId: string;
+  completed: Record<string, number[]>; // recipientPublicKey -> stage completion timestamps
+}
+
+/**
+ * Where a stage is unlocked (waypoints are numbered from 0, the final stage is waypoints.length)
+ */
+export interface StageTarget {
+  stage: number;
+  stages: number; // Waypoints plus the final location
+  label?: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  final: boolean;
+}
+
+// ============================================================================
+// Stages
+// ============================================================================
+
+export function getWaypoints(message: StoredMessage): Waypoint[] {
+  return message.locationBinding.waypoints ?? [];
+}
+
+/**
+ * Target location of a stage
+ */
+export function getStageTarget(message: StoredMessage, stage: number): StageTarget {
+  const waypoints = getWaypoints(message);
+  const waypoint = waypoints[stage];
+  const target = waypoint ?? message.locationBinding;
+
+  return {
+    stage,
+    stages: waypoints.length + 1,
+    label: waypoint?.label,
+    latitude: target.latitude,
+    longitude: target.longitude,
+    radiusMeters: target.radiusMeters,
+    final: !waypoint,
+  };
+}
+
+/**
+ * The wrap a verified unlock of this stage releases
+ */
+export function getStageWrap(wrap: RecipientWrap, stage: number): StageWrap {
+  return wrap.stageWraps?.[stage] ?? wrap;
+}
+
+// ============================================================================
+// Progress Tracker
+// ============================================================================
+
+export class WaypointTracker {
+  constructor(private readonly progress: MessageStore<WaypointProgress>) {}
+
+  /**
+   * Next stage a recipient has to unlock
+   * Stays on the final stage once every waypoint is done
+   */
+  async currentStage(messageId: string, recipientPublicKey: string): Promise<number> {
+    const progress = await this.progress.get(messageId);
+    return progress?.completed[recipientPublicKey]?.length ?? 0;
+  }
+
+  /**
+   * Mark a waypoint stage as done after a verified unlock
+   */
+  async completeStage(messageId: string, recipientPublicKey: string): Promise<number> {
+    const progress = (await this.progress.get(messageId)) ?? { messageId, completed: {} };
+    const completed = progress.completed[recipientPublicKey] ?? [];
+    completed.push(Date.now());
+    progress.completed[recipientPublicKey] = completed;
+    await this.progress.set(messageId, progress);
+    return completed.length;
+  }
+
+  async forget(messageId: string): Promise<void> {
+    await this.progress.delete(messageId);
+  }
+}
@@ -4,6 +4,8 @@ import Terminal from './components/Terminal';
 import ComposeMessage from './components/ComposeMessage';
 import MessageList from './components/MessageList';
 import MessageViewer from './components/MessageViewer';
+import KeyDirectory from './components/KeyDirectory';
+import KeyManager from './components/KeyManager';
 
 function App() {
   const [showHelp, setShowHelp] = useState(false);
@@ -24,6 +26,8 @@ function App() {
                 <Link to="/" className="terminal-link">HOME</Link>
                 <Link to="/compose" className="terminal-link">COMPOSE</Link>
                 <Link to="/messages" className="terminal-link">MESSAGES</Link>
+                <Link to="/directory" className="terminal-link">DIRECTORY</Link>
+                <Link to="/keys" className="terminal-link">KEYS</Link>
                 <button 
                   onClick={() => setShowHelp(!showHelp)}
                   className="terminal-button-secondary px-2 py-1 text-xs"
@@ -62,6 +66,8 @@ function App() {
                     <li>COMPOSE: Create encrypted message bound to coordinates</li>
                     <li>MESSAGES: View stored messages</li>
                     <li>UNLOCK: Prove location to decrypt message</li>
+                    <li>KEYS: Create identities, kept encrypted in this browser</li>
+                    <li>DIRECTORY: Find recipients by name</li>
                   </ul>
                 </div>
                 
@@ -92,6 +98,8 @@ function App() {
             <Route path="/compose" element={<ComposeMessage />} />
             <Route path="/messages" element={<MessageList />} />
             <Route path="/messages/:id" element={<MessageViewer />} />
+            <Route path="/directory" element={<KeyDirectory />} />
+            <Route path="/keys" element={<KeyManager />} />
           </Routes>
         </main>
 
@@ -1,8 +1,28 @@
-import { useState } from 'react';
-import { MapContainer, TileLayer, Marker, Circle, useMapEvents } from 'react-leaflet';
+import { useState, useEffect } from 'react';
+import { MapContainer, TileLayer, Marker, Circle, Polygon, Polyline, useMapEvents } from 'react-leaflet';
 import { LatLng } from 'leaflet';
 import { useNavigate } from 'react-router-dom';
+import * as util from 'tweetnacl-util';
 import * as crypto from '../lib/crypto';
+import {
+  enclosingCircle,
+  type CircleGeofence,
+  type GeoPoint,
+  type Geofence,
+  type PolygonGeofence,
+  type VerticalConstraint,
+} from '../lib/geofence';
+import {
+  TIME_OF_DAY_PATTERN,
+  WEEKDAYS,
+  describeSchedule,
+  isValidTimeZone,
+  parseTimeOfDay,
+  type RecurringSchedule,
+  type ScheduleRule,
+} from '../lib/schedule';
+import { claimPrekey, keyFingerprint, searchDirectory, type DirectoryIdentity } from '../lib/directory';
+import { getPinnedContact, pinContact } from '../lib/keystore';
 import 'leaflet/dist/leaflet.css';
 
 // Fix leaflet icon issue
@@ -18,6 +38,19 @@ let DefaultIcon = L.icon({
 });
 L.Marker.prototype.options.icon = DefaultIcon;
 
+// A directory recipient; `fingerprint` is recomputed here from its key
+interface PickedRecipient extends DirectoryIdentity {
+  firstUse: boolean; // Pinned just now - compare the fingerprint out of band
+}
+
+// A stop of a waypoint chain (circle around a map point)
+interface WaypointStop {
+  label: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
 function MapClickHandler({ onClick }: { onClick: (latlng: LatLng) => void }) {
   useMapEvents({
     click: (e) => {
@@ -34,16 +67,183 @@ const ComposeMessage = () => {
   const [title, setTitle] = useState('');
   const [coordinates, setCoordinates] = useState<{ lat: number; lon: number }>({ lat: 18.5204, lon: 73.8567 });
   const [radius, setRadius] = useState(100);
+  const [shape, setShape] = useState<'circle' | 'polygon' | 'multi'>('circle');
+  const [zoneKind, setZoneKind] = useState<'circle' | 'polygon'>('circle'); // What the map draws in multi mode
+  const [multiMode, setMultiMode] = useState<'any' | 'all'>('any');
+  const [vertices, setVertices] = useState<GeoPoint[]>([]);
+  const [zones, setZones] = useState<Array<CircleGeofence | PolygonGeofence>>([]);
+  const [waypoints, setWaypoints] = useState<WaypointStop[]>([]); // Visited in order before the final location
+  const [waypointLabel, setWaypointLabel] = useState('');
+  const [verticalKind, setVerticalKind] = useState<'none' | 'altitude' | 'floor'>('none');
+  const [minAltitude, setMinAltitude] = useState(0);
+  const [maxAltitude, setMaxAltitude] = useState(10);
+  const [floor, setFloor] = useState(0);
+  const [groundAltitude, setGroundAltitude] = useState(560);
+  const [floorHeight, setFloorHeight] = useState(3);
   const [windowHours, setWindowHours] = useState(24);
-  const [recipientPublicKey, setRecipientPublicKey] = useState('');
+  const [timeMode, setTimeMode] = useState<'once' | 'recurring'>('once');
+  const [releaseAt, setReleaseAt] = useState(''); // datetime-local value, '' = unlockable right away
+  const [scheduleDays, setScheduleDays] = useState(30); // How long a recurring schedule stays valid
+  const [timezone, setTimezone] = useState(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [scheduleRules, setScheduleRules] = useState<ScheduleRule[]>([
+    { days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '09:00', end: '17:00' },
+  ]);
+  const [maxAttestationAgeSec, setMaxAttestationAgeSec] = useState(300);
+  const [minDwellSec, setMinDwellSec] = useState(0);
+  const [maxSpeedMps, setMaxSpeedMps] = useState(200);
+  const [maxAccuracyMeters, setMaxAccuracyMeters] = useState(0); // 0 = no limit
+  const [minConfidencePct, setMinConfidencePct] = useState(50);
+  const [recipientKeysText, setRecipientKeysText] = useState(''); // One X25519 public key per line
+  const [recipientQuery, setRecipientQuery] = useState('');
+  const [directoryMatches, setDirectoryMatches] = useState<DirectoryIdentity[]>([]);
+  const [pickedRecipients, setPickedRecipients] = useState<PickedRecipient[]>([]);
+  const [prekeyRecipients, setPrekeyRecipients] = useState(0); // Recipients wrapped to a one-time prekey
+  const [threshold, setThreshold] = useState(0); // k of n recipients on site together, 0 = each alone
+  const [allowedDevices, setAllowedDevices] = useState('');
+  const [serverSuites, setServerSuites] = useState<{ envelopeVersion: number; suites: crypto.CipherSuite[] } | null>(null);
+  const [suite, setSuite] = useState<crypto.CipherSuite>(crypto.CIPHER_SUITES[0]);
+  const [sentEnvelope, setSentEnvelope] = useState<crypto.MessageEnvelope | null>(null);
   const [encrypting, setEncrypting] = useState(false);
   const [messageId, setMessageId] = useState('');
+  const [senderSigningKeys, setSenderSigningKeys] = useState<{ publicKey: string; privateKey: string } | null>(null);
+  const [revoked, setRevoked] = useState(false);
   const [showExplain, setShowExplain] = useState(false);
 
+  const drawingPolygon = shape === 'polygon' || (shape === 'multi' && zoneKind === 'polygon');
+
   const handleMapClick = (latlng: LatLng) => {
-    setCoordinates({ lat: latlng.lat, lon: latlng.lng });
+    if (drawingPolygon) {
+      setVertices([...vertices, { lat: latlng.lat, lon: latlng.lng }]);
+    } else {
+      setCoordinates({ lat: latlng.lat, lon: latlng.lng });
+    }
+  };
+
+  // Commit the zone being drawn to the multi-zone list
+  const handleAddZone = () => {
+    if (zoneKind === 'polygon') {
+      if (vertices.length < 3) return;
+      setZones([...zones, { type: 'polygon', vertices }]);
+      setVertices([]);
+    } else {
+      setZones([...zones, { type: 'circle', latitude: coordinates.lat, longitude: coordinates.lon, radiusMeters: radius }]);
+    }
+  };
+
+  // The current map point becomes the next waypoint; the final location is set last
+  const handleAddWaypoint = () => {
+    setWaypoints([...waypoints, {
+      label: waypointLabel || `Stop ${waypoints.length + 1}`,
+      latitude: coordinates.lat,
+      longitude: coordinates.lon,
+      radiusMeters: radius,
+    }]);
+    setWaypointLabel('');
+  };
+
+  // undefined = plain circle binding (legacy key derivation)
+  const buildGeofence = (): Geofence | undefined => {
+    if (shape === 'polygon') return { type: 'polygon', vertices };
+    if (shape === 'multi') return { type: 'multi', mode: multiMode, zones };
+    return undefined;
+  };
+
+  const buildVertical = (): VerticalConstraint | undefined => {
+    if (verticalKind === 'altitude') return { type: 'altitude', minMeters: minAltitude, maxMeters: maxAltitude };
+    if (verticalKind === 'floor') {
+      return { type: 'floor', floor, groundAltitudeMeters: groundAltitude, floorHeightMeters: floorHeight };
+    }
+    return undefined;
+  };
+
+  const buildSchedule = (): RecurringSchedule | undefined =>
+    timeMode === 'recurring' ? { timezone, rules: scheduleRules } : undefined;
+
+  const updateRule = (index: number, changes: Partial<ScheduleRule>) => {
+    setScheduleRules(scheduleRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
   };
 
+  const scheduleReady = timeMode === 'once' || (
+    isValidTimeZone(timezone) &&
+    scheduleRules.length > 0 &&
+    scheduleRules.every((rule) =>
+      rule.days.length > 0 &&
+      TIME_OF_DAY_PATTERN.test(rule.start) &&
+      TIME_OF_DAY_PATTERN.test(rule.end) &&
+      parseTimeOfDay(rule.end) > parseTimeOfDay(rule.start))
+  );
+
+  const releaseReady = !releaseAt || new Date(releaseAt).getTime() > Date.now();
+
+  const verticalReady = verticalKind !== 'altitude' || maxAltitude > minAltitude;
+
+  const geofenceReady =
+    shape === 'circle' ||
+    (shape === 'polygon' && vertices.length >= 3) ||
+    (shape === 'multi' && zones.length > 0);
+
+  // Cipher suites the server accepts - without an answer we send version 1
+  useEffect(() => {
+    fetch('http://localhost:3001/api/crypto/suites')
+      .then((response) => response.ok ? response.json() : null)
+      .then(setServerSuites)
+      .catch((error) => console.error('Cipher suite negotiation failed:', error));
+  }, []);
+
+  // Suites both sides support, in our preference order
+  const commonSuites = serverSuites
+    ? crypto.CIPHER_SUITES.filter((candidate) => serverSuites.suites.includes(candidate))
+    : [];
+  const envelope: crypto.MessageEnvelope =
+    serverSuites && serverSuites.envelopeVersion >= crypto.ENVELOPE_VERSION && commonSuites.includes(suite)
+      ? { version: crypto.ENVELOPE_VERSION, suite }
+      : crypto.LEGACY_ENVELOPE;
+
+  // Directory search for the recipient picker
+  useEffect(() => {
+    if (!recipientQuery.trim()) {
+      setDirectoryMatches([]);
+      return;
+    }
+    searchDirectory(recipientQuery)
+      .then(setDirectoryMatches)
+      .catch((error) => console.error('Directory search failed:', error));
+  }, [recipientQuery]);
+
+  /**
+   * The directory could serve any key, so its keys are pinned on first use:
+   * a later change needs the sender's explicit confirmation
+   */
+  const handlePickRecipient = async (identity: DirectoryIdentity) => {
+    setRecipientQuery('');
+    if (pickedRecipients.some((picked) => picked.handle === identity.handle)) return;
+
+    const fingerprint = await keyFingerprint(identity.publicKey);
+    const pinned = await getPinnedContact(identity.handle);
+    const changed = pinned !== null &&
+      (pinned.publicKey !== identity.publicKey || pinned.signingKey !== identity.signingKey);
+    if (changed) {
+      const accepted = confirm(
+        `The directory now serves a different key for @${identity.handle}.\n\n` +
+        `Pinned: ${await keyFingerprint(pinned.publicKey)}\nNow:    ${fingerprint}\n\n` +
+        'Only continue if they confirmed the new fingerprint to you directly.'
+      );
+      if (!accepted) return;
+    }
+    if (pinned === null || changed) {
+      await pinContact(identity.handle, identity.publicKey, identity.signingKey);
+    }
+    setPickedRecipients([...pickedRecipients, { ...identity, fingerprint, firstUse: pinned === null || changed }]);
+  };
+
+  // Unique, non-empty keys from the picker and the raw keys box
+  const recipientPublicKeys = Array.from(new Set([
+    ...pickedRecipients.map((identity) => identity.publicKey),
+    ...recipientKeysText.split(/[\s,]+/).filter(Boolean),
+  ]));
+  const thresholdActive = recipientPublicKeys.length > 1 && threshold >= 2;
+  const thresholdReady = !thresholdActive || threshold <= recipientPublicKeys.length;
+
   const handleEncrypt = async () => {
     try {
       setEncrypting(true);
@@ -52,55 +252,122 @@ const ComposeMessage = () => {
       // Generate ephemeral sender key pair
       const senderKeys = crypto.generateX25519KeyPair();
       
-      // Compute shared secret
-      const sharedSecret = crypto.computeSharedSecret(senderKeys.privateKey, recipientPublicKey);
+      // Generate signing key pair so only we can delete/revoke the message later
+      const signingKeys = crypto.generateEd25519KeyPair();
       
       // Generate message encryption key
       const messageKey = crypto.generateAesKey();
       
-      // Encrypt message with K_msg
+      // Encrypt message with K_msg, using the negotiated suite's AEAD
       const { ciphertext, nonce: payloadNonce, authTag: payloadAuthTag } = 
-        await crypto.aesGcmEncrypt(message, messageKey);
+        await crypto.encryptWithSuite(envelope.suite, message, messageKey);
       
       // Derive location-bound key
       const now = Date.now();
-      const windowStart = now;
-      const windowEnd = now + (windowHours * 60 * 60 * 1000);
+      const windowStart = releaseAt ? new Date(releaseAt).getTime() : now;
+      const windowEnd = timeMode === 'once'
+        ? windowStart + (windowHours * 60 * 60 * 1000)
+        : windowStart + (scheduleDays * 24 * 60 * 60 * 1000);
       const keyNonce = crypto.generateNonce();
       
-      const locationBoundKey = await crypto.deriveLocationBoundKey(
-        sharedSecret,
-        coordinates.lat,
-        coordinates.lon,
-        radius,
-        windowStart,
-        windowEnd,
-        keyNonce
-      );
+      // Non-circle shapes keep an enclosing circle in latitude/longitude/radiusMeters
+      const geofence = buildGeofence();
+      const circle = geofence
+        ? enclosingCircle(geofence)
+        : { latitude: coordinates.lat, longitude: coordinates.lon, radiusMeters: radius };
+      const binding = { ...circle, windowStart, windowEnd, nonce: keyNonce, geofence, vertical: buildVertical(), schedule: buildSchedule() };
+      const chainStops = waypoints.map((stop) => ({ ...stop, nonce: crypto.generateNonce() }));
+      
+      // Threshold messages wrap a Shamir share of K_msg instead of K_msg itself
+      const keyShares = thresholdActive
+        ? crypto.splitSecret(messageKey, recipientPublicKeys.length, threshold)
+        : null;
+      
+      // Server-held share: the final wrap needs it too, and the server only
+      // releases it after verifying the recipient's location attestation
+      const serverKeyShare = crypto.generateRandomBytes(32);
       
-      // Wrap K_msg with location-bound key
-      const { wrappedKey, nonce: wrappedKeyNonce, authTag: wrappedKeyAuthTag } = 
-        await crypto.wrapKey(messageKey, locationBoundKey);
+      // Directory recipients get a signed one-time prekey (forward secrecy) when
+      // they have one left; everyone else is wrapped to their long-term key
+      const wrapTargets = await Promise.all(recipientPublicKeys.map(async (recipientPublicKey) => {
+        const identity = pickedRecipients.find((picked) => picked.publicKey === recipientPublicKey);
+        const prekey = identity ? await claimPrekey(identity) : null;
+        return prekey
+          ? { recipientPublicKey: prekey.publicKey, prekeyId: prekey.keyId }
+          : { recipientPublicKey, prekeyId: undefined };
+      }));
       
-      // Store message on backend
+      // Wrap K_msg (or its share) once per recipient, each under its own shared secret
+      const recipients = await Promise.all(wrapTargets.map(async ({ recipientPublicKey, prekeyId }, i) => {
+        const sharedSecret = crypto.computeSharedSecret(senderKeys.privateKey, recipientPublicKey);
+        
+        // Waypoint chain: stage i wraps chain key C_{i+1} under a key derived from C_i
+        let chainInput = sharedSecret;
+        const stageWraps = [];
+        for (const stop of chainStops) {
+          const chainKey = crypto.generateAesKey();
+          const stageKey = await crypto.deriveWaypointKey(chainInput, stop, binding, envelope);
+          const { wrappedKey, nonce, authTag } = await crypto.wrapKey(chainKey, stageKey, envelope.suite);
+          stageWraps.push({ wrappedKey, wrappedKeyNonce: nonce, wrappedKeyAuthTag: authTag });
+          chainInput = util.encodeBase64(chainKey);
+        }
+        
+        const locationBoundKey = await crypto.deriveLocationBoundKey(
+          chainInput,
+          binding.latitude,
+          binding.longitude,
+          binding.radiusMeters,
+          windowStart,
+          windowEnd,
+          keyNonce,
+          crypto.bindingConstraints(binding),
+          envelope
+        );
+        const { wrappedKey, nonce: wrappedKeyNonce, authTag: wrappedKeyAuthTag } =
+          await crypto.wrapKey(
+            keyShares ? util.decodeBase64(keyShares[i]) : messageKey,
+            await crypto.combineKeyShares(locationBoundKey, serverKeyShare, envelope),
+            envelope.suite
+          );
+        return {
+          recipientPublicKey,
+          wrappedKey,
+          wrappedKeyNonce,
+          wrappedKeyAuthTag,
+          stageWraps: stageWraps.length > 0 ? stageWraps : undefined,
+          prekeyId,
+        };
+      }));
+      
+      // Optional restriction to specific enrolled recipient devices
+      const allowedDeviceIds = allowedDevices
+        .split(',')
+        .map((deviceId) => deviceId.trim())
+        .filter(Boolean);
+      
+      // Store message on backend (the server assigns the message ID)
       const storedMessage = {
-        id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        envelope,
         senderPublicKey: senderKeys.publicKey,
-        recipientPublicKey,
+        senderSigningKey: signingKeys.publicKey,
+        recipients,
+        threshold: thresholdActive ? threshold : undefined,
+        serverKeyShare,
         encryptedPayload: ciphertext,
         payloadNonce,
         payloadAuthTag,
-        wrappedKey,
-        wrappedKeyNonce,
-        wrappedKeyAuthTag,
         locationBinding: {
-          latitude: coordinates.lat,
-          longitude: coordinates.lon,
-          radiusMeters: radius,
-          windowStart,
-          windowEnd,
-          nonce: keyNonce,
+          ...binding,
+          waypoints: chainStops.length > 0 ? chainStops : undefined,
+          policy: {
+            maxAttestationAgeSec,
+            minDwellSec,
+            maxSpeedMps,
+            maxAccuracyMeters: maxAccuracyMeters > 0 ? maxAccuracyMeters : undefined,
+            minConfidence: minConfidencePct / 100,
+          },
         },
+        allowedDeviceIds: allowedDeviceIds.length > 0 ? allowedDeviceIds : undefined,
         metadata: {
           title: title || 'Untitled Message',
           created: now,
@@ -116,7 +383,14 @@ const ComposeMessage = () => {
       });
       
       const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Server responded with ${response.status}`);
+      }
       setMessageId(result.messageId);
+      setPrekeyRecipients(wrapTargets.filter((target) => target.prekeyId !== undefined).length);
+      setSentEnvelope(envelope);
+      setSenderSigningKeys(signingKeys);
+      setRevoked(false);
       setStep('done');
     } catch (error) {
       console.error('Encryption failed:', error);
@@ -126,6 +400,26 @@ const ComposeMessage = () => {
     }
   };
 
+  const handleRevoke = async () => {
+    if (!senderSigningKeys || !messageId) return;
+    try {
+      const auth = crypto.signSenderAction('revoke', messageId, senderSigningKeys.privateKey);
+      const response = await fetch(`http://localhost:3001/api/messages/${messageId}/revoke`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(auth),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Server responded with ${response.status}`);
+      }
+      setRevoked(true);
+    } catch (error) {
+      console.error('Revoke failed:', error);
+      alert('Revoke failed: ' + (error as Error).message);
+    }
+  };
+
   return (
     <div className="max-w-6xl mx-auto">
       <div className="terminal-window">
@@ -181,13 +475,63 @@ const ComposeMessage = () => {
               </div>
 
               <div>
-                <label className="block text-terminal-accent mb-2">RECIPIENT PUBLIC KEY (X25519)</label>
+                <label className="block text-terminal-accent mb-2">
+                  RECIPIENTS{recipientPublicKeys.length > 1 && ` - ${recipientPublicKeys.length} recipients`}
+                </label>
                 <input
                   type="text"
-                  value={recipientPublicKey}
-                  onChange={(e) => setRecipientPublicKey(e.target.value)}
-                  className="terminal-input w-full font-mono text-xs"
-                  placeholder="Base64 encoded X25519 public key"
+                  value={recipientQuery}
+                  onChange={(e) => setRecipientQuery(e.target.value)}
+                  className="terminal-input w-full"
+                  placeholder="Search the key directory by name or handle..."
+                />
+                {directoryMatches.length > 0 && (
+                  <div className="mt-1 border border-terminal-border rounded">
+                    {directoryMatches.map((identity) => (
+                      <button
+                        key={identity.handle}
+                        onClick={() => handlePickRecipient(identity)}
+                        className="block w-full text-left px-2 py-1 hover:bg-terminal-bg-secondary"
+                      >
+                        <span className="text-terminal-accent">{identity.displayName}</span>
+                        <span className="text-terminal-dim text-xs ml-2">@{identity.handle}</span>
+                        <span className="font-mono text-xs text-terminal-dim ml-2">{identity.fingerprint.slice(0, 19)}…</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {pickedRecipients.length > 0 && (
+                  <div className="mt-2 space-y-1 text-xs">
+                    {pickedRecipients.map((identity) => (
+                      <div key={identity.handle} className="flex justify-between">
+                        <span>
+                          <span className="text-terminal-success">{identity.displayName}</span>{' '}
+                          <span className="font-mono text-terminal-dim">{identity.fingerprint}</span>{' '}
+                          {identity.firstUse
+                            ? <span className="text-terminal-warning">NEW KEY - compare this fingerprint with them directly</span>
+                            : <span className="text-terminal-dim">pinned</span>}
+                        </span>
+                        <button
+                          onClick={() => setPickedRecipients(pickedRecipients.filter((picked) => picked.handle !== identity.handle))}
+                          className="text-terminal-error"
+                        >
+                          REMOVE
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-terminal-accent mb-2">
+                  OR PASTE RECIPIENT PUBLIC KEYS (X25519, one per line)
+                </label>
+                <textarea
+                  value={recipientKeysText}
+                  onChange={(e) => setRecipientKeysText(e.target.value)}
+                  className="terminal-input w-full h-20 font-mono text-xs"
+                  placeholder="Base64 encoded X25519 public key(s)"
                 />
                 <div className="mt-2 text-xs text-terminal-dim">
                   For demo: Generate a key pair in browser console:
@@ -197,10 +541,42 @@ const ComposeMessage = () => {
                 </div>
               </div>
 
+              {recipientPublicKeys.length > 1 && (
+                <div>
+                  <label className="block text-terminal-accent mb-2">
+                    UNLOCK THRESHOLD: {thresholdActive ? `${threshold} of ${recipientPublicKeys.length} recipients together` : 'each recipient alone'}
+                  </label>
+                  <input
+                    type="number"
+                    value={threshold}
+                    onChange={(e) => setThreshold(parseInt(e.target.value) || 0)}
+                    className="terminal-input w-full"
+                    min="0"
+                    max={recipientPublicKeys.length}
+                  />
+                  {!thresholdReady && (
+                    <div className="mt-1 text-xs text-terminal-error">
+                      Threshold cannot exceed the number of recipients
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-terminal-accent mb-2">ALLOWED DEVICES (optional)</label>
+                <input
+                  type="text"
+                  value={allowedDevices}
+                  onChange={(e) => setAllowedDevices(e.target.value)}
+                  className="terminal-input w-full font-mono text-xs"
+                  placeholder="device-1, device-2 (blank = any approved device)"
+                />
+              </div>
+
               <button
                 onClick={() => setStep('location')}
                 className="terminal-button w-full"
-                disabled={!message || !recipientPublicKey}
+                disabled={!message || recipientPublicKeys.length === 0 || !thresholdReady}
               >
                 NEXT: SET LOCATION
               </button>
@@ -232,6 +608,63 @@ const ComposeMessage = () => {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-terminal-accent mb-2">GEOFENCE SHAPE</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['circle', 'polygon', 'multi'] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => { setShape(option); setVertices([]); }}
+                      className={shape === option ? 'terminal-button' : 'terminal-button-secondary'}
+                    >
+                      {option === 'multi' ? 'MULTI-ZONE' : option.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+                {shape === 'polygon' && (
+                  <div className="mt-2 text-xs text-terminal-dim">
+                    Click the map to add vertices ({vertices.length} so far, at least 3).{' '}
+                    <button onClick={() => setVertices([])} className="text-terminal-accent">CLEAR</button>
+                  </div>
+                )}
+                {shape === 'multi' && (
+                  <div className="mt-2 space-y-2 text-xs">
+                    <div className="flex space-x-2 items-center">
+                      <span className="text-terminal-dim">UNLOCK WHEN INSIDE</span>
+                      <select
+                        value={multiMode}
+                        onChange={(e) => setMultiMode(e.target.value as 'any' | 'all')}
+                        className="terminal-input"
+                      >
+                        <option value="any">ANY ZONE</option>
+                        <option value="all">ALL ZONES</option>
+                      </select>
+                      <span className="text-terminal-dim">DRAW</span>
+                      <select
+                        value={zoneKind}
+                        onChange={(e) => { setZoneKind(e.target.value as 'circle' | 'polygon'); setVertices([]); }}
+                        className="terminal-input"
+                      >
+                        <option value="circle">CIRCLE</option>
+                        <option value="polygon">POLYGON</option>
+                      </select>
+                      <button
+                        onClick={handleAddZone}
+                        className="terminal-button-secondary px-2 py-1"
+                        disabled={zoneKind === 'polygon' && vertices.length < 3}
+                      >
+                        ADD ZONE
+                      </button>
+                    </div>
+                    <div className="text-terminal-dim">
+                      {zones.length} zone(s) added
+                      {zoneKind === 'polygon' && ` | drawing: ${vertices.length} vertices`}{' '}
+                      <button onClick={() => { setZones([]); setVertices([]); }} className="text-terminal-accent">CLEAR</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
               <div>
                 <label className="block text-terminal-accent mb-2">RADIUS (meters): {radius}m</label>
                 <input
@@ -245,15 +678,331 @@ const ComposeMessage = () => {
               </div>
 
               <div>
-                <label className="block text-terminal-accent mb-2">TIME WINDOW (hours): {windowHours}h</label>
-                <input
-                  type="range"
-                  min="1"
-                  max="168"
-                  value={windowHours}
-                  onChange={(e) => setWindowHours(parseInt(e.target.value))}
-                  className="w-full"
-                />
+                <label className="block text-terminal-accent mb-2">
+                  WAYPOINTS (visited in order before the final location){waypoints.length > 0 && ` - ${waypoints.length} stop(s)`}
+                </label>
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    value={waypointLabel}
+                    onChange={(e) => setWaypointLabel(e.target.value)}
+                    className="terminal-input flex-1"
+                    placeholder={`Stop ${waypoints.length + 1}`}
+                  />
+                  <button
+                    onClick={handleAddWaypoint}
+                    className="terminal-button-secondary px-2 py-1"
+                    disabled={waypoints.length >= 20}
+                  >
+                    ADD MARKER AS WAYPOINT
+                  </button>
+                </div>
+                {waypoints.length > 0 && (
+                  <div className="mt-2 space-y-1 text-xs">
+                    {waypoints.map((stop, i) => (
+                      <div key={i} className="flex justify-between">
+                        <span className="font-mono">
+                          {i + 1}. {stop.label}: {stop.latitude.toFixed(5)}, {stop.longitude.toFixed(5)} ({stop.radiusMeters}m)
+                        </span>
+                        <button
+                          onClick={() => setWaypoints(waypoints.filter((_, j) => j !== i))}
+                          className="text-terminal-error"
+                        >
+                          REMOVE
+                        </button>
+                      </div>
+                    ))}
+                    <div className="text-terminal-dim">
+                      The geofence above is the final stop, unlocked after every waypoint.
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-terminal-accent mb-2">VERTICAL CONSTRAINT</label>
+                <select
+                  value={verticalKind}
+                  onChange={(e) => setVerticalKind(e.target.value as 'none' | 'altitude' | 'floor')}
+                  className="terminal-input w-full"
+                >
+                  <option value="none">NONE (any altitude)</option>
+                  <option value="altitude">ALTITUDE RANGE</option>
+                  <option value="floor">FLOOR NUMBER</option>
+                </select>
+                {verticalKind === 'altitude' && (
+                  <div className="grid grid-cols-2 gap-4 mt-2">
+                    <div>
+                      <label className="block text-terminal-dim text-xs mb-1">MIN ALTITUDE (m above sea level)</label>
+                      <input
+                        type="number"
+                        value={minAltitude}
+                        onChange={(e) => setMinAltitude(parseFloat(e.target.value) || 0)}
+                        className="terminal-input w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-terminal-dim text-xs mb-1">MAX ALTITUDE (m above sea level)</label>
+                      <input
+                        type="number"
+                        value={maxAltitude}
+                        onChange={(e) => setMaxAltitude(parseFloat(e.target.value) || 0)}
+                        className="terminal-input w-full"
+                      />
+                    </div>
+                  </div>
+                )}
+                {verticalKind === 'floor' && (
+                  <div className="grid grid-cols-3 gap-4 mt-2">
+                    <div>
+                      <label className="block text-terminal-dim text-xs mb-1">FLOOR (0 = ground)</label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={floor}
+                        onChange={(e) => setFloor(parseInt(e.target.value) || 0)}
+                        className="terminal-input w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-terminal-dim text-xs mb-1">GROUND ALTITUDE (m)</label>
+                      <input
+                        type="number"
+                        value={groundAltitude}
+                        onChange={(e) => setGroundAltitude(parseFloat(e.target.value) || 0)}
+                        className="terminal-input w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-terminal-dim text-xs mb-1">FLOOR HEIGHT (m)</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="20"
+                        value={floorHeight}
+                        onChange={(e) => setFloorHeight(parseFloat(e.target.value) || 3)}
+                        className="terminal-input w-full"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-terminal-accent mb-2">TIME WINDOW</label>
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  <button
+                    onClick={() => setTimeMode('once')}
+                    className={timeMode === 'once' ? 'terminal-button' : 'terminal-button-secondary'}
+                  >
+                    ONE-OFF
+                  </button>
+                  <button
+                    onClick={() => setTimeMode('recurring')}
+                    className={timeMode === 'recurring' ? 'terminal-button' : 'terminal-button-secondary'}
+                  >
+                    RECURRING
+                  </button>
+                </div>
+                <div className="mb-2">
+                  <label className="block text-terminal-dim text-xs mb-1">UNLOCK FROM (blank = now)</label>
+                  <input
+                    type="datetime-local"
+                    value={releaseAt}
+                    onChange={(e) => setReleaseAt(e.target.value)}
+                    className="terminal-input w-full"
+                  />
+                  {!releaseReady && (
+                    <div className="text-terminal-error text-xs mt-1">Release time must be in the future</div>
+                  )}
+                </div>
+                {timeMode === 'once' && (
+                  <div>
+                    <label className="block text-terminal-dim text-xs mb-1">OPEN FOR (hours)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="8760"
+                      value={windowHours}
+                      onChange={(e) => setWindowHours(parseInt(e.target.value) || 1)}
+                      className="terminal-input w-full"
+                    />
+                  </div>
+                )}
+                {timeMode === 'recurring' && (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-terminal-dim text-xs mb-1">TIME ZONE (IANA)</label>
+                        <input
+                          type="text"
+                          value={timezone}
+                          onChange={(e) => setTimezone(e.target.value)}
+                          className="terminal-input w-full"
+                          placeholder="Asia/Kolkata"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-terminal-dim text-xs mb-1">SCHEDULE VALID FOR (days)</label>
+                        <input
+                          type="number"
+                          min="1"
+                          max="3650"
+                          value={scheduleDays}
+                          onChange={(e) => setScheduleDays(parseInt(e.target.value) || 1)}
+                          className="terminal-input w-full"
+                        />
+                      </div>
+                    </div>
+                    {scheduleRules.map((rule, index) => (
+                      <div key={index} className="terminal-card space-y-2 text-xs">
+                        <div className="flex space-x-1">
+                          {WEEKDAYS.map((day) => (
+                            <button
+                              key={day}
+                              onClick={() => updateRule(index, {
+                                days: rule.days.includes(day)
+                                  ? rule.days.filter((d) => d !== day)
+                                  : WEEKDAYS.filter((d) => d === day || rule.days.includes(d)),
+                              })}
+                              className={rule.days.includes(day) ? 'terminal-button px-2 py-1' : 'terminal-button-secondary px-2 py-1'}
+                            >
+                              {day.toUpperCase()}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="flex space-x-2 items-center">
+                          <input
+                            type="text"
+                            value={rule.start}
+                            onChange={(e) => updateRule(index, { start: e.target.value })}
+                            className="terminal-input w-20"
+                            placeholder="09:00"
+                          />
+                          <span className="text-terminal-dim">TO</span>
+                          <input
+                            type="text"
+                            value={rule.end}
+                            onChange={(e) => updateRule(index, { end: e.target.value })}
+                            className="terminal-input w-20"
+                            placeholder="17:00"
+                          />
+                          <select
+                            value={rule.weekOfMonth?.[0] ?? 0}
+                            onChange={(e) => {
+                              const week = parseInt(e.target.value);
+                              updateRule(index, { weekOfMonth: week === 0 ? undefined : [week] });
+                            }}
+                            className="terminal-input"
+                          >
+                            <option value={0}>EVERY WEEK</option>
+                            <option value={1}>1ST OF MONTH</option>
+                            <option value={2}>2ND OF MONTH</option>
+                            <option value={3}>3RD OF MONTH</option>
+                            <option value={4}>4TH OF MONTH</option>
+                            <option value={-1}>LAST OF MONTH</option>
+                          </select>
+                          <button
+                            onClick={() => setScheduleRules(scheduleRules.filter((_, i) => i !== index))}
+                            className="text-terminal-error"
+                          >
+                            REMOVE
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => setScheduleRules([...scheduleRules, { days: ['mon'], start: '00:00', end: '24:00' }])}
+                      className="terminal-button-secondary w-full text-xs"
+                    >
+                      ADD RULE
+                    </button>
+                    {scheduleReady && (
+                      <div className="text-terminal-dim text-xs">
+                        Opens: {describeSchedule({ timezone, rules: scheduleRules })}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-terminal-accent mb-2">CIPHER SUITE</label>
+                {commonSuites.length > 0 ? (
+                  <select
+                    value={suite}
+                    onChange={(e) => setSuite(e.target.value as crypto.CipherSuite)}
+                    className="terminal-input w-full"
+                  >
+                    {commonSuites.map((candidate) => (
+                      <option key={candidate} value={candidate}>{candidate}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="text-terminal-dim text-xs">
+                    Server did not list its suites - sending envelope version 1 ({crypto.LEGACY_ENVELOPE.suite})
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-terminal-accent mb-2">VERIFICATION POLICY</label>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-terminal-dim text-xs mb-1">MAX ATTESTATION AGE (s)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="3600"
+                      value={maxAttestationAgeSec}
+                      onChange={(e) => setMaxAttestationAgeSec(parseInt(e.target.value) || 1)}
+                      className="terminal-input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-terminal-dim text-xs mb-1">REQUIRED DWELL TIME (s, 0 = off)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="3600"
+                      value={minDwellSec}
+                      onChange={(e) => setMinDwellSec(parseInt(e.target.value) || 0)}
+                      className="terminal-input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-terminal-dim text-xs mb-1">MAX SPEED (m/s)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="1000"
+                      value={maxSpeedMps}
+                      onChange={(e) => setMaxSpeedMps(parseFloat(e.target.value) || 1)}
+                      className="terminal-input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-terminal-dim text-xs mb-1">MIN GPS ACCURACY (m, 0 = any)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={maxAccuracyMeters}
+                      onChange={(e) => setMaxAccuracyMeters(parseFloat(e.target.value) || 0)}
+                      className="terminal-input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-terminal-dim text-xs mb-1">MIN GEOFENCE CONFIDENCE (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={minConfidencePct}
+                      onChange={(e) => setMinConfidencePct(Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+                      className="terminal-input w-full"
+                    />
+                  </div>
+                </div>
               </div>
 
               <div className="h-64 border border-terminal-border rounded overflow-hidden">
@@ -266,12 +1015,60 @@ const ComposeMessage = () => {
                     url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
                     attribution='&copy; OpenStreetMap contributors'
                   />
-                  <Marker position={[coordinates.lat, coordinates.lon]} />
-                  <Circle
-                    center={[coordinates.lat, coordinates.lon]}
-                    radius={radius}
-                    pathOptions={{ color: '#00ff00', fillColor: '#00ff00', fillOpacity: 0.2 }}
-                  />
+                  {!drawingPolygon && (
+                    <>
+                      <Marker position={[coordinates.lat, coordinates.lon]} />
+                      <Circle
+                        center={[coordinates.lat, coordinates.lon]}
+                        radius={radius}
+                        pathOptions={{ color: '#00ff00', fillColor: '#00ff00', fillOpacity: 0.2 }}
+                      />
+                    </>
+                  )}
+                  {drawingPolygon && vertices.length > 0 && (
+                    vertices.length >= 3 ? (
+                      <Polygon
+                        positions={vertices.map((v) => [v.lat, v.lon] as [number, number])}
+                        pathOptions={{ color: '#00ff00', fillColor: '#00ff00', fillOpacity: 0.2 }}
+                      />
+                    ) : (
+                      <Polyline
+                        positions={vertices.map((v) => [v.lat, v.lon] as [number, number])}
+                        pathOptions={{ color: '#00ff00' }}
+                      />
+                    )
+                  )}
+                  {shape === 'multi' && zones.map((zone, i) => zone.type === 'circle' ? (
+                    <Circle
+                      key={i}
+                      center={[zone.latitude, zone.longitude]}
+                      radius={zone.radiusMeters}
+                      pathOptions={{ color: '#ffaa00', fillColor: '#ffaa00', fillOpacity: 0.2 }}
+                    />
+                  ) : (
+                    <Polygon
+                      key={i}
+                      positions={zone.vertices.map((v) => [v.lat, v.lon] as [number, number])}
+                      pathOptions={{ color: '#ffaa00', fillColor: '#ffaa00', fillOpacity: 0.2 }}
+                    />
+                  ))}
+                  {waypoints.map((stop, i) => (
+                    <Circle
+                      key={`waypoint-${i}`}
+                      center={[stop.latitude, stop.longitude]}
+                      radius={stop.radiusMeters}
+                      pathOptions={{ color: '#00aaff', fillColor: '#00aaff', fillOpacity: 0.2 }}
+                    />
+                  ))}
+                  {waypoints.length > 0 && (
+                    <Polyline
+                      positions={[
+                        ...waypoints.map((stop) => [stop.latitude, stop.longitude] as [number, number]),
+                        [coordinates.lat, coordinates.lon],
+                      ]}
+                      pathOptions={{ color: '#00aaff', dashArray: '6 6' }}
+                    />
+                  )}
                   <MapClickHandler onClick={handleMapClick} />
                 </MapContainer>
               </div>
@@ -280,7 +1077,7 @@ const ComposeMessage = () => {
                 <button onClick={() => setStep('compose')} className="terminal-button-secondary flex-1">
                   BACK
                 </button>
-                <button onClick={handleEncrypt} className="terminal-button flex-1">
+                <button onClick={handleEncrypt} className="terminal-button flex-1" disabled={!geofenceReady || !verticalReady || !scheduleReady || !releaseReady}>
                   ENCRYPT & STORE
                 </button>
               </div>
@@ -294,10 +1091,10 @@ const ComposeMessage = () => {
               </div>
               <div className="space-y-2 text-sm text-terminal-text-secondary">
                 <div>✓ Generating ephemeral keys</div>
-                <div>✓ Computing shared secret</div>
+                <div>✓ Computing shared secrets</div>
                 <div>✓ Deriving location-bound key</div>
                 <div>✓ Encrypting payload</div>
-                <div>✓ Wrapping message key</div>
+                <div>✓ Wrapping message key per recipient</div>
               </div>
             </div>
           )}
@@ -315,18 +1112,58 @@ const ComposeMessage = () => {
                   Message can only be decrypted at:
                 </div>
                 <div className="font-mono text-xs">
-                  {coordinates.lat.toFixed(6)}°N, {coordinates.lon.toFixed(6)}°E
+                  {shape === 'circle' && `${coordinates.lat.toFixed(6)}°N, ${coordinates.lon.toFixed(6)}°E`}
+                  {shape === 'polygon' && `Polygon with ${vertices.length} vertices`}
+                  {shape === 'multi' && `${multiMode === 'any' ? 'Any' : 'All'} of ${zones.length} zones`}
                 </div>
                 <div className="font-mono text-xs">
-                  Radius: {radius}m | Window: {windowHours}h
+                  {shape === 'circle' && `Radius: ${radius}m | `}
+                  {releaseAt && `Opens ${new Date(releaseAt).toLocaleString()} | `}
+                  {timeMode === 'once'
+                    ? `Window: ${windowHours}h`
+                    : `Schedule: ${describeSchedule({ timezone, rules: scheduleRules })} for ${scheduleDays} days`}
                 </div>
+                {waypoints.length > 0 && (
+                  <div className="font-mono text-xs">
+                    After visiting in order: {waypoints.map((stop) => stop.label).join(' → ')}
+                  </div>
+                )}
+                {thresholdActive && (
+                  <div className="font-mono text-xs">
+                    Needs {threshold} of {recipientPublicKeys.length} recipients on site
+                  </div>
+                )}
+                <div className="font-mono text-xs">
+                  Forward secrecy (one-time prekey): {prekeyRecipients} of {recipientPublicKeys.length} recipients
+                </div>
+                {sentEnvelope && (
+                  <div className="font-mono text-xs">
+                    Envelope: v{sentEnvelope.version}, {sentEnvelope.suite}
+                  </div>
+                )}
+                {senderSigningKeys && (
+                  <>
+                    <div className="terminal-divider" />
+                    <div className="text-terminal-accent">Sender Signing Key (keep to revoke):</div>
+                    <div className="font-mono text-xs break-all">{senderSigningKeys.privateKey}</div>
+                  </>
+                )}
+              </div>
+              <div className="flex justify-center space-x-4 mt-6">
+                <button
+                  onClick={() => navigate('/messages')}
+                  className="terminal-button"
+                >
+                  VIEW MESSAGES
+                </button>
+                <button
+                  onClick={handleRevoke}
+                  className="terminal-button-secondary"
+                  disabled={revoked || !senderSigningKeys}
+                >
+                  {revoked ? 'REVOKED' : 'REVOKE MESSAGE'}
+                </button>
               </div>
-              <button
-                onClick={() => navigate('/messages')}
-                className="terminal-button mt-6"
-              >
-                VIEW MESSAGES
-              </button>
             </div>
           )}
         </div>
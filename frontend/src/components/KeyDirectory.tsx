@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { searchDirectory, type DirectoryIdentity } from '../lib/directory';
+
+const KeyDirectory = () => {
+  const [query, setQuery] = useState('');
+  const [identities, setIdentities] = useState<DirectoryIdentity[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchIdentities();
+  }, [query]);
+
+  const fetchIdentities = async () => {
+    try {
+      setIdentities(await searchDirectory(query));
+    } catch (error) {
+      console.error('Failed to search directory:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-4">
+      <div className="terminal-window">
+        <div className="terminal-header">
+          <span className="terminal-title">Key Directory</span>
+        </div>
+
+        <div className="terminal-body space-y-4">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="terminal-input w-full"
+            placeholder="Search by handle or name..."
+          />
+
+          {loading && (
+            <div className="text-center py-6 text-terminal-accent animate-pulse">
+              LOADING...
+            </div>
+          )}
+
+          {!loading && identities.length === 0 && (
+            <div className="text-center py-6 text-terminal-dim">NO IDENTITIES FOUND</div>
+          )}
+
+          {!loading && identities.map((identity) => (
+            <div key={identity.handle} className="terminal-card">
+              <div className="flex items-start justify-between mb-1">
+                <div className="font-bold text-terminal-accent">{identity.displayName}</div>
+                <div className="font-mono text-xs text-terminal-dim">@{identity.handle}</div>
+              </div>
+              <div className="text-xs text-terminal-dim">Fingerprint:</div>
+              <div className="font-mono text-xs">{identity.fingerprint}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="text-center text-sm text-terminal-dim">
+        To publish your own identity, create it in the{' '}
+        <Link to="/keys" className="terminal-link">KEYSTORE</Link> first.
+      </div>
+    </div>
+  );
+};
+
+export default KeyDirectory;
@@ -0,0 +1,361 @@
+import { useState, useEffect } from 'react';
+import {
+  createIdentity,
+  deleteIdentity,
+  exportBackup,
+  generatePrekeys,
+  getActiveSession,
+  getIdentity,
+  importBackup,
+  isKeystoreInitialized,
+  listIdentities,
+  lockKeystore,
+  setIdentityHandle,
+  unlockKeystore,
+  type IdentitySummary,
+  type KeystoreSession,
+} from '../lib/keystore';
+import { publishIdentity, uploadPrekeys } from '../lib/directory';
+import { authorizeDevice, listOwnedDevices, type DeviceRecord } from '../lib/attestation';
+
+const PREKEY_BATCH = 10;
+
+const KeyManager = () => {
+  const [initialized, setInitialized] = useState<boolean | null>(null);
+  const [session, setSession] = useState<KeystoreSession | null>(getActiveSession());
+  const [identities, setIdentities] = useState<IdentitySummary[]>([]);
+  const [devices, setDevices] = useState<Record<string, DeviceRecord[]>>({}); // By owner handle
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [label, setLabel] = useState('');
+  const [publishing, setPublishing] = useState<string | null>(null); // Identity being published
+  const [handle, setHandle] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const refresh = async () => {
+    setInitialized(await isKeystoreInitialized());
+    const list = await listIdentities();
+    setIdentities(list);
+
+    // Devices registered to our published handles wait for our approval
+    const owned: Record<string, DeviceRecord[]> = {};
+    for (const identity of list) {
+      if (identity.handle) {
+        owned[identity.handle] = await listOwnedDevices(identity.handle).catch(() => []);
+      }
+    }
+    setDevices(owned);
+  };
+
+  // Run a keystore action with shared busy/error handling
+  const run = async (action: () => Promise<string | void>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      setNotice(null);
+      const message = await action();
+      if (message) setNotice(message);
+      await refresh();
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUnlock = () => run(async () => {
+    if (!initialized && passphrase !== confirmPassphrase) {
+      throw new Error('Passphrases do not match');
+    }
+    setSession(await unlockKeystore(passphrase));
+    setPassphrase('');
+    setConfirmPassphrase('');
+  });
+
+  const handleLock = () => {
+    lockKeystore();
+    setSession(null);
+  };
+
+  const handleCreate = () => run(async () => {
+    const identity = await createIdentity(session!, label || 'My identity');
+    setLabel('');
+    return `Created "${identity.label}"`;
+  });
+
+  const handlePublish = (id: string) => run(async () => {
+    const identity = await getIdentity(session!, id);
+    if (!identity) throw new Error('Identity not found');
+    const published = await publishIdentity(handle.trim().toLowerCase(), displayName.trim(), identity);
+    await setIdentityHandle(session!, id, published.handle);
+    await uploadPrekeys(published.handle, await generatePrekeys(session!, id, PREKEY_BATCH), identity.signingPrivateKey);
+    setPublishing(null);
+    setHandle('');
+    setDisplayName('');
+    return `Published as @${published.handle} (${published.fingerprint})`;
+  });
+
+  // Replenish the directory's one-time prekeys (one is used up per message)
+  const handleUploadPrekeys = (id: string) => run(async () => {
+    const prekeys = await generatePrekeys(session!, id, PREKEY_BATCH);
+    const identity = await getIdentity(session!, id);
+    const available = await uploadPrekeys(identity!.handle!, prekeys, identity!.signingPrivateKey);
+    return `Uploaded ${prekeys.length} prekeys (${available} available in the directory)`;
+  });
+
+  // Approve or revoke a device registered to this identity's handle
+  const handleDeviceAction = (id: string, action: 'approve' | 'revoke', deviceId: string) => run(async () => {
+    const identity = await getIdentity(session!, id);
+    if (!identity?.handle) throw new Error('Identity is not published');
+    const device = await authorizeDevice(action, deviceId, identity.handle, identity.signingPrivateKey);
+    return `Device ${device.deviceId} ${device.status}`;
+  });
+
+  const handleDelete = (identity: IdentitySummary) => run(async () => {
+    if (!confirm(`Delete "${identity.label}"? Messages to this key can no longer be unlocked here.`)) return;
+    await deleteIdentity(identity.id);
+    return `Deleted "${identity.label}"`;
+  });
+
+  const handleExport = () => run(async () => {
+    const backup = await exportBackup(session!, backupPassphrase);
+    const url = URL.createObjectURL(new Blob([backup], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `locmsg-keystore-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    return 'Backup exported';
+  });
+
+  const handleImport = () => run(async () => {
+    const count = await importBackup(session!, await backupFile!.text(), backupPassphrase);
+    return `Imported ${count} identit${count === 1 ? 'y' : 'ies'}`;
+  });
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-4">
+      <div className="terminal-window">
+        <div className="terminal-header">
+          <span className="terminal-title">Keystore</span>
+          <span className={`terminal-badge ${session ? 'text-terminal-success' : 'text-terminal-warning'}`}>
+            {session ? 'UNLOCKED' : 'LOCKED'}
+          </span>
+        </div>
+
+        <div className="terminal-body space-y-4">
+          {!session && initialized !== null && (
+            <div className="space-y-2">
+              <label className="block text-terminal-accent">
+                {initialized ? 'PASSPHRASE' : 'CHOOSE A PASSPHRASE (encrypts your private keys in this browser)'}
+              </label>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="terminal-input w-full"
+              />
+              {!initialized && (
+                <input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  className="terminal-input w-full"
+                  placeholder="Repeat passphrase"
+                />
+              )}
+              <button
+                onClick={handleUnlock}
+                className="terminal-button w-full"
+                disabled={busy || passphrase.length < 8}
+              >
+                {busy ? 'DERIVING KEY...' : initialized ? 'UNLOCK' : 'CREATE KEYSTORE'}
+              </button>
+            </div>
+          )}
+
+          {identities.length === 0 && (
+            <div className="text-center py-6 text-terminal-dim">NO IDENTITIES YET</div>
+          )}
+
+          {identities.map((identity) => (
+            <div key={identity.id} className="terminal-card space-y-1">
+              <div className="flex items-start justify-between">
+                <div className="font-bold text-terminal-accent">{identity.label}</div>
+                <div className="text-xs text-terminal-dim">
+                  {identity.handle ? `@${identity.handle}` : 'not published'}
+                </div>
+              </div>
+              <div className="text-xs text-terminal-dim">Public Key (X25519):</div>
+              <div className="font-mono text-xs break-all">{identity.publicKey}</div>
+              {identity.handle && (
+                <div className="text-xs text-terminal-dim">
+                  One-time prekeys held: {identity.prekeys?.length ?? 0}
+                </div>
+              )}
+
+              {identity.handle && (devices[identity.handle] ?? []).map((device) => (
+                <div key={device.deviceId} className="flex items-center justify-between text-xs">
+                  <span>
+                    <span className="font-mono">{device.deviceId}</span>
+                    {device.label && ` (${device.label})`}
+                    <span className="text-terminal-dim"> - {device.status.toUpperCase()}</span>
+                  </span>
+                  {session && device.status !== 'revoked' && (
+                    <span className="space-x-4">
+                      {device.status === 'pending' && (
+                        <button
+                          onClick={() => handleDeviceAction(identity.id, 'approve', device.deviceId)}
+                          className="text-terminal-accent"
+                          disabled={busy}
+                        >
+                          APPROVE
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDeviceAction(identity.id, 'revoke', device.deviceId)}
+                        className="text-terminal-error"
+                        disabled={busy}
+                      >
+                        REVOKE
+                      </button>
+                    </span>
+                  )}
+                </div>
+              ))}
+
+              {session && publishing === identity.id && (
+                <div className="grid grid-cols-3 gap-2 pt-2">
+                  <input
+                    type="text"
+                    value={handle}
+                    onChange={(e) => setHandle(e.target.value)}
+                    className="terminal-input"
+                    placeholder="officer.bravo"
+                  />
+                  <input
+                    type="text"
+                    value={displayName}
+                    onChange={(e) => setDisplayName(e.target.value)}
+                    className="terminal-input"
+                    placeholder="Officer Bravo"
+                  />
+                  <button
+                    onClick={() => handlePublish(identity.id)}
+                    className="terminal-button"
+                    disabled={busy || handle.trim().length < 3 || !displayName.trim()}
+                  >
+                    PUBLISH
+                  </button>
+                </div>
+              )}
+
+              {session && (
+                <div className="flex space-x-4 text-xs pt-1">
+                  {!identity.handle && publishing !== identity.id && (
+                    <button onClick={() => setPublishing(identity.id)} className="text-terminal-accent">
+                      PUBLISH TO DIRECTORY
+                    </button>
+                  )}
+                  {identity.handle && (
+                    <button onClick={() => handleUploadPrekeys(identity.id)} className="text-terminal-accent" disabled={busy}>
+                      UPLOAD {PREKEY_BATCH} PREKEYS
+                    </button>
+                  )}
+                  <button onClick={() => handleDelete(identity)} className="text-terminal-error">
+                    DELETE
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {session && (
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="terminal-input flex-1"
+                placeholder="Label, e.g. Work phone"
+              />
+              <button onClick={handleCreate} className="terminal-button" disabled={busy}>
+                NEW IDENTITY
+              </button>
+              <button onClick={handleLock} className="terminal-button-secondary">
+                LOCK
+              </button>
+            </div>
+          )}
+
+          {notice && (
+            <div className="terminal-card border-terminal-success">
+              <div className="text-terminal-success text-sm">{notice}</div>
+            </div>
+          )}
+
+          {error && (
+            <div className="terminal-card border-terminal-error">
+              <div className="text-terminal-error">{error}</div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {session && (
+        <div className="terminal-window">
+          <div className="terminal-header">
+            <span className="terminal-title">Encrypted Backup</span>
+          </div>
+
+          <div className="terminal-body space-y-4">
+            <div>
+              <label className="block text-terminal-accent mb-2">BACKUP PASSPHRASE</label>
+              <input
+                type="password"
+                value={backupPassphrase}
+                onChange={(e) => setBackupPassphrase(e.target.value)}
+                className="terminal-input w-full"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <button
+                onClick={handleExport}
+                className="terminal-button"
+                disabled={busy || backupPassphrase.length < 8 || identities.length === 0}
+              >
+                EXPORT BACKUP FILE
+              </button>
+              <div className="flex space-x-2">
+                <input
+                  type="file"
+                  accept="application/json"
+                  onChange={(e) => setBackupFile(e.target.files?.[0] ?? null)}
+                  className="terminal-input flex-1 text-xs"
+                />
+                <button
+                  onClick={handleImport}
+                  className="terminal-button-secondary"
+                  disabled={busy || !backupFile || !backupPassphrase}
+                >
+                  IMPORT
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeyManager;
@@ -1,18 +1,61 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { MapContainer, TileLayer, Marker, Circle } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Circle, Polygon } from 'react-leaflet';
+import * as util from 'tweetnacl-util';
 import * as crypto from '../lib/crypto';
+import {
+  authorizeDevice,
+  fetchDevice,
+  getDeviceIdentity,
+  requestServerUnlock,
+  type DeviceRecord,
+  type LocationPoint,
+  type PositionFix,
+  type StageTarget,
+  type StageWrap,
+} from '../lib/attestation';
+import {
+  deletePrekey,
+  getActiveSession,
+  getIdentity,
+  listIdentities,
+  privateKeyFor,
+  unlockKeystore,
+  type IdentitySummary,
+  type KeystoreSession,
+} from '../lib/keystore';
+import { describeSchedule, isWithinSchedule, type RecurringSchedule } from '../lib/schedule';
+import { checkGeofence, describeVertical, type Geofence, type VerticalConstraint } from '../lib/geofence';
+
+interface MessageRecipient {
+  recipientPublicKey: string;
+  prekeyId?: number; // recipientPublicKey is a one-time prekey of a directory identity
+}
+
+// Our wrap, only released by a verified server unlock
+interface RecipientWrap extends StageWrap, MessageRecipient {
+  stageWraps?: StageWrap[]; // One per waypoint (up to the current stage mid-chain)
+  serverKeyShare?: string; // Released with the final wrap, see combineKeyShares
+}
+
+interface Waypoint {
+  label?: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  nonce: string;
+  geofence?: Geofence;
+}
 
 interface StoredMessage {
   id: string;
+  envelope?: crypto.MessageEnvelope; // Version and cipher suite (absent = version 1)
   senderPublicKey: string;
-  recipientPublicKey: string;
+  recipients: MessageRecipient[]; // Without key wraps
+  threshold?: number; // k-of-n: wraps hold Shamir shares of K_msg
   encryptedPayload: string;
   payloadNonce: string;
   payloadAuthTag: string;
-  wrappedKey: string;
-  wrappedKeyNonce: string;
-  wrappedKeyAuthTag: string;
   locationBinding: {
     latitude: number;
     longitude: number;
@@ -20,6 +63,10 @@ interface StoredMessage {
     windowStart: number;
     windowEnd: number;
     nonce: string;
+    geofence?: Geofence;
+    vertical?: VerticalConstraint;
+    schedule?: RecurringSchedule;
+    waypoints?: Waypoint[];
   };
   metadata: {
     title?: string;
@@ -28,6 +75,22 @@ interface StoredMessage {
   };
 }
 
+interface ShareSession {
+  myPublicKey: string;
+  myShare: string;
+  contributionToken: string;
+}
+
+interface ShareProgress {
+  threshold: number;
+  recipients: number;
+  contributed: number;
+}
+
+// Movement history sent with each attestation (dwell time, teleport check)
+const MOVEMENT_SAMPLE_MS = 5000;
+const MOVEMENT_WINDOW_MS = 10 * 60 * 1000;
+
 const MessageViewer = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -36,21 +99,128 @@ const MessageViewer = () => {
   const [unlocking, setUnlocking] = useState(false);
   const [decrypted, setDecrypted] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
   
-  // Mock location (in production, use Geolocation API)
-  const [userLat, setUserLat] = useState(18.5204);
-  const [userLon, setUserLon] = useState(73.8567);
+  // Position: typed in for the demo, or followed from the Geolocation API
+  const [useGPS, setUseGPS] = useState(false);
+  const [fix, setFix] = useState<PositionFix>({ latitude: 18.5204, longitude: 73.8567, accuracy: 10 });
+  const [movementHistory, setMovementHistory] = useState<LocationPoint[]>([]);
   const [recipientPrivateKey, setRecipientPrivateKey] = useState('');
+  
+  // Keystore identity addressed by this message, if we hold one
+  const [keystoreIdentity, setKeystoreIdentity] = useState<IdentitySummary | null>(null);
+  const [keystorePassphrase, setKeystorePassphrase] = useState('');
+  const [keystoreError, setKeystoreError] = useState<string | null>(null);
+  const [prekeyDeleted, setPrekeyDeleted] = useState(false);
+  
+  // This browser's attesting device, and whether its owner has approved it
+  const [device, setDevice] = useState<DeviceRecord | null>(null);
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  
+  // Threshold (k-of-n) messages
+  const [shareSession, setShareSession] = useState<ShareSession | null>(null);
+  const [shareProgress, setShareProgress] = useState<ShareProgress | null>(null);
+  
+  // Waypoint chains: the stage this recipient has to unlock next
+  const [nextStage, setNextStage] = useState<StageTarget | null>(null);
 
   useEffect(() => {
     fetchMessage();
   }, [id]);
 
+  // Pick the keystore identity this message is addressed to
+  useEffect(() => {
+    if (!message) return;
+    const recipientKeys = message.recipients.map((recipient) => recipient.recipientPublicKey);
+    listIdentities()
+      .then((identities) => {
+        const identity = identities.find((entry) =>
+          [entry.publicKey, ...(entry.prekeys ?? []).map((prekey) => prekey.publicKey)]
+            .some((publicKey) => recipientKeys.includes(publicKey))) ?? null;
+        setKeystoreIdentity(identity);
+        const session = getActiveSession();
+        if (identity && session) loadKeystoreKey(session, identity);
+      })
+      .catch((error) => console.error('Keystore unavailable:', error));
+  }, [message]);
+
+  // Follow the device's position, altitude included where it reports one
+  useEffect(() => {
+    if (!useGPS || !('geolocation' in navigator)) return;
+    const watchId = navigator.geolocation.watchPosition(
+      ({ coords }) => setFix({
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+        accuracy: coords.accuracy,
+        altitude: coords.altitude ?? undefined,
+        altitudeAccuracy: coords.altitudeAccuracy ?? undefined,
+      }),
+      (error) => {
+        console.error('GPS error:', error);
+        setError('Failed to get GPS location');
+        setUseGPS(false);
+      },
+      { enableHighAccuracy: true }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [useGPS]);
+
+  // Sample our position while the page is open; a position typed in by hand
+  // starts a new history, as a jump between typed values is not movement
+  useEffect(() => {
+    const record = () => setMovementHistory((history) => [
+      ...history.filter((point) => point.timestamp > Date.now() - MOVEMENT_WINDOW_MS),
+      { lat: fix.latitude, lon: fix.longitude, timestamp: Date.now() },
+    ]);
+    if (!useGPS) setMovementHistory([]);
+    record();
+    const timer = setInterval(record, MOVEMENT_SAMPLE_MS);
+    return () => clearInterval(timer);
+  }, [fix.latitude, fix.longitude, useGPS]);
+
+  // Clock for the delayed-release countdown
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Waypoint progress is tracked per recipient, so it needs our public key
+  useEffect(() => {
+    if (!message?.locationBinding.waypoints || !recipientPrivateKey) return;
+    try {
+      fetchWaypointProgress(crypto.publicKeyFromPrivateKey(recipientPrivateKey));
+    } catch {
+      // Not a valid key (yet) - keep the previous progress
+    }
+  }, [message, recipientPrivateKey]);
+
+  // Poll for the other recipients' shares until k of them have been on site
+  useEffect(() => {
+    if (!shareSession || decrypted) return;
+    collectShares(shareSession);
+    const timer = setInterval(() => collectShares(shareSession), 5000);
+    return () => clearInterval(timer);
+  }, [shareSession, decrypted]);
+
+  const formatCountdown = (ms: number) => {
+    const total = Math.ceil(ms / 1000);
+    const days = Math.floor(total / 86400);
+    const hours = Math.floor((total % 86400) / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const seconds = total % 60;
+    const clock = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+    return days > 0 ? `${days}d ${clock}` : clock;
+  };
+
   const fetchMessage = async () => {
     try {
       const response = await fetch(`http://localhost:3001/api/messages/${id}/encrypted`);
       const data = await response.json();
       setMessage(data);
+      const envelope = crypto.getEnvelope(data);
+      if (!crypto.isSupportedEnvelope(envelope)) {
+        setError(`This message uses envelope v${envelope.version} (${envelope.suite}), which this client cannot decrypt`);
+      }
     } catch (error) {
       setError('Failed to fetch message');
     } finally {
@@ -58,20 +228,219 @@ const MessageViewer = () => {
     }
   };
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 6371000;
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-    
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-              Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  // Long-term key, or the one-time prekey this message was wrapped to
+  const loadKeystoreKey = async (session: KeystoreSession, identity: IdentitySummary) => {
+    const secrets = await getIdentity(session, identity.id);
+    if (!secrets || !message) return;
+    const privateKey = message.recipients
+      .map((recipient) => privateKeyFor(secrets, recipient.recipientPublicKey))
+      .find(Boolean);
+    if (privateKey) setRecipientPrivateKey(privateKey);
+  };
+
+  const handleKeystoreUnlock = async () => {
+    try {
+      setKeystoreError(null);
+      const session = await unlockKeystore(keystorePassphrase);
+      if (keystoreIdentity) await loadKeystoreKey(session, keystoreIdentity);
+      setKeystorePassphrase('');
+    } catch (error) {
+      setKeystoreError((error as Error).message);
+    }
+  };
+
+  // Approve this browser's device with the recipient's directory identity
+  const handleApproveDevice = async () => {
+    const session = getActiveSession();
+    if (!device || !keystoreIdentity?.handle || !session) return;
+    try {
+      setDeviceError(null);
+      const secrets = await getIdentity(session, keystoreIdentity.id);
+      if (!secrets) throw new Error('Keystore identity not found');
+      setDevice(await authorizeDevice('approve', device.deviceId, keystoreIdentity.handle, secrets.signingPrivateKey));
+    } catch (error) {
+      setDeviceError((error as Error).message);
+    }
+  };
+
+  const fetchWaypointProgress = async (myPublicKey: string) => {
+    const response = await fetch(
+      `http://localhost:3001/api/messages/${id}/waypoints?recipientPublicKey=${encodeURIComponent(myPublicKey)}`
+    );
+    if (response.ok) {
+      const progress = await response.json();
+      setNextStage(progress.next);
+    }
+  };
+
+  // Plain circle bindings (and waypoints) may have no explicit geofence
+  const getGeofence = (
+    binding: { latitude: number; longitude: number; radiusMeters: number; geofence?: Geofence }
+  ): Geofence => binding.geofence ?? {
+    type: 'circle',
+    latitude: binding.latitude,
+    longitude: binding.longitude,
+    radiusMeters: binding.radiusMeters,
+  };
+
+  // Geofence of the stage to unlock next (the final binding unless mid-chain)
+  const getTargetGeofence = (msg: StoredMessage): Geofence => {
+    const waypoint = nextStage && !nextStage.final ? msg.locationBinding.waypoints?.[nextStage.stage] : undefined;
+    return getGeofence(waypoint ?? msg.locationBinding);
+  };
+
+  /**
+   * Key input for a stage: the shared secret, then each chain key in turn
+   * (stage i's wrap holds the chain key C_{i+1} for the next stage)
+   */
+  const deriveChainInput = async (msg: StoredMessage, wrap: RecipientWrap, stage: number): Promise<string> => {
+    const envelope = crypto.getEnvelope(msg);
+    let chainInput = crypto.computeSharedSecret(recipientPrivateKey, msg.senderPublicKey);
+    const waypoints = msg.locationBinding.waypoints ?? [];
+    for (let i = 0; i < stage; i++) {
+      const stageWrap = wrap.stageWraps![i];
+      const stageKey = await crypto.deriveWaypointKey(chainInput, waypoints[i], msg.locationBinding, envelope);
+      const chainKey = await crypto.unwrapKey(
+        stageWrap.wrappedKey,
+        stageKey,
+        stageWrap.wrappedKeyNonce,
+        stageWrap.wrappedKeyAuthTag,
+        envelope.suite
+      );
+      chainInput = util.encodeBase64(chainKey);
+    }
+    return chainInput;
+  };
+
+  // Derive our location-bound key and unwrap K_msg (or our share of it)
+  const unwrapOwnKey = async (msg: StoredMessage, wrap: RecipientWrap): Promise<Uint8Array> => {
+    const envelope = crypto.getEnvelope(msg);
+
+    // Shared secret, or the last chain key of a waypoint chain
+    const chainInput = await deriveChainInput(msg, wrap, msg.locationBinding.waypoints?.length ?? 0);
+
+    // Derive location-bound key
+    const locationBoundKey = await crypto.deriveLocationBoundKey(
+      chainInput,
+      msg.locationBinding.latitude,
+      msg.locationBinding.longitude,
+      msg.locationBinding.radiusMeters,
+      msg.locationBinding.windowStart,
+      msg.locationBinding.windowEnd,
+      msg.locationBinding.nonce,
+      crypto.bindingConstraints(msg.locationBinding),
+      envelope
+    );
+
+    // The final wrap also needs the server's key share (older messages have none)
+    const wrappingKey = wrap.serverKeyShare
+      ? await crypto.combineKeyShares(locationBoundKey, wrap.serverKeyShare, envelope)
+      : locationBoundKey;
+
+    // Unwrap message key
+    return await crypto.unwrapKey(
+      wrap.wrappedKey,
+      wrappingKey,
+      wrap.wrappedKeyNonce,
+      wrap.wrappedKeyAuthTag,
+      envelope.suite
+    );
+  };
+
+  const decryptPayload = async (msg: StoredMessage, messageKey: Uint8Array) => {
+    const plaintext = await crypto.decryptWithSuite(
+      crypto.getEnvelope(msg).suite,
+      msg.encryptedPayload,
+      messageKey,
+      msg.payloadNonce,
+      msg.payloadAuthTag
+    );
+    setDecrypted(plaintext);
     
-    return R * c;
+    // Forward secrecy: a one-time prekey is never needed again once read
+    const myPublicKey = crypto.publicKeyFromPrivateKey(recipientPrivateKey);
+    const recipient = msg.recipients.find((entry) => entry.recipientPublicKey === myPublicKey);
+    const session = getActiveSession();
+    if (recipient?.prekeyId && keystoreIdentity && session) {
+      await deletePrekey(session, keystoreIdentity.id, recipient.prekeyId);
+      setPrekeyDeleted(true);
+    }
   };
 
+  /**
+   * Threshold messages: contribute our share sealed to every other
+   * recipient, then wait for k-1 shares sealed to us
+   */
+  const contributeShare = async (msg: StoredMessage, wrap: RecipientWrap, contributionToken: string) => {
+    const myShare = util.encodeBase64(await unwrapOwnKey(msg, wrap));
+    const shares = msg.recipients
+      .filter((entry) => entry.recipientPublicKey !== wrap.recipientPublicKey)
+      .map((entry) => ({
+        to: entry.recipientPublicKey,
+        ...crypto.sealShare(myShare, recipientPrivateKey, entry.recipientPublicKey),
+      }));
+
+    const response = await fetch(`http://localhost:3001/api/messages/${msg.id}/shares`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        recipientPublicKey: wrap.recipientPublicKey,
+        contributionToken,
+        shares,
+      }),
+    });
+    const result = await response.json();
+    // 409: our share is already in from an earlier unlock - just collect
+    if (!response.ok && response.status !== 409) {
+      setError(`Share contribution failed: ${result.error}`);
+      return;
+    }
+
+    if (response.ok) setShareProgress(result);
+    setShareSession({
+      myPublicKey: wrap.recipientPublicKey,
+      myShare,
+      contributionToken,
+    });
+  };
+
+  const collectShares = async (session: ShareSession) => {
+    if (!message) return;
+
+    try {
+      const response = await fetch(`http://localhost:3001/api/messages/${message.id}/shares/collect`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          recipientPublicKey: session.myPublicKey,
+          contributionToken: session.contributionToken,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(`Share collection failed: ${result.error}`);
+        return;
+      }
+      setShareProgress(result);
+      if (!result.shares) return;
+
+      // Our share plus k-1 of theirs recover K_msg
+      const theirs = result.shares
+        .slice(0, result.threshold - 1)
+        .map((share: { from: string; ciphertext: string; nonce: string }) =>
+          crypto.openShare(share, recipientPrivateKey, share.from));
+      await decryptPayload(message, crypto.combineShares([session.myShare, ...theirs]));
+    } catch (error) {
+      console.error('Share combination failed:', error);
+      setError('Share combination failed: ' + (error as Error).message);
+    }
+  };
+
+  /**
+   * Every unlock goes through the server: it verifies our attestation and only
+   * then releases our key wrap. Waypoint chains advance one stage per unlock;
+   * the final stage releases K_msg (or, for threshold messages, our share)
+   */
   const handleUnlock = async () => {
     if (!message || !recipientPrivateKey) return;
 
@@ -79,53 +448,67 @@ const MessageViewer = () => {
       setUnlocking(true);
       setError(null);
 
-      // Check distance
-      const distance = calculateDistance(
-        userLat,
-        userLon,
-        message.locationBinding.latitude,
-        message.locationBinding.longitude
-      );
+      if (Date.now() < message.locationBinding.windowStart) {
+        setError(`Message not yet open - opens in ${formatCountdown(message.locationBinding.windowStart - Date.now())}`);
+        return;
+      }
 
-      if (distance > message.locationBinding.radiusMeters) {
-        setError(`Too far from target: ${distance.toFixed(0)}m (max: ${message.locationBinding.radiusMeters}m)`);
+      // Check geofence
+      const { within, distance } = checkGeofence(getTargetGeofence(message), fix.latitude, fix.longitude);
+
+      if (!within) {
+        setError(`Outside the geofence: ${distance.toFixed(0)}m from the nearest zone centre`);
         return;
       }
 
-      // Compute shared secret
-      const sharedSecret = crypto.computeSharedSecret(
-        recipientPrivateKey,
-        message.senderPublicKey
-      );
+      // Find our own entry by the public key matching our private key
+      const myPublicKey = crypto.publicKeyFromPrivateKey(recipientPrivateKey);
+      if (!message.recipients.some((entry) => entry.recipientPublicKey === myPublicKey)) {
+        setError('This private key is not one of the message recipients');
+        return;
+      }
 
-      // Derive location-bound key
-      const locationBoundKey = await crypto.deriveLocationBoundKey(
-        sharedSecret,
-        message.locationBinding.latitude,
-        message.locationBinding.longitude,
-        message.locationBinding.radiusMeters,
-        message.locationBinding.windowStart,
-        message.locationBinding.windowEnd,
-        message.locationBinding.nonce
-      );
+      // The device's signing key is sealed in the keystore
+      const session = getActiveSession();
+      if (!session) {
+        setError('Unlock the keystore first - it holds this device\'s signing key');
+        return;
+      }
+      const deviceIdentity = await getDeviceIdentity(session, keystoreIdentity?.handle);
+      setDevice(await fetchDevice(deviceIdentity.deviceId));
 
-      // Unwrap message key
-      const messageKey = await crypto.unwrapKey(
-        message.wrappedKey,
-        locationBoundKey,
-        message.wrappedKeyNonce,
-        message.wrappedKeyAuthTag
-      );
+      const { body } = await requestServerUnlock(message.id, deviceIdentity, fix, movementHistory, myPublicKey);
+      if (!body.unlocked) {
+        if (body.waypoint) setNextStage(body.waypoint);
+        setError(`Server unlock failed: ${body.reason ?? body.error}`);
+        return;
+      }
+      const wrap: RecipientWrap = body;
 
-      // Decrypt message
-      const plaintext = await crypto.aesGcmDecrypt(
-        message.encryptedPayload,
-        messageKey,
-        message.payloadNonce,
-        message.payloadAuthTag
-      );
+      if (body.next) {
+        // Check the released wrap really opens with our chain before moving on
+        const stage = body.waypoint!.stage;
+        const envelope = crypto.getEnvelope(message);
+        const stageKey = await crypto.deriveWaypointKey(
+          await deriveChainInput(message, wrap, stage),
+          message.locationBinding.waypoints![stage],
+          message.locationBinding,
+          envelope
+        );
+        await crypto.unwrapKey(wrap.wrappedKey, stageKey, wrap.wrappedKeyNonce, wrap.wrappedKeyAuthTag, envelope.suite);
+        setNextStage(body.next);
+        return;
+      }
+
+      if (body.threshold) {
+        // The token is sealed to our key - opening it is what proves we hold it
+        const sealed = body.threshold.sealedContributionToken;
+        await contributeShare(message, wrap, crypto.openShare(sealed, recipientPrivateKey, sealed.ephemeralPublicKey));
+        return;
+      }
 
-      setDecrypted(plaintext);
+      // Decrypt message
+      await decryptPayload(message, await unwrapOwnKey(message, wrap));
     } catch (error) {
       console.error('Decryption failed:', error);
       setError('Decryption failed: ' + (error as Error).message);
@@ -137,22 +520,22 @@ const MessageViewer = () => {
   const getStatus = () => {
     if (!message) return { text: 'UNKNOWN', color: 'text-terminal-dim' };
     
-    const now = Date.now();
     if (now < message.locationBinding.windowStart) {
-      return { text: 'NOT YET ACTIVE', color: 'text-terminal-warning' };
+      return {
+        text: `NOT YET OPEN (opens in ${formatCountdown(message.locationBinding.windowStart - now)})`,
+        color: 'text-terminal-warning',
+      };
     }
     if (now > message.locationBinding.windowEnd) {
       return { text: 'EXPIRED', color: 'text-terminal-error' };
     }
+    if (message.locationBinding.schedule && !isWithinSchedule(message.locationBinding.schedule, now)) {
+      return { text: 'OUTSIDE SCHEDULE', color: 'text-terminal-warning' };
+    }
     
-    const distance = calculateDistance(
-      userLat,
-      userLon,
-      message.locationBinding.latitude,
-      message.locationBinding.longitude
-    );
+    const { within, distance } = checkGeofence(getTargetGeofence(message), fix.latitude, fix.longitude);
     
-    if (distance <= message.locationBinding.radiusMeters) {
+    if (within) {
       return { text: 'UNLOCKABLE', color: 'text-terminal-success' };
     }
     
@@ -183,6 +566,10 @@ const MessageViewer = () => {
   }
 
   const status = getStatus();
+  const geofence = getGeofence(message.locationBinding);
+  const waypoints = message.locationBinding.waypoints ?? [];
+  const currentStage = nextStage?.stage ?? 0;
+  const zones = geofence.type === 'multi' ? geofence.zones : [geofence];
 
   return (
     <div className="max-w-6xl mx-auto space-y-4">
@@ -200,8 +587,15 @@ const MessageViewer = () => {
                 {message.locationBinding.latitude.toFixed(6)}°N, {message.locationBinding.longitude.toFixed(6)}°E
               </div>
               <div className="text-terminal-dim text-sm mt-1">
-                Radius: {message.locationBinding.radiusMeters}m
+                {geofence.type === 'circle' && `Radius: ${geofence.radiusMeters}m`}
+                {geofence.type === 'polygon' && `Polygon: ${geofence.vertices.length} vertices`}
+                {geofence.type === 'multi' && `${geofence.zones.length} zones (${geofence.mode === 'any' ? 'any one' : 'all'})`}
               </div>
+              {message.locationBinding.vertical && (
+                <div className="text-terminal-dim text-sm mt-1">
+                  Vertical: {describeVertical(message.locationBinding.vertical)}
+                </div>
+              )}
             </div>
 
             <div className="terminal-card">
@@ -212,9 +606,38 @@ const MessageViewer = () => {
               <div className="text-sm">
                 End: {new Date(message.locationBinding.windowEnd).toLocaleString()}
               </div>
+              {message.locationBinding.schedule && (
+                <div className="text-terminal-dim text-sm mt-1">
+                  Opens: {describeSchedule(message.locationBinding.schedule)}
+                </div>
+              )}
+              {message.threshold && (
+                <div className="text-terminal-dim text-sm mt-1">
+                  Needs {message.threshold} of {message.recipients.length} recipients on site
+                </div>
+              )}
             </div>
           </div>
 
+          {waypoints.length > 0 && (
+            <div className="terminal-card mb-4">
+              <div className="text-terminal-accent mb-2">
+                WAYPOINT CHAIN: {waypoints.length + 1} STOPS IN ORDER
+              </div>
+              {waypoints.map((waypoint, i) => (
+                <div key={i} className={`text-sm font-mono ${currentStage > i ? 'text-terminal-success' : currentStage === i ? 'text-terminal-warning' : 'text-terminal-dim'}`}>
+                  {currentStage > i ? '✓' : currentStage === i ? '→' : ' '} {i + 1}. {waypoint.label ?? `Stop ${i + 1}`}: {waypoint.latitude.toFixed(5)}, {waypoint.longitude.toFixed(5)} ({waypoint.radiusMeters}m)
+                </div>
+              ))}
+              <div className={`text-sm font-mono ${currentStage === waypoints.length ? 'text-terminal-warning' : 'text-terminal-dim'}`}>
+                {currentStage === waypoints.length ? '→' : ' '} {waypoints.length + 1}. Final location
+              </div>
+              {!nextStage && (
+                <div className="text-terminal-dim text-xs mt-1">Enter your private key to load your progress</div>
+              )}
+            </div>
+          )}
+
           <div className="h-64 border border-terminal-border rounded overflow-hidden mb-4">
             <MapContainer
               center={[message.locationBinding.latitude, message.locationBinding.longitude]}
@@ -226,41 +649,144 @@ const MessageViewer = () => {
                 attribution='&copy; OpenStreetMap contributors'
               />
               <Marker position={[message.locationBinding.latitude, message.locationBinding.longitude]} />
-              <Circle
-                center={[message.locationBinding.latitude, message.locationBinding.longitude]}
-                radius={message.locationBinding.radiusMeters}
-                pathOptions={{ color: '#00ff00', fillColor: '#00ff00', fillOpacity: 0.2 }}
-              />
-              <Marker position={[userLat, userLon]} />
+              {zones.map((zone, i) => zone.type === 'circle' ? (
+                <Circle
+                  key={i}
+                  center={[zone.latitude, zone.longitude]}
+                  radius={zone.radiusMeters}
+                  pathOptions={{ color: '#00ff00', fillColor: '#00ff00', fillOpacity: 0.2 }}
+                />
+              ) : (
+                <Polygon
+                  key={i}
+                  positions={zone.vertices.map((v) => [v.lat, v.lon] as [number, number])}
+                  pathOptions={{ color: '#00ff00', fillColor: '#00ff00', fillOpacity: 0.2 }}
+                />
+              ))}
+              {waypoints.map((waypoint, i) => (
+                <Circle
+                  key={`waypoint-${i}`}
+                  center={[waypoint.latitude, waypoint.longitude]}
+                  radius={waypoint.radiusMeters}
+                  pathOptions={currentStage === i
+                    ? { color: '#ffaa00', fillColor: '#ffaa00', fillOpacity: 0.3 }
+                    : { color: '#00aaff', fillColor: '#00aaff', fillOpacity: 0.1 }}
+                />
+              ))}
+              <Marker position={[fix.latitude, fix.longitude]} />
             </MapContainer>
           </div>
 
           {!decrypted && (
             <div className="space-y-4">
               <div>
-                <label className="block text-terminal-accent mb-2">YOUR LOCATION (for demo - use GPS in production)</label>
-                <div className="grid grid-cols-2 gap-4">
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-terminal-accent">YOUR LOCATION</label>
+                  <button
+                    onClick={() => setUseGPS(!useGPS)}
+                    className={`terminal-button-secondary text-xs ${useGPS ? 'border-terminal-success' : ''}`}
+                  >
+                    {useGPS ? '✓ GPS ACTIVE' : 'USE GPS'}
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
                   <input
                     type="number"
-                    value={userLat}
-                    onChange={(e) => setUserLat(parseFloat(e.target.value))}
+                    value={fix.latitude}
+                    onChange={(e) => setFix({ ...fix, latitude: parseFloat(e.target.value) })}
                     className="terminal-input"
                     step="0.000001"
                     placeholder="Latitude"
+                    disabled={useGPS}
                   />
                   <input
                     type="number"
-                    value={userLon}
-                    onChange={(e) => setUserLon(parseFloat(e.target.value))}
+                    value={fix.longitude}
+                    onChange={(e) => setFix({ ...fix, longitude: parseFloat(e.target.value) })}
                     className="terminal-input"
                     step="0.000001"
                     placeholder="Longitude"
+                    disabled={useGPS}
+                  />
+                  <input
+                    type="number"
+                    value={fix.accuracy}
+                    onChange={(e) => setFix({ ...fix, accuracy: parseFloat(e.target.value) })}
+                    className="terminal-input"
+                    min="0"
+                    placeholder="Accuracy (m)"
+                    disabled={useGPS}
                   />
                 </div>
+                {message.locationBinding.vertical && (
+                  <div className="grid grid-cols-2 gap-4 mt-2">
+                    <input
+                      type="number"
+                      value={fix.altitude ?? ''}
+                      onChange={(e) => setFix({ ...fix, altitude: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                      className="terminal-input"
+                      step="0.1"
+                      placeholder="Altitude (m)"
+                      disabled={useGPS}
+                    />
+                    <input
+                      type="number"
+                      value={fix.altitudeAccuracy ?? ''}
+                      onChange={(e) => setFix({ ...fix, altitudeAccuracy: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                      className="terminal-input"
+                      min="0"
+                      step="0.1"
+                      placeholder="Vertical accuracy (m)"
+                      disabled={useGPS}
+                    />
+                  </div>
+                )}
+                <div className="text-xs text-terminal-dim mt-1">
+                  ±{fix.accuracy.toFixed(0)}m
+                  {fix.altitude !== undefined && ` · altitude ${fix.altitude.toFixed(1)}m ±${fix.altitudeAccuracy?.toFixed(1) ?? '?'}m`}
+                  {movementHistory.length > 1 &&
+                    ` · history ${Math.round((movementHistory[movementHistory.length - 1].timestamp - movementHistory[0].timestamp) / 1000)}s`}
+                </div>
               </div>
 
+              {(keystoreIdentity || !getActiveSession()) && (
+                <div className="terminal-card">
+                  <div className="text-terminal-accent mb-2">
+                    {keystoreIdentity ? (
+                      <>
+                        KEYSTORE IDENTITY: {keystoreIdentity.label}
+                        {keystoreIdentity.handle && ` (@${keystoreIdentity.handle})`}
+                      </>
+                    ) : 'KEYSTORE (holds this device\'s signing key)'}
+                  </div>
+                  {keystoreIdentity && recipientPrivateKey ? (
+                    <div className="text-terminal-success text-sm">✓ Private key loaded from the keystore</div>
+                  ) : (
+                    <div className="flex space-x-2">
+                      <input
+                        type="password"
+                        value={keystorePassphrase}
+                        onChange={(e) => setKeystorePassphrase(e.target.value)}
+                        className="terminal-input flex-1"
+                        placeholder="Keystore passphrase"
+                      />
+                      <button
+                        onClick={handleKeystoreUnlock}
+                        className="terminal-button-secondary"
+                        disabled={!keystorePassphrase}
+                      >
+                        UNLOCK KEYSTORE
+                      </button>
+                    </div>
+                  )}
+                  {keystoreError && <div className="text-terminal-error text-sm mt-1">{keystoreError}</div>}
+                </div>
+              )}
+
               <div>
-                <label className="block text-terminal-accent mb-2">YOUR PRIVATE KEY (X25519)</label>
+                <label className="block text-terminal-accent mb-2">
+                  {keystoreIdentity ? 'OR PASTE A PRIVATE KEY (X25519)' : 'YOUR PRIVATE KEY (X25519)'}
+                </label>
                 <input
                   type="text"
                   value={recipientPrivateKey}
@@ -270,6 +796,32 @@ const MessageViewer = () => {
                 />
               </div>
 
+              {shareSession && shareProgress && (
+                <div className="terminal-card">
+                  <div className="text-terminal-accent">
+                    SHARES {shareProgress.contributed}/{shareProgress.threshold}
+                  </div>
+                  <div className="text-terminal-dim text-sm mt-1">
+                    Your share is in - waiting for {Math.max(0, shareProgress.threshold - shareProgress.contributed)} more recipient(s) to unlock on site
+                  </div>
+                </div>
+              )}
+
+              {device && (
+                <div className="text-xs text-terminal-dim">
+                  Device <span className="font-mono">{device.deviceId}</span>: {device.status.toUpperCase()}
+                  {device.status === 'pending' && (device.owner
+                    ? ` - @${device.owner} (or an admin) must approve it`
+                    : ' - an admin must approve it')}
+                  {device.status === 'pending' && device.owner && device.owner === keystoreIdentity?.handle && getActiveSession() && (
+                    <button onClick={handleApproveDevice} className="terminal-button-secondary w-full mt-2">
+                      APPROVE THIS DEVICE AS @{device.owner}
+                    </button>
+                  )}
+                  {deviceError && <div className="text-terminal-error text-sm mt-1">{deviceError}</div>}
+                </div>
+              )}
+
               {error && (
                 <div className="terminal-card border-terminal-error">
                   <div className="text-terminal-error">{error}</div>
@@ -279,9 +831,15 @@ const MessageViewer = () => {
               <button
                 onClick={handleUnlock}
                 className="terminal-button w-full"
-                disabled={unlocking || !recipientPrivateKey}
+                disabled={unlocking || !recipientPrivateKey || shareSession !== null}
               >
-                {unlocking ? 'DECRYPTING...' : 'UNLOCK MESSAGE'}
+                {unlocking
+                  ? 'DECRYPTING...'
+                  : shareSession
+                    ? 'WAITING FOR SHARES...'
+                    : currentStage < waypoints.length
+                      ? `CHECK IN AT STOP ${currentStage + 1}/${waypoints.length + 1}`
+                      : 'UNLOCK MESSAGE'}
               </button>
             </div>
           )}
@@ -294,6 +852,12 @@ const MessageViewer = () => {
                   {decrypted}
                 </div>
               </div>
+              {prekeyDeleted && (
+                <div className="text-xs text-terminal-warning">
+                  The one-time prekey for this message has been deleted from your keystore -
+                  copy the text now, it cannot be decrypted again.
+                </div>
+              )}
             </div>
           )}
         </div>
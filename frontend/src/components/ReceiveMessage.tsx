@@ -6,12 +6,16 @@
  * - Enters their current location
  * - Tries to decrypt
  * - SUCCESS if at correct location, FAIL if wrong location
+ * 
+ * Cell-mode messages carry no location at all - they are decrypted here by
+ * trying the receiver's own grid cell and its neighbours
  */
 
 import { useState, useEffect } from 'react';
 import { MapContainer, TileLayer, Marker, Circle, useMapEvents } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
+import { decryptInCell } from '../lib/simple-crypto';
 
 // Fix Leaflet icon issue
 import markerIcon from 'leaflet/dist/images/marker-icon.png';
@@ -31,11 +35,18 @@ interface ReceiveMessageProps {
 
 interface Message {
   id: string;
+  mode: 'target' | 'cell';
+  cipher: 'aes-gcm' | 'xor';
   senderName: string;
   encrypted: string;
-  targetLat: number;
-  targetLon: number;
-  radiusMeters: number;
+  // Target mode
+  targetLat?: number;
+  targetLon?: number;
+  radiusMeters?: number;
+  // Cell mode
+  salt?: string;
+  commitment?: string;
+  cellSizeMeters?: number;
   timestamp: number;
 }
 
@@ -108,6 +119,21 @@ export default function ReceiveMessage({ serverUrl }: ReceiveMessageProps) {
     setResult(null);
 
     try {
+      if (selectedMessage.mode === 'cell') {
+        const opened = await decryptInCell(
+          {
+            encrypted: selectedMessage.encrypted,
+            salt: selectedMessage.salt!,
+            commitment: selectedMessage.commitment!,
+            cellSizeMeters: selectedMessage.cellSizeMeters!,
+          },
+          currentLat,
+          currentLon
+        );
+        setResult({ ...opened, mode: 'cell', senderName: selectedMessage.senderName });
+        return;
+      }
+
       const response = await fetch(`${serverUrl}/api/decrypt`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -163,19 +189,32 @@ export default function ReceiveMessage({ serverUrl }: ReceiveMessageProps) {
                 <div className="flex justify-between items-start">
                   <div>
                     <p className="text-terminal-text font-bold">From: {msg.senderName}</p>
-                    <p className="text-terminal-text-secondary text-sm mt-1">
-                      Location: ({msg.targetLat.toFixed(4)}, {msg.targetLon.toFixed(4)})
-                    </p>
-                    <p className="text-terminal-text-secondary text-sm">
-                      Radius: {msg.radiusMeters}m
-                    </p>
+                    {msg.mode === 'cell' ? (
+                      <>
+                        <p className="text-terminal-text-secondary text-sm mt-1">
+                          Location: hidden (location is the secret)
+                        </p>
+                        <p className="text-terminal-text-secondary text-sm">
+                          Cell size: {msg.cellSizeMeters}m
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-terminal-text-secondary text-sm mt-1">
+                          Location: ({msg.targetLat!.toFixed(4)}, {msg.targetLon!.toFixed(4)})
+                        </p>
+                        <p className="text-terminal-text-secondary text-sm">
+                          Radius: {msg.radiusMeters}m
+                        </p>
+                      </>
+                    )}
                   </div>
                   <div className="text-xs text-terminal-text-secondary">
                     {new Date(msg.timestamp).toLocaleTimeString()}
                   </div>
                 </div>
                 <p className="text-xs text-terminal-warning mt-2 font-mono break-all">
-                  🔒 {msg.encrypted.substring(0, 50)}...
+                  🔒 {msg.cipher === 'xor' ? '[XOR - teaching]' : '[AES-GCM]'} {msg.encrypted.substring(0, 50)}...
                 </p>
               </button>
             ))}
@@ -231,7 +270,9 @@ export default function ReceiveMessage({ serverUrl }: ReceiveMessageProps) {
             {/* Map showing both locations */}
             <div className="border-2 border-terminal-border h-[350px] relative">
               <MapContainer
-                center={[selectedMessage.targetLat, selectedMessage.targetLon]}
+                center={selectedMessage.mode === 'cell'
+                  ? [currentLat, currentLon]
+                  : [selectedMessage.targetLat!, selectedMessage.targetLon!]}
                 zoom={13}
                 className="h-full w-full"
                 key={`${selectedMessage.id}-${currentLat}-${currentLon}`}
@@ -241,13 +282,17 @@ export default function ReceiveMessage({ serverUrl }: ReceiveMessageProps) {
                   attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
                 />
                 
-                {/* Target location (red) */}
-                <Circle
-                  center={[selectedMessage.targetLat, selectedMessage.targetLon]}
-                  radius={selectedMessage.radiusMeters}
-                  pathOptions={{ color: 'red', fillColor: 'red', fillOpacity: 0.2 }}
-                />
-                <Marker position={[selectedMessage.targetLat, selectedMessage.targetLon]} />
+                {/* Target location (red) - unknown in cell mode */}
+                {selectedMessage.mode !== 'cell' && (
+                  <>
+                    <Circle
+                      center={[selectedMessage.targetLat!, selectedMessage.targetLon!]}
+                      radius={selectedMessage.radiusMeters!}
+                      pathOptions={{ color: 'red', fillColor: 'red', fillOpacity: 0.2 }}
+                    />
+                    <Marker position={[selectedMessage.targetLat!, selectedMessage.targetLon!]} />
+                  </>
+                )}
                 
                 {/* Current location (blue) */}
                 <Marker
@@ -262,7 +307,9 @@ export default function ReceiveMessage({ serverUrl }: ReceiveMessageProps) {
                 <LocationPicker onLocationSelect={handleMapClick} />
               </MapContainer>
               <div className="absolute bottom-2 left-2 bg-black bg-opacity-90 px-3 py-2 text-xs z-[1000] border border-terminal-border space-y-1">
-                <div className="text-terminal-error">🔴 Target Location (where you need to be)</div>
+                {selectedMessage.mode !== 'cell' && (
+                  <div className="text-terminal-error">🔴 Target Location (where you need to be)</div>
+                )}
                 <div className="text-terminal-info">🔵 Your Current Location</div>
               </div>
             </div>
@@ -292,7 +339,39 @@ export default function ReceiveMessage({ serverUrl }: ReceiveMessageProps) {
                     <p className="text-terminal-text text-lg">{result.message}</p>
                   </div>
                   <p className="text-terminal-text-secondary text-sm">
-                    You were {result.distance}m from target location
+                    {result.mode === 'cell'
+                      ? `Key derived locally from grid cell ${result.cell}`
+                      : `You were ${result.distance}m from target location`}
+                  </p>
+                  {selectedMessage.cipher === 'xor' && (
+                    <p className="text-terminal-warning text-sm">
+                      Teaching mode (XOR): there is no integrity check, so this text is not authenticated.
+                    </p>
+                  )}
+                </div>
+              ) : result.authFailed ? (
+                <div className="space-y-3">
+                  <p className="text-terminal-error font-bold text-xl">✗ AUTHENTICATION FAILED</p>
+                  <p className="text-terminal-text">
+                    You are in the right place, but the message does not authenticate.
+                  </p>
+                  <p className="text-terminal-warning text-sm">
+                    It was modified after sending, or was encrypted with a different key. Nothing is shown.
+                  </p>
+                </div>
+              ) : result.reason ? (
+                <div className="space-y-3">
+                  <p className="text-terminal-error font-bold text-xl">✗ MESSAGE UNAVAILABLE</p>
+                  <p className="text-terminal-text">{result.error}</p>
+                </div>
+              ) : result.mode === 'cell' ? (
+                <div className="space-y-3">
+                  <p className="text-terminal-error font-bold text-xl">✗ DECRYPTION FAILED</p>
+                  <p className="text-terminal-text">
+                    Neither your grid cell nor its 8 neighbours match this message.
+                  </p>
+                  <p className="text-terminal-warning text-sm">
+                    The target is not revealed - you have to know where to go.
                   </p>
                 </div>
               ) : (
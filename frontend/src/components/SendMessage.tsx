@@ -7,12 +7,20 @@
  * - Sender name
  * 
  * Then sends encrypted message to server
+ * 
+ * In "location as secret" mode the message is encrypted here, under the
+ * destination's grid cell, and the server never sees the coordinates
+ *
+ * Each message gets its own Ed25519 signing key; the private half stays in
+ * this browser and signs the delete or revoke request later
  */
 
 import { useState } from 'react';
 import { MapContainer, TileLayer, Marker, useMapEvents } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
+import { generateEd25519KeyPair, signSenderAction, type SenderAction } from '../lib/crypto';
+import { encryptForCell } from '../lib/simple-crypto';
 
 // Fix Leaflet icon issue
 import markerIcon from 'leaflet/dist/images/marker-icon.png';
@@ -30,6 +38,23 @@ interface SendMessageProps {
   serverUrl: string;
 }
 
+// A message sent from this browser, with the key that can delete or revoke it
+interface SentMessage {
+  messageId: string;
+  signingPrivateKey: string;
+  sentAt: number;
+}
+
+const SENT_STORAGE_KEY = 'lbm-simple-sent';
+
+function loadSentMessages(): SentMessage[] {
+  return JSON.parse(localStorage.getItem(SENT_STORAGE_KEY) ?? '[]');
+}
+
+function saveSentMessages(sent: SentMessage[]): void {
+  localStorage.setItem(SENT_STORAGE_KEY, JSON.stringify(sent));
+}
+
 function LocationPicker({ onLocationSelect }: { onLocationSelect: (lat: number, lon: number) => void }) {
   useMapEvents({
     click: (e) => {
@@ -45,8 +70,16 @@ export default function SendMessage({ serverUrl }: SendMessageProps) {
   const [targetLat, setTargetLat] = useState(19.0760); // Default: Mumbai
   const [targetLon, setTargetLon] = useState(72.8777);
   const [radiusMeters, setRadiusMeters] = useState(100);
+  const [mode, setMode] = useState<'target' | 'cell'>('target');
+  const [teaching, setTeaching] = useState(false); // XOR instead of AES-GCM
   const [sending, setSending] = useState(false);
   const [result, setResult] = useState<any>(null);
+  const [sent, setSent] = useState<SentMessage[]>(loadSentMessages);
+
+  const rememberSent = (entries: SentMessage[]) => {
+    saveSentMessages(entries);
+    setSent(entries);
+  };
 
   const handleMapClick = (lat: number, lon: number) => {
     setTargetLat(lat);
@@ -63,25 +96,27 @@ export default function SendMessage({ serverUrl }: SendMessageProps) {
     setResult(null);
 
     try {
+      const cipher = teaching ? 'xor' : 'aes-gcm';
+      const signing = generateEd25519KeyPair();
+      const fields = mode === 'cell'
+        ? { mode, senderName, ...(await encryptForCell(message, targetLat, targetLon, radiusMeters, cipher)) }
+        : { message, senderName, targetLat, targetLon, radiusMeters, cipher };
+      const body = { ...fields, senderSigningKey: signing.publicKey };
       const response = await fetch(`${serverUrl}/api/send`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message,
-          senderName,
-          targetLat,
-          targetLon,
-          radiusMeters,
-        }),
+        body: JSON.stringify(body),
       });
 
       const data = await response.json();
 
       if (data.success) {
+        rememberSent([...sent, { messageId: data.messageId, signingPrivateKey: signing.privateKey, sentAt: Date.now() }]);
         setResult({
           success: true,
           messageId: data.messageId,
           encrypted: data.encrypted,
+          cipher,
         });
         
         // Reset form
@@ -97,6 +132,28 @@ export default function SendMessage({ serverUrl }: SendMessageProps) {
     }
   };
 
+  // Signed with the message's own key - the server refuses unsigned deletes and revokes
+  const handleSenderAction = async (entry: SentMessage, action: SenderAction) => {
+    try {
+      const url = `${serverUrl}/api/messages/${entry.messageId}`;
+      const response = await fetch(action === 'delete' ? url : `${url}/revoke`, {
+        method: action === 'delete' ? 'DELETE' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(signSenderAction(action, entry.messageId, entry.signingPrivateKey)),
+      });
+      // 404/410: already gone from the server - forget it here too
+      if (!response.ok && response.status !== 404 && response.status !== 410) {
+        const data = await response.json();
+        alert(`${action === 'delete' ? 'Delete' : 'Revoke'} failed: ${data.error}`);
+        return;
+      }
+      rememberSent(sent.filter((other) => other.messageId !== entry.messageId));
+    } catch (error) {
+      console.error(`${action} error:`, error);
+      alert('Network error - is the server running?');
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Sender Name */}
@@ -125,6 +182,34 @@ export default function SendMessage({ serverUrl }: SendMessageProps) {
         </p>
       </div>
 
+      {/* Mode */}
+      <div>
+        <label className="block text-terminal-accent mb-2 font-bold">MODE:</label>
+        <div className="grid grid-cols-2 gap-4">
+          <button
+            onClick={() => setMode('target')}
+            className={`terminal-button-secondary py-2 ${mode === 'target' ? 'border-terminal-accent' : ''}`}
+          >
+            SERVER CHECKS LOCATION
+          </button>
+          <button
+            onClick={() => setMode('cell')}
+            className={`terminal-button-secondary py-2 ${mode === 'cell' ? 'border-terminal-accent' : ''}`}
+          >
+            LOCATION AS SECRET
+          </button>
+        </div>
+        <p className="text-terminal-text-secondary text-sm mt-1">
+          {mode === 'cell'
+            ? 'Encrypted in this browser under the destination\'s grid cell - the server never learns where it is'
+            : 'The server stores the destination and checks the receiver\'s distance'}
+        </p>
+        <label className="flex items-center gap-2 mt-3 text-sm text-terminal-text-secondary">
+          <input type="checkbox" checked={teaching} onChange={(e) => setTeaching(e.target.checked)} />
+          Teaching mode: XOR cipher (shows the idea, but has no integrity - a wrong key gives gibberish)
+        </label>
+      </div>
+
       {/* Destination Location */}
       <div>
         <label className="block text-terminal-accent mb-2 font-bold">DESTINATION LOCATION:</label>
@@ -189,7 +274,9 @@ export default function SendMessage({ serverUrl }: SendMessageProps) {
           className="w-full"
         />
         <p className="text-terminal-text-secondary text-sm mt-1">
-          Receiver must be within {radiusMeters} meters of the destination
+          {mode === 'cell'
+            ? `Receiver must be in the same or a neighbouring ${radiusMeters}m grid cell`
+            : `Receiver must be within ${radiusMeters} meters of the destination`}
         </p>
       </div>
 
@@ -218,9 +305,15 @@ export default function SendMessage({ serverUrl }: SendMessageProps) {
               <p className="text-terminal-text-secondary text-sm">
                 Encrypted: <code className="text-xs break-all">{result.encrypted.substring(0, 60)}...</code>
               </p>
+              <p className="text-terminal-text-secondary text-sm">
+                Cipher: {result.cipher === 'xor' ? 'XOR (teaching mode)' : 'AES-256-GCM, PBKDF2 key'}
+              </p>
               <p className="text-terminal-text mt-3">
                 Tell Officer 2 to check their messages. They must be at the destination location to decrypt it!
               </p>
+              <p className="text-terminal-text-secondary text-sm">
+                The key to delete it is kept in this browser - see SENT FROM THIS BROWSER below.
+              </p>
             </div>
           ) : (
             <div>
@@ -230,6 +323,30 @@ export default function SendMessage({ serverUrl }: SendMessageProps) {
           )}
         </div>
       )}
+
+      {/* Sent messages this browser can delete or revoke */}
+      {sent.length > 0 && (
+        <div>
+          <label className="block text-terminal-accent mb-2 font-bold">SENT FROM THIS BROWSER:</label>
+          <div className="space-y-2">
+            {sent.map((entry) => (
+              <div key={entry.messageId} className="flex items-center justify-between border-2 border-terminal-border p-2">
+                <span className="text-sm text-terminal-text-secondary">
+                  <code className="text-terminal-accent">{entry.messageId}</code> · {new Date(entry.sentAt).toLocaleTimeString()}
+                </span>
+                <span className="space-x-2">
+                  <button onClick={() => handleSenderAction(entry, 'revoke')} className="terminal-button-secondary px-3 py-1 text-sm">
+                    REVOKE
+                  </button>
+                  <button onClick={() => handleSenderAction(entry, 'delete')} className="terminal-button-secondary px-3 py-1 text-sm">
+                    DELETE
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
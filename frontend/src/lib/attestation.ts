@@ -0,0 +1,290 @@
+/**
+ * Device identity and location attestations for the browser
+ * (mirrors backend location.ts / devices.ts)
+ *
+ * Server-side unlocks need a signed attestation from an approved device.
+ * The device keypair is sealed in the keystore. It is registered to the
+ * recipient's directory handle, and that recipient (or an admin) approves it
+ * once.
+ */
+
+import { canonicalJson, generateEd25519KeyPair, signMessage } from './crypto';
+import { loadDevice, saveDevice, type KeystoreSession } from './keystore';
+
+const API = 'http://localhost:3001/api';
+const LEGACY_DEVICE_STORAGE_KEY = 'lbm-device'; // Plaintext key of older versions
+
+export const ATTESTATION_VERSION = 2;
+
+export interface DeviceIdentity {
+  deviceId: string;
+  publicKey: string;
+  privateKey: string;
+  owner?: string; // Directory handle the device is registered to
+}
+
+// Server's view of an enrolled device
+export interface DeviceRecord {
+  deviceId: string;
+  publicKey: string;
+  label?: string;
+  owner?: string;
+  status: 'pending' | 'approved' | 'revoked';
+  registeredAt: number;
+  approvedAt?: number;
+  approvedBy?: string;
+  revokedAt?: number;
+}
+
+export type DeviceAction = 'register-device' | 'approve-device' | 'revoke-device';
+
+/**
+ * One position fix, as the Geolocation API reports it
+ * Altitude is only attested together with its accuracy
+ */
+export interface PositionFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // Meters
+  altitude?: number; // Meters above sea level
+  altitudeAccuracy?: number; // Meters
+}
+
+// Recent position for the server's dwell and teleport checks
+export interface LocationPoint {
+  lat: number;
+  lon: number;
+  timestamp: number;
+}
+
+export interface StageWrap {
+  wrappedKey: string;
+  wrappedKeyNonce: string;
+  wrappedKeyAuthTag: string;
+}
+
+// Where the next stage of a waypoint chain is unlocked
+export interface StageTarget {
+  stage: number;
+  stages: number;
+  label?: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  final: boolean;
+}
+
+// Contribution token boxed to the recipient key (open with crypto.openShare)
+export interface SealedToken {
+  ciphertext: string;
+  nonce: string;
+  ephemeralPublicKey: string;
+}
+
+// Our wrap, released by a verified /unlock
+export interface UnlockSuccess extends StageWrap {
+  unlocked: true;
+  recipientPublicKey: string;
+  prekeyId?: number;
+  stageWraps?: StageWrap[]; // Up to the current stage mid-chain
+  serverKeyShare?: string; // Final wrap only
+  distance: number;
+  confidence: number;
+  threshold?: { k: number; n: number; sealedContributionToken: SealedToken };
+  waypoint?: StageTarget; // The stage just unlocked
+  next?: StageTarget; // Set when more waypoints follow
+}
+
+// Refusal (reason) or rejected request (error)
+export interface UnlockFailure {
+  unlocked?: false;
+  reason?: string;
+  error?: string;
+  code?: string;
+  distance?: number;
+  confidence?: number;
+  waypoint?: StageTarget; // The stage the server expects
+}
+
+export type UnlockResponse = UnlockSuccess | UnlockFailure;
+
+// ============================================================================
+// Device Identity
+// ============================================================================
+
+/**
+ * Canonical string signed for device actions (mirrors backend buildDeviceActionPayload)
+ */
+export function buildDeviceActionPayload(
+  action: DeviceAction,
+  deviceId: string,
+  timestamp: number,
+  details: { publicKey?: string; owner?: string; challenge?: string } = {}
+): string {
+  const { publicKey, owner, challenge } = details;
+  return JSON.stringify({ action, deviceId, publicKey, owner, challenge, timestamp });
+}
+
+/**
+ * This browser's device identity, registering a new one on first use
+ * New devices are pending until their owner (or an admin) approves them.
+ * A key left in localStorage by an older version moves into the keystore.
+ */
+export async function getDeviceIdentity(session: KeystoreSession, owner?: string): Promise<DeviceIdentity> {
+  const stored = await loadDevice(session);
+  if (stored) return stored;
+
+  const legacy = localStorage.getItem(LEGACY_DEVICE_STORAGE_KEY);
+  if (legacy) {
+    const migrated: DeviceIdentity = JSON.parse(legacy);
+    await saveDevice(session, migrated);
+    localStorage.removeItem(LEGACY_DEVICE_STORAGE_KEY);
+    return migrated;
+  }
+
+  const keyPair = generateEd25519KeyPair();
+  const device: DeviceIdentity = {
+    deviceId: `web-${crypto.randomUUID()}`,
+    publicKey: keyPair.publicKey,
+    privateKey: keyPair.privateKey,
+    owner,
+  };
+
+  const timestamp = Date.now();
+  const payload = buildDeviceActionPayload('register-device', device.deviceId, timestamp, {
+    publicKey: device.publicKey,
+    owner,
+  });
+  const response = await fetch(`${API}/devices`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      deviceId: device.deviceId,
+      publicKey: device.publicKey,
+      owner,
+      timestamp,
+      signature: signMessage(payload, device.privateKey),
+    }),
+  });
+  if (!response.ok) {
+    throw new Error('Device registration failed');
+  }
+
+  await saveDevice(session, device);
+  return device;
+}
+
+/**
+ * Fetch a device's enrollment record - null if it is not registered
+ */
+export async function fetchDevice(deviceId: string): Promise<DeviceRecord | null> {
+  const response = await fetch(`${API}/devices/${encodeURIComponent(deviceId)}`);
+  return response.ok ? await response.json() : null;
+}
+
+/**
+ * Devices registered to a directory handle
+ */
+export async function listOwnedDevices(handle: string): Promise<DeviceRecord[]> {
+  const response = await fetch(`${API}/devices`);
+  const result: { devices?: DeviceRecord[] } = await response.json();
+  return (result.devices ?? []).filter((device) => device.owner === handle.toLowerCase());
+}
+
+/**
+ * Approve or revoke a device as the recipient it is registered to
+ * Signs a fresh device challenge with the handle's directory signing key
+ */
+export async function authorizeDevice(
+  action: 'approve' | 'revoke',
+  deviceId: string,
+  handle: string,
+  signingPrivateKey: string
+): Promise<DeviceRecord> {
+  const path = `${API}/devices/${encodeURIComponent(deviceId)}`;
+  const challengeResponse = await fetch(`${path}/challenge`, { method: 'POST' });
+  const issued = await challengeResponse.json();
+  if (!challengeResponse.ok) {
+    throw new Error(issued.error || `Server responded with ${challengeResponse.status}`);
+  }
+
+  const timestamp = Date.now();
+  const payload = buildDeviceActionPayload(`${action}-device`, deviceId, timestamp, { challenge: issued.challenge });
+  const response = await fetch(`${path}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      approverHandle: handle,
+      challenge: issued.challenge,
+      timestamp,
+      signature: signMessage(payload, signingPrivateKey),
+    }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Server responded with ${response.status}`);
+  }
+
+  return result.device;
+}
+
+// ============================================================================
+// Attestations
+// ============================================================================
+
+/**
+ * Sign a v2 attestation (canonical JSON of every field except the signature)
+ * Messages with a vertical constraint need the altitude, messages with a
+ * minimum dwell time need the movement history
+ */
+export function createLocationAttestation(
+  device: DeviceIdentity,
+  fix: PositionFix,
+  challenge: string,
+  movementHistory: LocationPoint[] = []
+) {
+  const hasAltitude = fix.altitude !== undefined && fix.altitudeAccuracy !== undefined;
+  const attestation = {
+    version: ATTESTATION_VERSION,
+    deviceId: device.deviceId,
+    devicePublicKey: device.publicKey,
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    accuracy: fix.accuracy,
+    altitude: hasAltitude ? fix.altitude : undefined,
+    altitudeAccuracy: hasAltitude ? fix.altitudeAccuracy : undefined,
+    movementHistory: movementHistory.length > 0 ? movementHistory : undefined,
+    timestamp: Date.now(),
+    challenge,
+  };
+  return { ...attestation, signature: signMessage(canonicalJson(attestation), device.privateKey) };
+}
+
+/**
+ * Fetch a challenge, attest and call /unlock
+ * Resolves to the server's JSON answer (unlock result or error) plus its status
+ */
+export async function requestServerUnlock(
+  messageId: string,
+  device: DeviceIdentity,
+  fix: PositionFix,
+  movementHistory: LocationPoint[],
+  recipientPublicKey: string
+): Promise<{ status: number; body: UnlockResponse }> {
+  const challengeResponse = await fetch(`${API}/messages/${messageId}/challenge`, { method: 'POST' });
+  if (!challengeResponse.ok) {
+    const { error } = await challengeResponse.json().catch(() => ({ error: undefined }));
+    throw new Error(`Challenge request failed: ${error ?? challengeResponse.status}`);
+  }
+  const { challenge }: { challenge: string } = await challengeResponse.json();
+
+  const response = await fetch(`${API}/messages/${messageId}/unlock`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      recipientPublicKey,
+      attestation: createLocationAttestation(device, fix, challenge, movementHistory),
+    }),
+  });
+  return { status: response.status, body: await response.json() };
+}
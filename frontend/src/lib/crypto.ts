@@ -6,6 +6,50 @@
 import * as nacl from 'tweetnacl';
 import * as util from 'tweetnacl-util';
 
+// ============================================================================
+// Message Envelope - versions and cipher suites (mirrors backend)
+// ============================================================================
+
+export type CipherSuite =
+  | 'X25519-HKDF-SHA256-AES256GCM'
+  | 'X25519-HKDF-SHA256-XSALSA20POLY1305'; // nacl.secretbox (tweetnacl has no XChaCha20)
+
+export interface MessageEnvelope {
+  version: number;
+  suite: CipherSuite;
+}
+
+/**
+ * Suites this client can read and write, most preferred first
+ */
+export const CIPHER_SUITES: readonly CipherSuite[] = [
+  'X25519-HKDF-SHA256-AES256GCM',
+  'X25519-HKDF-SHA256-XSALSA20POLY1305',
+];
+
+export const ENVELOPE_VERSION = 2;
+
+export const LEGACY_ENVELOPE: MessageEnvelope = { version: 1, suite: 'X25519-HKDF-SHA256-AES256GCM' };
+
+export function getEnvelope(message: { envelope?: MessageEnvelope }): MessageEnvelope {
+  return message.envelope ?? LEGACY_ENVELOPE;
+}
+
+/**
+ * Whether this client can open a message (version 1 is AES-GCM only)
+ */
+export function isSupportedEnvelope(envelope: MessageEnvelope): boolean {
+  return envelope.version >= 1 &&
+    envelope.version <= ENVELOPE_VERSION &&
+    CIPHER_SUITES.includes(envelope.suite) &&
+    (envelope.version > 1 || envelope.suite === LEGACY_ENVELOPE.suite);
+}
+
+function hkdfSalt(envelope: MessageEnvelope, purpose: 'location' | 'split'): string {
+  const salt = `LocationBoundMessaging-v${envelope.version}`;
+  return purpose === 'split' ? `${salt}-split` : salt;
+}
+
 // ============================================================================
 // X25519 - Diffie-Hellman Key Exchange
 // ============================================================================
@@ -18,6 +62,13 @@ export function generateX25519KeyPair() {
   };
 }
 
+/**
+ * X25519 public key for a private key (lets a recipient find its own wrap)
+ */
+export function publicKeyFromPrivateKey(privateKey: string): string {
+  return util.encodeBase64(nacl.box.keyPair.fromSecretKey(util.decodeBase64(privateKey)).publicKey);
+}
+
 export function computeSharedSecret(
   myPrivateKey: string,
   theirPublicKey: string
@@ -47,6 +98,37 @@ export function signMessage(message: string, privateKey: string): string {
   return util.encodeBase64(signature);
 }
 
+export function verifySignature(message: string, signature: string, publicKey: string): boolean {
+  try {
+    return nacl.sign.detached.verify(
+      util.decodeUTF8(message),
+      util.decodeBase64(signature),
+      util.decodeBase64(publicKey)
+    );
+  } catch {
+    return false; // Malformed key or signature bytes
+  }
+}
+
+// ============================================================================
+// Sender Authorization (delete / revoke)
+// ============================================================================
+
+export type SenderAction = 'delete' | 'revoke';
+
+/**
+ * Sign a delete/revoke request for a message (mirrors backend sender-auth.ts)
+ */
+export function signSenderAction(
+  action: SenderAction,
+  messageId: string,
+  signingPrivateKey: string
+): { timestamp: number; signature: string } {
+  const timestamp = Date.now();
+  const payload = JSON.stringify({ action, messageId, timestamp });
+  return { timestamp, signature: signMessage(payload, signingPrivateKey) };
+}
+
 // ============================================================================
 // HKDF - Key Derivation
 // ============================================================================
@@ -118,7 +200,9 @@ export async function deriveLocationBoundKey(
   radiusMeters: number,
   windowStart: number,
   windowEnd: number,
-  nonce: string
+  nonce: string,
+  constraints?: Record<string, unknown>,
+  envelope: MessageEnvelope = LEGACY_ENVELOPE
 ): Promise<Uint8Array> {
   const locationInfo = JSON.stringify({
     lat: lat.toFixed(6),
@@ -127,9 +211,59 @@ export async function deriveLocationBoundKey(
     start: windowStart,
     end: windowEnd,
     nonce,
+    ...(constraints && { constraints: canonicalJson(constraints) }),
   });
   
-  return await hkdf(sharedSecret, 'LocationBoundMessaging-v1', locationInfo, 32);
+  return await hkdf(sharedSecret, hkdfSalt(envelope, 'location'), locationInfo, 32);
+}
+
+/**
+ * Extra binding rules committed into the location-bound key (mirrors backend)
+ */
+export function bindingConstraints(
+  binding: { geofence?: unknown; vertical?: unknown; schedule?: unknown }
+): Record<string, unknown> | undefined {
+  const { geofence, vertical, schedule } = binding;
+  return geofence || vertical || schedule ? { geofence, vertical, schedule } : undefined;
+}
+
+/**
+ * Key for one waypoint stage (mirrors backend)
+ * chainInput is the previous stage's chain key, or the shared secret for the first stage
+ */
+export async function deriveWaypointKey(
+  chainInput: string,
+  waypoint: { latitude: number; longitude: number; radiusMeters: number; nonce: string; geofence?: unknown },
+  binding: { windowStart: number; windowEnd: number },
+  envelope: MessageEnvelope = LEGACY_ENVELOPE
+): Promise<Uint8Array> {
+  return await deriveLocationBoundKey(
+    chainInput,
+    waypoint.latitude,
+    waypoint.longitude,
+    waypoint.radiusMeters,
+    binding.windowStart,
+    binding.windowEnd,
+    waypoint.nonce,
+    waypoint.geofence ? { geofence: waypoint.geofence } : undefined,
+    envelope
+  );
+}
+
+/**
+ * Final wrapping key from the location-bound key and the server-held share
+ * (mirrors backend) - the server releases its share only on a verified unlock
+ */
+export async function combineKeyShares(
+  locationBoundKey: Uint8Array,
+  serverKeyShare: string,
+  envelope: MessageEnvelope = LEGACY_ENVELOPE
+): Promise<Uint8Array> {
+  const share = util.decodeBase64(serverKeyShare);
+  const ikm = new Uint8Array(locationBoundKey.length + share.length);
+  ikm.set(locationBoundKey);
+  ikm.set(share, locationBoundKey.length);
+  return await hkdf(ikm, hkdfSalt(envelope, 'split'), 'wrapping-key', 32);
 }
 
 // ============================================================================
@@ -199,24 +333,221 @@ export async function aesGcmDecrypt(
   return new TextDecoder().decode(decrypted);
 }
 
+// ============================================================================
+// XSalsa20-Poly1305 - Authenticated Encryption (nacl.secretbox, mirrors backend)
+// ============================================================================
+
+/**
+ * Split into the AES-GCM { ciphertext, nonce, authTag } shape: the 16-byte
+ * Poly1305 tag leads secretbox output
+ */
+export function secretboxEncrypt(
+  plaintext: string,
+  key: Uint8Array
+): { ciphertext: string; nonce: string; authTag: string } {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const boxed = nacl.secretbox(new TextEncoder().encode(plaintext), nonce, key);
+  return {
+    ciphertext: util.encodeBase64(boxed.subarray(nacl.secretbox.overheadLength)),
+    nonce: util.encodeBase64(nonce),
+    authTag: util.encodeBase64(boxed.subarray(0, nacl.secretbox.overheadLength)),
+  };
+}
+
+export function secretboxDecrypt(
+  ciphertext: string,
+  key: Uint8Array,
+  nonce: string,
+  authTag: string
+): string {
+  const tag = util.decodeBase64(authTag);
+  const body = util.decodeBase64(ciphertext);
+  const boxed = new Uint8Array(tag.length + body.length);
+  boxed.set(tag);
+  boxed.set(body, tag.length);
+
+  const plaintext = nacl.secretbox.open(boxed, util.decodeBase64(nonce), key);
+  if (!plaintext) {
+    throw new Error('Secretbox failed authentication');
+  }
+  return new TextDecoder().decode(plaintext);
+}
+
+// ============================================================================
+// Suite Dispatch
+// ============================================================================
+
+export async function encryptWithSuite(
+  suite: CipherSuite,
+  plaintext: string,
+  key: Uint8Array
+): Promise<{ ciphertext: string; nonce: string; authTag: string }> {
+  switch (suite) {
+    case 'X25519-HKDF-SHA256-AES256GCM':
+      return await aesGcmEncrypt(plaintext, key);
+    case 'X25519-HKDF-SHA256-XSALSA20POLY1305':
+      return secretboxEncrypt(plaintext, key);
+    default:
+      throw new Error(`Unsupported cipher suite: ${suite}`);
+  }
+}
+
+export async function decryptWithSuite(
+  suite: CipherSuite,
+  ciphertext: string,
+  key: Uint8Array,
+  nonce: string,
+  authTag: string
+): Promise<string> {
+  switch (suite) {
+    case 'X25519-HKDF-SHA256-AES256GCM':
+      return await aesGcmDecrypt(ciphertext, key, nonce, authTag);
+    case 'X25519-HKDF-SHA256-XSALSA20POLY1305':
+      return secretboxDecrypt(ciphertext, key, nonce, authTag);
+    default:
+      throw new Error(`Unsupported cipher suite: ${suite}`);
+  }
+}
+
 export async function wrapKey(
   keyToWrap: Uint8Array,
-  wrappingKey: Uint8Array
+  wrappingKey: Uint8Array,
+  suite: CipherSuite = LEGACY_ENVELOPE.suite
 ): Promise<{ wrappedKey: string; nonce: string; authTag: string }> {
   const keyBase64 = util.encodeBase64(keyToWrap);
-  return await aesGcmEncrypt(keyBase64, wrappingKey);
+  const { ciphertext, nonce, authTag } = await encryptWithSuite(suite, keyBase64, wrappingKey);
+  return { wrappedKey: ciphertext, nonce, authTag };
 }
 
 export async function unwrapKey(
   wrappedKey: string,
   wrappingKey: Uint8Array,
   nonce: string,
-  authTag: string
+  authTag: string,
+  suite: CipherSuite = LEGACY_ENVELOPE.suite
 ): Promise<Uint8Array> {
-  const keyBase64 = await aesGcmDecrypt(wrappedKey, wrappingKey, nonce, authTag);
+  const keyBase64 = await decryptWithSuite(suite, wrappedKey, wrappingKey, nonce, authTag);
   return util.decodeBase64(keyBase64);
 }
 
+// ============================================================================
+// Shamir Secret Sharing - k-of-n over GF(256) (mirrors backend)
+// ============================================================================
+
+// Log/antilog tables for GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1
+const GF_EXP = new Uint8Array(510);
+const GF_LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  GF_EXP[i] = x;
+  GF_EXP[i + 255] = x;
+  GF_LOG[x] = i;
+  x ^= x << 1; // multiply by the generator 3
+  if (x & 0x100) x ^= 0x11b;
+}
+
+function gfMul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  return a === 0 ? 0 : GF_EXP[GF_LOG[a] + 255 - GF_LOG[b]];
+}
+
+/**
+ * Split a secret into n shares, any k of which recover it
+ * Each share is base64 of [x, y_1 .. y_len] with x in 1..n
+ */
+export function splitSecret(secret: Uint8Array, n: number, k: number): string[] {
+  if (k < 2 || k > n || n > 255) {
+    throw new Error(`Invalid threshold: ${k}-of-${n}`);
+  }
+
+  const shares = Array.from({ length: n }, (_, i) => {
+    const share = new Uint8Array(secret.length + 1);
+    share[0] = i + 1;
+    return share;
+  });
+
+  for (let byte = 0; byte < secret.length; byte++) {
+    // Random polynomial of degree k-1 whose constant term is the secret byte
+    const coefficients = [secret[byte], ...crypto.getRandomValues(new Uint8Array(k - 1))];
+    for (const share of shares) {
+      const x = share[0];
+      let y = 0;
+      for (let c = coefficients.length - 1; c >= 0; c--) {
+        y = gfMul(y, x) ^ coefficients[c];
+      }
+      share[byte + 1] = y;
+    }
+  }
+
+  return shares.map(share => util.encodeBase64(share));
+}
+
+/**
+ * Recover a secret from k (or more) shares by Lagrange interpolation at x = 0
+ */
+export function combineShares(shares: string[]): Uint8Array {
+  const decoded = shares.map(share => util.decodeBase64(share));
+  const xs = decoded.map(share => share[0]);
+  if (new Set(xs).size !== xs.length || xs.includes(0)) {
+    throw new Error('Shares must have distinct, non-zero x coordinates');
+  }
+
+  const secret = new Uint8Array(decoded[0].length - 1);
+  for (let byte = 0; byte < secret.length; byte++) {
+    let value = 0;
+    for (let i = 0; i < decoded.length; i++) {
+      // Lagrange basis polynomial for share i, evaluated at 0
+      let basis = 1;
+      for (let j = 0; j < decoded.length; j++) {
+        if (i !== j) basis = gfMul(basis, gfDiv(xs[j], xs[j] ^ xs[i]));
+      }
+      value ^= gfMul(decoded[i][byte + 1], basis);
+    }
+    secret[byte] = value;
+  }
+  return secret;
+}
+
+/**
+ * Seal a share to another recipient (nacl.box) for server-side collection
+ */
+export function sealShare(
+  share: string,
+  myPrivateKey: string,
+  theirPublicKey: string
+): { ciphertext: string; nonce: string } {
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const ciphertext = nacl.box(
+    util.decodeBase64(share),
+    nonce,
+    util.decodeBase64(theirPublicKey),
+    util.decodeBase64(myPrivateKey)
+  );
+  return { ciphertext: util.encodeBase64(ciphertext), nonce: util.encodeBase64(nonce) };
+}
+
+/**
+ * Open a share another recipient sealed to us
+ */
+export function openShare(
+  sealed: { ciphertext: string; nonce: string },
+  myPrivateKey: string,
+  theirPublicKey: string
+): string {
+  const share = nacl.box.open(
+    util.decodeBase64(sealed.ciphertext),
+    util.decodeBase64(sealed.nonce),
+    util.decodeBase64(theirPublicKey),
+    util.decodeBase64(myPrivateKey)
+  );
+  if (!share) {
+    throw new Error('Sealed share failed authentication');
+  }
+  return util.encodeBase64(share);
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -229,6 +560,24 @@ export function generateAesKey(): Uint8Array {
   return crypto.getRandomValues(new Uint8Array(32));
 }
 
+/**
+ * Deterministic JSON (sorted keys, undefined dropped) - mirrors backend canonicalJson
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  const record = value as Record<string, unknown>;
+  const entries = Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
 export function generateNonce(): string {
   return generateRandomBytes(16);
 }
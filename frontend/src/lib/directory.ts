@@ -0,0 +1,138 @@
+/**
+ * Key directory client (mirrors backend directory.ts)
+ * Long-term recipient identities published under a handle
+ */
+
+import * as util from 'tweetnacl-util';
+import { signMessage, verifySignature } from './crypto';
+
+const API = 'http://localhost:3001/api/directory';
+
+export interface DirectoryIdentity {
+  handle: string;
+  displayName: string;
+  publicKey: string; // X25519
+  signingKey: string; // Ed25519 key that owns the entry
+  fingerprint: string;
+  registeredAt: number;
+  prekeysAvailable?: number; // Only on single-handle lookups
+}
+
+/**
+ * One-time X25519 prekey, signed with the identity's Ed25519 key
+ */
+export interface SignedPrekey {
+  keyId: number;
+  publicKey: string;
+  signature: string;
+}
+
+/**
+ * sha256 of the raw public key bytes, as 16 groups of 4 hex digits
+ * Computed locally so a sender never has to trust the server's fingerprint
+ */
+export async function keyFingerprint(publicKey: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array(util.decodeBase64(publicKey))));
+  const hex = Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return hex.match(/.{4}/g)!.join(' ');
+}
+
+export async function searchDirectory(query: string): Promise<DirectoryIdentity[]> {
+  const response = await fetch(`${API}?q=${encodeURIComponent(query)}`);
+  const result = await response.json();
+  return result.identities ?? [];
+}
+
+export async function lookupHandle(handle: string): Promise<DirectoryIdentity | null> {
+  const response = await fetch(`${API}/${encodeURIComponent(handle)}`);
+  return response.ok ? await response.json() : null;
+}
+
+/**
+ * Publish a keystore identity under a handle (self-signed with its Ed25519 key)
+ */
+export async function publishIdentity(
+  handle: string,
+  displayName: string,
+  keys: { publicKey: string; signingPublicKey: string; signingPrivateKey: string }
+): Promise<DirectoryIdentity> {
+  const timestamp = Date.now();
+  const payload = JSON.stringify({
+    action: 'register-identity',
+    handle,
+    displayName,
+    publicKey: keys.publicKey,
+    timestamp,
+  });
+
+  const response = await fetch(API, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      handle,
+      displayName,
+      publicKey: keys.publicKey,
+      signingKey: keys.signingPublicKey,
+      timestamp,
+      signature: signMessage(payload, keys.signingPrivateKey),
+    }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Server responded with ${response.status}`);
+  }
+
+  return result.identity;
+}
+
+// ============================================================================
+// One-Time Prekeys
+// ============================================================================
+
+/**
+ * Canonical string signed for each prekey (mirrors backend buildPrekeyPayload)
+ */
+export function buildPrekeyPayload(handle: string, keyId: number, publicKey: string): string {
+  return JSON.stringify({ action: 'prekey', handle, keyId, publicKey });
+}
+
+/**
+ * Upload signed prekeys to a published identity's pool
+ * Returns how many unclaimed prekeys the server now holds
+ */
+export async function uploadPrekeys(
+  handle: string,
+  prekeys: SignedPrekey[],
+  signingPrivateKey: string
+): Promise<number> {
+  const timestamp = Date.now();
+  const payload = JSON.stringify({ action: 'upload-prekeys', handle, timestamp });
+
+  const response = await fetch(`${API}/${encodeURIComponent(handle)}/prekeys`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ prekeys, timestamp, signature: signMessage(payload, signingPrivateKey) }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Server responded with ${response.status}`);
+  }
+
+  return result.available;
+}
+
+/**
+ * Claim a prekey to wrap one message to - null if the pool is empty
+ * Throws if the prekey is not signed by the identity's signing key
+ */
+export async function claimPrekey(identity: DirectoryIdentity): Promise<SignedPrekey | null> {
+  const response = await fetch(`${API}/${encodeURIComponent(identity.handle)}/prekeys/claim`, { method: 'POST' });
+  if (!response.ok) return null;
+
+  const prekey: SignedPrekey = await response.json();
+  const payload = buildPrekeyPayload(identity.handle, prekey.keyId, prekey.publicKey);
+  if (!verifySignature(payload, prekey.signature, identity.signingKey)) {
+    throw new Error(`Prekey for @${identity.handle} has an invalid signature`);
+  }
+  return prekey;
+}
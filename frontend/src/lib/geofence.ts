@@ -0,0 +1,152 @@
+/**
+ * Geofence geometry for the browser (mirrors backend geofence.ts)
+ * Used for the local "am I inside?" check and for drawing zones
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface CircleGeofence {
+  type: 'circle';
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
+export interface PolygonGeofence {
+  type: 'polygon';
+  vertices: GeoPoint[];
+}
+
+export interface MultiGeofence {
+  type: 'multi';
+  mode: 'any' | 'all';
+  zones: Array<CircleGeofence | PolygonGeofence>;
+}
+
+export type Geofence = CircleGeofence | PolygonGeofence | MultiGeofence;
+
+export type VerticalConstraint =
+  | { type: 'altitude'; minMeters: number; maxMeters: number; maxVerticalAccuracyMeters?: number }
+  | {
+      type: 'floor';
+      floor: number;
+      groundAltitudeMeters: number;
+      floorHeightMeters?: number;
+      maxVerticalAccuracyMeters?: number;
+    };
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+const EARTH_RADIUS = 6371000;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const φ1 = toRad(lat1);
+  const φ2 = toRad(lat2);
+  const Δφ = toRad(lat2 - lat1);
+  const Δλ = toRad(lon2 - lon1);
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+            Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  return EARTH_RADIUS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Gnomonic projection around a centre (great circles become straight lines)
+ */
+function project(center: GeoPoint, point: GeoPoint): { x: number; y: number } | null {
+  const φ0 = toRad(center.lat);
+  const φ = toRad(point.lat);
+  const Δλ = toRad(point.lon - center.lon);
+
+  const cosC = Math.sin(φ0) * Math.sin(φ) + Math.cos(φ0) * Math.cos(φ) * Math.cos(Δλ);
+  if (cosC <= 0) return null;
+
+  return {
+    x: (EARTH_RADIUS * Math.cos(φ) * Math.sin(Δλ)) / cosC,
+    y: (EARTH_RADIUS * (Math.cos(φ0) * Math.sin(φ) - Math.sin(φ0) * Math.cos(φ) * Math.cos(Δλ))) / cosC,
+  };
+}
+
+export function polygonCentroid(vertices: GeoPoint[]): GeoPoint {
+  const lat = vertices.reduce((sum, v) => sum + v.lat, 0) / vertices.length;
+  const lon = vertices.reduce((sum, v) => sum + v.lon, 0) / vertices.length;
+  return { lat, lon };
+}
+
+export function isWithinPolygon(lat: number, lon: number, vertices: GeoPoint[]): boolean {
+  const ring = vertices.map(v => project({ lat, lon }, v));
+  if (ring.some(p => p === null)) return false;
+
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i]!;
+    const b = ring[j]!;
+    if ((a.y > 0) !== (b.y > 0) && 0 < ((b.x - a.x) * (0 - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function zoneCenter(zone: CircleGeofence | PolygonGeofence): GeoPoint {
+  return zone.type === 'circle'
+    ? { lat: zone.latitude, lon: zone.longitude }
+    : polygonCentroid(zone.vertices);
+}
+
+function isWithinZone(zone: CircleGeofence | PolygonGeofence, lat: number, lon: number): boolean {
+  return zone.type === 'circle'
+    ? calculateDistance(lat, lon, zone.latitude, zone.longitude) <= zone.radiusMeters
+    : isWithinPolygon(lat, lon, zone.vertices);
+}
+
+/**
+ * Is a point inside the geofence? distance = meters to the nearest zone centre
+ */
+export function checkGeofence(geofence: Geofence, lat: number, lon: number): { within: boolean; distance: number } {
+  const zones = geofence.type === 'multi' ? geofence.zones : [geofence];
+  const inside = zones.map(zone => isWithinZone(zone, lat, lon));
+  const distance = Math.min(...zones.map(zone => {
+    const center = zoneCenter(zone);
+    return calculateDistance(lat, lon, center.lat, center.lon);
+  }));
+
+  const within = geofence.type === 'multi' && geofence.mode === 'all'
+    ? inside.every(Boolean)
+    : inside.some(Boolean);
+  return { within, distance };
+}
+
+/**
+ * Human-readable vertical constraint, e.g. "12.0m - 18.0m altitude"
+ */
+export function describeVertical(constraint: VerticalConstraint): string {
+  return constraint.type === 'floor'
+    ? `Floor ${constraint.floor} (ground ${constraint.groundAltitudeMeters}m, ${constraint.floorHeightMeters ?? 3}m/floor)`
+    : `${constraint.minMeters.toFixed(1)}m - ${constraint.maxMeters.toFixed(1)}m altitude`;
+}
+
+/**
+ * Circle enclosing every zone - stored as latitude/longitude/radiusMeters
+ * so older clients still see roughly where the message is
+ */
+export function enclosingCircle(geofence: Geofence): { latitude: number; longitude: number; radiusMeters: number } {
+  const zones = geofence.type === 'multi' ? geofence.zones : [geofence];
+  const center = polygonCentroid(zones.map(zoneCenter));
+
+  const radius = Math.max(...zones.map(zone => zone.type === 'circle'
+    ? calculateDistance(center.lat, center.lon, zone.latitude, zone.longitude) + zone.radiusMeters
+    : Math.max(...zone.vertices.map(v => calculateDistance(center.lat, center.lon, v.lat, v.lon)))));
+
+  return { latitude: center.lat, longitude: center.lon, radiusMeters: Math.max(1, Math.ceil(radius)) };
+}
@@ -0,0 +1,431 @@
+/**
+ * Encrypted keystore for recipient identities (IndexedDB)
+ *
+ * Each identity's private keys are sealed with AES-GCM under a key derived
+ * from the user's passphrase (PBKDF2-SHA256). Public halves stay readable so
+ * identities can be listed before unlocking. Backups are the same sealed
+ * format in a single JSON file, under a fresh salt.
+ *
+ * Published identities also hold one-time prekeys: the private half of each
+ * is deleted as soon as the message wrapped to it has been decrypted.
+ *
+ * The keys of directory contacts are pinned on first use, so a directory that
+ * later serves another key for the same handle is noticed.
+ *
+ * This browser's attesting device key is sealed the same way, so the device
+ * can only sign location attestations while the keystore is unlocked.
+ */
+
+import * as util from 'tweetnacl-util';
+import type { DeviceIdentity } from './attestation';
+import { generateEd25519KeyPair, generateX25519KeyPair, signMessage } from './crypto';
+import { buildPrekeyPayload, type SignedPrekey } from './directory';
+
+const DB_NAME = 'lbm-keystore';
+const DB_VERSION = 1;
+const IDENTITIES = 'identities';
+const META = 'meta';
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'lbm-keystore-v1';
+export const BACKUP_FORMAT = 'lbm-keystore-backup';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface Sealed {
+  ciphertext: string; // AES-GCM ciphertext + tag
+  nonce: string;
+}
+
+interface KeystoreMeta {
+  id: 'kdf';
+  salt: string;
+  iterations: number;
+  verifier: Sealed; // VERIFIER_TEXT, to reject a wrong passphrase up front
+}
+
+/**
+ * Public part of an identity - readable while the keystore is locked
+ */
+export interface IdentitySummary {
+  id: string;
+  label: string;
+  handle?: string; // Set once published to the key directory
+  publicKey: string; // X25519
+  signingPublicKey: string; // Ed25519
+  createdAt: number;
+  prekeys?: { keyId: number; publicKey: string }[]; // One-time prekeys not used up yet
+  lastPrekeyId?: number;
+}
+
+export interface IdentitySecrets extends IdentitySummary {
+  privateKey: string;
+  signingPrivateKey: string;
+  prekeyPrivateKeys?: Record<number, string>; // keyId -> X25519 private key
+}
+
+/**
+ * Keys a directory handle had when we first sent to it (public, not sealed)
+ */
+export interface PinnedContact {
+  publicKey: string; // X25519
+  signingKey: string; // Ed25519 - verifies the contact's prekeys
+  pinnedAt: number;
+}
+
+interface PinnedContacts {
+  id: 'pins';
+  contacts: Record<string, PinnedContact>; // handle -> pinned keys
+}
+
+interface StoredIdentity extends IdentitySummary {
+  sealed: Sealed; // { privateKey, signingPrivateKey, prekeyPrivateKeys }
+}
+
+interface StoredDevice extends Omit<DeviceIdentity, 'privateKey'> {
+  id: 'device';
+  sealed: Sealed; // Ed25519 private key
+}
+
+/**
+ * An unlocked keystore: the passphrase-derived key, held in memory only
+ */
+export interface KeystoreSession {
+  key: CryptoKey;
+}
+
+// ============================================================================
+// IndexedDB
+// ============================================================================
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(IDENTITIES, { keyPath: 'id' });
+      request.result.createObjectStore(META, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(name, mode).objectStore(name));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// ============================================================================
+// Passphrase Key & Sealing
+// ============================================================================
+
+async function derivePassphraseKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: new Uint8Array(util.decodeBase64(salt)), iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function seal(key: CryptoKey, plaintext: string): Promise<Sealed> {
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return { ciphertext: util.encodeBase64(new Uint8Array(ciphertext)), nonce: util.encodeBase64(nonce) };
+}
+
+/**
+ * Throws on a wrong key or tampered data (AES-GCM authentication)
+ */
+async function open(key: CryptoKey, sealed: Sealed): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: new Uint8Array(util.decodeBase64(sealed.nonce)) },
+    key,
+    new Uint8Array(util.decodeBase64(sealed.ciphertext))
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+function randomSalt(): string {
+  return util.encodeBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+// ============================================================================
+// Keystore
+// ============================================================================
+
+// Shared by every page until the tab is closed or lockKeystore() is called
+let activeSession: KeystoreSession | null = null;
+
+export function getActiveSession(): KeystoreSession | null {
+  return activeSession;
+}
+
+export function lockKeystore(): void {
+  activeSession = null;
+}
+
+export async function isKeystoreInitialized(): Promise<boolean> {
+  return (await withStore<KeystoreMeta | undefined>(META, 'readonly', (store) => store.get('kdf'))) !== undefined;
+}
+
+/**
+ * Unlock with a passphrase - the first unlock sets the passphrase
+ */
+export async function unlockKeystore(passphrase: string): Promise<KeystoreSession> {
+  const meta = await withStore<KeystoreMeta | undefined>(META, 'readonly', (store) => store.get('kdf'));
+
+  if (!meta) {
+    const salt = randomSalt();
+    const key = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const created: KeystoreMeta = {
+      id: 'kdf',
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await seal(key, VERIFIER_TEXT),
+    };
+    await withStore(META, 'readwrite', (store) => store.put(created));
+    activeSession = { key };
+    return activeSession;
+  }
+
+  const key = await derivePassphraseKey(passphrase, meta.salt, meta.iterations);
+  try {
+    await open(key, meta.verifier);
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+  activeSession = { key };
+  return activeSession;
+}
+
+export async function listIdentities(): Promise<IdentitySummary[]> {
+  const stored = await withStore<StoredIdentity[]>(IDENTITIES, 'readonly', (store) => store.getAll());
+  return stored
+    .map(({ sealed: _sealed, ...summary }) => summary)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Store an identity whose keys were generated elsewhere (e.g. a backup)
+ */
+export async function saveIdentity(session: KeystoreSession, identity: IdentitySecrets): Promise<IdentitySummary> {
+  const { privateKey, signingPrivateKey, prekeyPrivateKeys, ...summary } = identity;
+  const sealed = await seal(session.key, JSON.stringify({ privateKey, signingPrivateKey, prekeyPrivateKeys }));
+  await withStore(IDENTITIES, 'readwrite', (store) => store.put({ ...summary, sealed }));
+  return summary;
+}
+
+/**
+ * Generate a fresh X25519 (encryption) + Ed25519 (signing) identity
+ */
+export async function createIdentity(session: KeystoreSession, label: string): Promise<IdentitySecrets> {
+  const encryption = generateX25519KeyPair();
+  const signing = generateEd25519KeyPair();
+  const identity: IdentitySecrets = {
+    id: crypto.randomUUID(),
+    label,
+    publicKey: encryption.publicKey,
+    privateKey: encryption.privateKey,
+    signingPublicKey: signing.publicKey,
+    signingPrivateKey: signing.privateKey,
+    createdAt: Date.now(),
+  };
+  await saveIdentity(session, identity);
+  return identity;
+}
+
+export async function getIdentity(session: KeystoreSession, id: string): Promise<IdentitySecrets | null> {
+  const stored = await withStore<StoredIdentity | undefined>(IDENTITIES, 'readonly', (store) => store.get(id));
+  if (!stored) return null;
+
+  const { sealed, ...summary } = stored;
+  return { ...summary, ...JSON.parse(await open(session.key, sealed)) };
+}
+
+/**
+ * Record the directory handle an identity was published under
+ */
+export async function setIdentityHandle(session: KeystoreSession, id: string, handle: string): Promise<void> {
+  const identity = await getIdentity(session, id);
+  if (identity) {
+    await saveIdentity(session, { ...identity, handle });
+  }
+}
+
+export async function deleteIdentity(id: string): Promise<void> {
+  await withStore(IDENTITIES, 'readwrite', (store) => store.delete(id));
+}
+
+// ============================================================================
+// One-Time Prekeys
+// ============================================================================
+
+/**
+ * Generate and store `count` prekeys for a published identity
+ * Returns the signed public halves, ready for uploadPrekeys()
+ */
+export async function generatePrekeys(session: KeystoreSession, id: string, count: number): Promise<SignedPrekey[]> {
+  const identity = await getIdentity(session, id);
+  if (!identity?.handle) throw new Error('Publish the identity to the directory first');
+
+  const prekeys = identity.prekeys ?? [];
+  const prekeyPrivateKeys = { ...identity.prekeyPrivateKeys };
+  const signed: SignedPrekey[] = [];
+  let keyId = identity.lastPrekeyId ?? 0;
+  for (let i = 0; i < count; i++) {
+    const keyPair = generateX25519KeyPair();
+    keyId++;
+    prekeys.push({ keyId, publicKey: keyPair.publicKey });
+    prekeyPrivateKeys[keyId] = keyPair.privateKey;
+    signed.push({
+      keyId,
+      publicKey: keyPair.publicKey,
+      signature: signMessage(buildPrekeyPayload(identity.handle, keyId, keyPair.publicKey), identity.signingPrivateKey),
+    });
+  }
+
+  await saveIdentity(session, { ...identity, prekeys, prekeyPrivateKeys, lastPrekeyId: keyId });
+  return signed;
+}
+
+/**
+ * Forget a prekey's private half - messages wrapped to it become unreadable
+ */
+export async function deletePrekey(session: KeystoreSession, id: string, keyId: number): Promise<void> {
+  const identity = await getIdentity(session, id);
+  if (!identity) return;
+
+  const { [keyId]: _deleted, ...prekeyPrivateKeys } = identity.prekeyPrivateKeys ?? {};
+  await saveIdentity(session, {
+    ...identity,
+    prekeys: (identity.prekeys ?? []).filter((prekey) => prekey.keyId !== keyId),
+    prekeyPrivateKeys,
+  });
+}
+
+/**
+ * Private key for a long-term public key or one of the identity's prekeys
+ */
+export function privateKeyFor(identity: IdentitySecrets, publicKey: string): string | null {
+  if (identity.publicKey === publicKey) return identity.privateKey;
+  const prekey = identity.prekeys?.find((entry) => entry.publicKey === publicKey);
+  return prekey ? identity.prekeyPrivateKeys?.[prekey.keyId] ?? null : null;
+}
+
+// ============================================================================
+// Pinned Contacts (trust on first use)
+// ============================================================================
+
+async function loadPins(): Promise<PinnedContacts> {
+  const pins = await withStore<PinnedContacts | undefined>(META, 'readonly', (store) => store.get('pins'));
+  return pins ?? { id: 'pins', contacts: {} };
+}
+
+export async function getPinnedContact(handle: string): Promise<PinnedContact | null> {
+  return (await loadPins()).contacts[handle] ?? null;
+}
+
+/**
+ * Pin (or, after the user confirmed a key change, re-pin) a handle's keys
+ */
+export async function pinContact(handle: string, publicKey: string, signingKey: string): Promise<void> {
+  const pins = await loadPins();
+  pins.contacts[handle] = { publicKey, signingKey, pinnedAt: Date.now() };
+  await withStore(META, 'readwrite', (store) => store.put(pins));
+}
+
+// ============================================================================
+// Device Key
+// ============================================================================
+
+/**
+ * This browser's device identity - null if none is stored yet
+ */
+export async function loadDevice(session: KeystoreSession): Promise<DeviceIdentity | null> {
+  const stored = await withStore<StoredDevice | undefined>(META, 'readonly', (store) => store.get('device'));
+  if (!stored) return null;
+  const { id: _id, sealed, ...device } = stored;
+  return { ...device, privateKey: await open(session.key, sealed) };
+}
+
+export async function saveDevice(session: KeystoreSession, device: DeviceIdentity): Promise<void> {
+  const { privateKey, ...summary } = device;
+  const stored: StoredDevice = { ...summary, id: 'device', sealed: await seal(session.key, privateKey) };
+  await withStore(META, 'readwrite', (store) => store.put(stored));
+}
+
+// ============================================================================
+// Encrypted Backups
+// ============================================================================
+
+/**
+ * Every identity, sealed under a key derived from the backup passphrase
+ */
+export async function exportBackup(session: KeystoreSession, backupPassphrase: string): Promise<string> {
+  const summaries = await listIdentities();
+  const identities = await Promise.all(summaries.map((summary) => getIdentity(session, summary.id)));
+
+  const salt = randomSalt();
+  const key = await derivePassphraseKey(backupPassphrase, salt, PBKDF2_ITERATIONS);
+  return JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2-SHA256', salt, iterations: PBKDF2_ITERATIONS },
+    exportedAt: Date.now(),
+    ...(await seal(key, JSON.stringify(identities))),
+  }, null, 2);
+}
+
+/**
+ * Restore identities from a backup file into the unlocked keystore
+ * Returns how many identities were imported
+ */
+export async function importBackup(
+  session: KeystoreSession,
+  backupText: string,
+  backupPassphrase: string
+): Promise<number> {
+  const backup = JSON.parse(backupText);
+  if (backup.format !== BACKUP_FORMAT || backup.version !== 1) {
+    throw new Error('Not a keystore backup file');
+  }
+
+  const key = await derivePassphraseKey(backupPassphrase, backup.kdf.salt, backup.kdf.iterations);
+  let identities: IdentitySecrets[];
+  try {
+    identities = JSON.parse(await open(key, backup));
+  } catch {
+    throw new Error('Wrong backup passphrase or damaged file');
+  }
+
+  for (const identity of identities) {
+    await saveIdentity(session, identity);
+  }
+  return identities.length;
+}
@@ -0,0 +1,203 @@
+/**
+ * Simple mode, cell variant, for the browser (mirrors backend simple-crypto.ts)
+ * The location is the secret: both sides quantize a position into a grid cell
+ * and derive the key from it locally - coordinates never reach the server
+ * Messages use the backend's "v2" AES-GCM envelope; XOR (teaching mode) is
+ * still written on request and always readable
+ */
+
+const METERS_PER_DEGREE_LAT = 111320;
+const MIN_CELL_SIZE_METERS = 10;
+const ENVELOPE_VERSION = 'v2';
+const PBKDF2_ITERATIONS = 100000;
+
+export type SimpleCipher = 'aes-gcm' | 'xor';
+
+export interface CellMessage {
+  encrypted: string; // v2 envelope keyed by the cell id, or base64 XOR ciphertext
+  salt: string; // base64, 16 random bytes
+  commitment: string; // first half of PBKDF2(cellId, salt), hex
+  cellSizeMeters: number;
+}
+
+// ============================================================================
+// Grid Cells
+// ============================================================================
+
+export function cellSizeForRadius(radiusMeters: number): number {
+  return Math.max(MIN_CELL_SIZE_METERS, Math.round(radiusMeters));
+}
+
+/**
+ * "size:row:col" - must match backend cellId exactly
+ */
+export function cellId(lat: number, lon: number, cellSizeMeters: number): string {
+  const row = Math.floor(lat * METERS_PER_DEGREE_LAT / cellSizeMeters);
+  return `${cellSizeMeters}:${row}:${cellColumn(row, lon, cellSizeMeters)}`;
+}
+
+function cellColumn(row: number, lon: number, cellSizeMeters: number): number {
+  const rowCenterLat = ((row + 0.5) * cellSizeMeters) / METERS_PER_DEGREE_LAT;
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.max(Math.cos(rowCenterLat * Math.PI / 180), 0.01);
+  return Math.floor(lon * metersPerDegreeLon / cellSizeMeters);
+}
+
+/**
+ * Our own cell first, then the 8 around it
+ */
+export function neighborCellIds(lat: number, lon: number, cellSizeMeters: number): string[] {
+  const ownRow = Math.floor(lat * METERS_PER_DEGREE_LAT / cellSizeMeters);
+  const cells = [cellId(lat, lon, cellSizeMeters)];
+  for (const row of [ownRow - 1, ownRow, ownRow + 1]) {
+    const column = cellColumn(row, lon, cellSizeMeters);
+    for (const col of [column - 1, column, column + 1]) {
+      const id = `${cellSizeMeters}:${row}:${col}`;
+      if (!cells.includes(id)) cells.push(id);
+    }
+  }
+  return cells;
+}
+
+// ============================================================================
+// Keys and Encryption
+// ============================================================================
+
+/**
+ * Commitment and XOR key from one PBKDF2 run - same as backend deriveCellSecrets
+ * (a plain hash would let anyone test cells against the commitment cheaply)
+ */
+export async function deriveCellSecrets(salt: string, cell: string): Promise<{ commitment: string; key: Uint8Array }> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(cell), 'PBKDF2', false, ['deriveBits']);
+  const derived = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    512
+  ));
+  return {
+    commitment: Array.from(derived.slice(0, 32), (byte) => byte.toString(16).padStart(2, '0')).join(''),
+    key: derived.slice(32),
+  };
+}
+
+function xor(bytes: Uint8Array, key: Uint8Array): Uint8Array {
+  return bytes.map((byte, i) => byte ^ key[i % key.length]);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+// ============================================================================
+// Authenticated Envelope (v2)
+// ============================================================================
+
+async function deriveEnvelopeKey(secret: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveKey']);
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * "v2.<salt>.<nonce>.<ciphertext>.<authTag>" - same format as backend sealEnvelope
+ */
+export async function sealEnvelope(message: string, secret: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const sealed = new Uint8Array(await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce },
+    await deriveEnvelopeKey(secret, salt),
+    new TextEncoder().encode(message)
+  ));
+  // WebCrypto appends the 16-byte tag to the ciphertext
+  const ciphertext = sealed.slice(0, -16);
+  const authTag = sealed.slice(-16);
+
+  return [ENVELOPE_VERSION, ...[salt, nonce, ciphertext, authTag].map(toBase64)].join('.');
+}
+
+/**
+ * null when authentication fails (wrong key or modified envelope)
+ */
+export async function openEnvelope(envelope: string, secret: string): Promise<string | null> {
+  const [version, salt, nonce, ciphertext, authTag] = envelope.split('.');
+  if (version !== ENVELOPE_VERSION || !authTag) return null;
+
+  try {
+    const sealed = new Uint8Array([...fromBase64(ciphertext), ...fromBase64(authTag)]);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(nonce) },
+      await deriveEnvelopeKey(secret, fromBase64(salt)),
+      sealed
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return null;
+  }
+}
+
+export function isLegacyCiphertext(encrypted: string): boolean {
+  return !encrypted.startsWith(`${ENVELOPE_VERSION}.`);
+}
+
+/**
+ * Encrypt on the sender's device for whoever stands in the destination's cell
+ */
+export async function encryptForCell(
+  message: string,
+  destLat: number,
+  destLon: number,
+  radiusMeters: number = 100,
+  cipher: SimpleCipher = 'aes-gcm'
+): Promise<CellMessage> {
+  const cellSizeMeters = cellSizeForRadius(radiusMeters);
+  const cell = cellId(destLat, destLon, cellSizeMeters);
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  const { commitment, key } = await deriveCellSecrets(salt, cell);
+
+  return {
+    encrypted: cipher === 'xor'
+      ? toBase64(xor(new TextEncoder().encode(message), key))
+      : await sealEnvelope(message, cell),
+    salt,
+    commitment,
+    cellSizeMeters,
+  };
+}
+
+/**
+ * Try our own cell and its neighbours against the commitment
+ */
+export async function decryptInCell(
+  cellMessage: CellMessage,
+  currentLat: number,
+  currentLon: number
+): Promise<{ success: boolean; message?: string; cell?: string; authFailed?: boolean }> {
+  for (const cell of neighborCellIds(currentLat, currentLon, cellMessage.cellSizeMeters)) {
+    const { commitment, key } = await deriveCellSecrets(cellMessage.salt, cell);
+    if (commitment !== cellMessage.commitment) continue;
+
+    if (isLegacyCiphertext(cellMessage.encrypted)) {
+      return {
+        success: true,
+        message: new TextDecoder().decode(xor(fromBase64(cellMessage.encrypted), key)),
+        cell,
+      };
+    }
+
+    // The commitment matched, so a failure here means the ciphertext was modified
+    const message = await openEnvelope(cellMessage.encrypted, cell);
+    return message === null
+      ? { success: false, cell, authFailed: true }
+      : { success: true, message, cell };
+  }
+  return { success: false };
+}